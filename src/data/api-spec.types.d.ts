@@ -0,0 +1,52 @@
+// 자동 생성 파일입니다. 직접 수정하지 말고 npm run spec:types 로 재생성하세요.
+// src/data/api-spec.json 의 requestBodySchema / responseBodySchema → TypeScript
+export interface SpecBodyTypes {
+  "POST_/api/v1/menu/select": {
+    request: {
+      /** 메뉴 ID */
+      menuId: string;
+      /** 주문 수량 */
+      quantity: number;
+      /** 가게 ID */
+      shopId: string;
+      /** 회원번호 */
+      memberNo: string;
+    };
+    response: {
+      status: "SUCCESS" | "ERROR";
+      message: string;
+      timestamp: string;
+      data: {
+        /** 메뉴 예약 ID */
+        reservationId: string;
+        /** 예약 만료 시간 (RFC3339, timestamp로부터 5분 유효) */
+        reservationExpiresAt: string;
+        menuId: string;
+        quantity: number;
+      };
+    };
+  };
+  "POST_/api/v1/order/create": {
+    request: {
+      /** 메뉴선택에서 받은 예약 ID */
+      reservationId: string;
+      /** 회원번호 */
+      memberNo: string;
+    };
+    response: {
+      status: "SUCCESS" | "ERROR";
+      message: string;
+      timestamp: string;
+      data: {
+        /** 주문 번호 (8자리 영숫자) */
+        orderNo: string;
+        orderStatus: "INITIALIZING";
+        reservationId: string;
+        createdAt: string;
+        memberInfo: {
+          memberNo: string;
+        };
+      };
+    };
+  };
+}
@@ -0,0 +1,69 @@
+import {
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { join } from "node:path";
+
+import apiSpec from "../data/api-spec.json";
+import type { SpecDocument } from "../utils/api-spec";
+import {
+  exportJsonSchemas,
+  exportOpenApi,
+  schemaFileStem,
+} from "../utils/openapi-export";
+
+/* ─────────────────────────────────────────────────────────
+ * src/data/api-spec.json → docs/openapi (OpenAPI 3.1 + 엔드포인트별 JSON Schema)
+ *  - npm run spec:export        : 재생성
+ *  - npm run spec:export:check  : 생성 결과가 스펙과 다르면 실패
+ * ───────────────────────────────────────────────────────── */
+const OUT_DIR = "docs/openapi";
+const SCHEMA_DIR = join(OUT_DIR, "schemas");
+
+const spec = apiSpec as unknown as SpecDocument;
+const json = (value: unknown) => `${JSON.stringify(value, null, 2)}\n`;
+
+const files = new Map<string, string>([
+  [join(OUT_DIR, "openapi.json"), json(exportOpenApi(spec))],
+]);
+for (const [key, schemas] of Object.entries(exportJsonSchemas(spec))) {
+  for (const [kind, schema] of Object.entries(schemas)) {
+    files.set(
+      join(SCHEMA_DIR, `${schemaFileStem(key)}.${kind}.schema.json`),
+      json(schema)
+    );
+  }
+}
+
+if (process.argv.includes("--check")) {
+  const existing = existsSync(SCHEMA_DIR)
+    ? readdirSync(SCHEMA_DIR).map((name) => join(SCHEMA_DIR, name))
+    : [];
+  const stale = [
+    ...[...files].filter(
+      ([path, content]) =>
+        !existsSync(path) || readFileSync(path, "utf8") !== content
+    ),
+    ...existing.filter((path) => !files.has(path)).map((path) => [path]),
+  ].map(([path]) => path);
+
+  if (stale.length) {
+    console.error(
+      `${OUT_DIR} 가 api-spec.json 과 다릅니다. npm run spec:export 로 재생성하세요.\n${stale.join(
+        "\n"
+      )}`
+    );
+    process.exitCode = 1;
+  } else {
+    console.log(`${OUT_DIR} 최신 상태입니다.`);
+  }
+} else {
+  rmSync(SCHEMA_DIR, { recursive: true, force: true });
+  mkdirSync(SCHEMA_DIR, { recursive: true });
+  for (const [path, content] of files) writeFileSync(path, content);
+  console.log(`${OUT_DIR} 에 ${files.size}개 파일을 생성했습니다.`);
+}
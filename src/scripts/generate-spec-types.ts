@@ -0,0 +1,28 @@
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+
+import apiSpec from "../data/api-spec.json";
+import type { SpecDocument } from "../utils/api-spec";
+import { renderSpecTypes } from "../utils/spec-schema";
+
+/* ─────────────────────────────────────────────────────────
+ * src/data/api-spec.json → src/data/api-spec.types.d.ts (api-client 본문 타입)
+ *  - npm run spec:types        : 재생성
+ *  - npm run spec:types:check  : 생성 결과가 스펙과 다르면 실패
+ * ───────────────────────────────────────────────────────── */
+const OUT_FILE = "src/data/api-spec.types.d.ts";
+
+const content = renderSpecTypes(apiSpec as unknown as SpecDocument);
+
+if (process.argv.includes("--check")) {
+  if (!existsSync(OUT_FILE) || readFileSync(OUT_FILE, "utf8") !== content) {
+    console.error(
+      `${OUT_FILE} 가 api-spec.json 과 다릅니다. npm run spec:types 로 재생성하세요.`
+    );
+    process.exitCode = 1;
+  } else {
+    console.log(`${OUT_FILE} 최신 상태입니다.`);
+  }
+} else {
+  writeFileSync(OUT_FILE, content);
+  console.log(`${OUT_FILE} 를 생성했습니다.`);
+}
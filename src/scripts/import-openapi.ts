@@ -0,0 +1,60 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import { isDeepStrictEqual } from "node:util";
+
+import type { SpecDocument } from "../utils/api-spec";
+import {
+  importOpenApi,
+  mergeSpec,
+  parseOpenApi,
+} from "../utils/openapi-import";
+
+/* ─────────────────────────────────────────────────────────
+ * OpenAPI 3.0/3.1 (YAML/JSON) → src/data/api-spec.json 병합
+ *  - npm run spec:import -- <openapi.yaml>          : 병합 후 저장
+ *  - npm run spec:import -- <openapi.yaml> --check  : 병합 결과가 다르면 실패
+ *  - --out <path> 로 대상 파일 변경
+ * ───────────────────────────────────────────────────────── */
+const DEFAULT_OUT = "src/data/api-spec.json";
+
+const args = process.argv.slice(2);
+const outAt = args.indexOf("--out");
+const out = outAt >= 0 ? args[outAt + 1] : DEFAULT_OUT;
+const input = args.find(
+  (arg, i) => !arg.startsWith("--") && (outAt < 0 || i !== outAt + 1)
+);
+
+if (!input || !out) {
+  console.error(
+    "사용법: npm run spec:import -- <openapi.yaml|json> [--out src/data/api-spec.json] [--check]"
+  );
+  process.exit(1);
+}
+
+const existing = JSON.parse(readFileSync(out, "utf8")) as SpecDocument;
+const imported = importOpenApi(parseOpenApi(readFileSync(input, "utf8")));
+const merged = mergeSpec(existing, imported);
+
+const added = Object.keys(imported).filter((key) => !existing[key]);
+const changed = Object.keys(imported).filter(
+  (key) => existing[key] && !isDeepStrictEqual(existing[key], merged[key])
+);
+
+if (process.argv.includes("--check")) {
+  if (added.length || changed.length) {
+    console.error(
+      `${out} 가 ${input} 와 다릅니다 (추가 ${added.length}, 변경 ${
+        changed.length
+      }): ${[...added, ...changed].join(", ")}`
+    );
+    process.exitCode = 1;
+  } else {
+    console.log(`${out} 가 ${input} 와 일치합니다.`);
+  }
+} else if (!added.length && !changed.length) {
+  console.log(`${out} 가 이미 최신입니다.`);
+} else {
+  writeFileSync(out, `${JSON.stringify(merged, null, 2)}\n`);
+  console.log(
+    `${out} 에 병합했습니다 (추가 ${added.length}, 변경 ${changed.length}).`
+  );
+}
@@ -0,0 +1,19 @@
+import { readFileSync } from "node:fs";
+
+import { formatSpecViolation, lintSpec } from "../utils/spec-lint";
+
+/* ─────────────────────────────────────────────────────────
+ * 스펙 일관성 검사 (npm run lint:spec [-- <api-spec.json>])
+ *  - 기본 대상: src/data/api-spec.json
+ * ───────────────────────────────────────────────────────── */
+const SPEC_PATH = process.argv[2] ?? "src/data/api-spec.json";
+
+const violations = lintSpec(JSON.parse(readFileSync(SPEC_PATH, "utf8")));
+
+if (violations.length) {
+  console.error(violations.map(formatSpecViolation).join("\n"));
+  console.error(`\n${SPEC_PATH} 스펙 규칙 위반 ${violations.length}건`);
+  process.exitCode = 1;
+} else {
+  console.log(`${SPEC_PATH} 스펙 규칙 통과`);
+}
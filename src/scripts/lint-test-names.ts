@@ -0,0 +1,27 @@
+import { readdirSync, readFileSync } from "node:fs";
+
+import { formatViolation, lintTestNames } from "../utils/test-name-lint";
+
+/* ─────────────────────────────────────────────────────────
+ * 테스트 이름 규칙 검사 (npm run lint:test-names)
+ *  - 대상: src/tests/*.test.ts
+ * ───────────────────────────────────────────────────────── */
+const TEST_DIR = "src/tests";
+
+const sources = readdirSync(TEST_DIR)
+  .filter((name) => name.endsWith(".test.ts"))
+  .sort()
+  .map((name) => {
+    const file = `${TEST_DIR}/${name}`;
+    return { file, source: readFileSync(file, "utf8") };
+  });
+
+const violations = lintTestNames(sources);
+
+if (violations.length) {
+  console.error(violations.map(formatViolation).join("\n"));
+  console.error(`\n테스트 이름 규칙 위반 ${violations.length}건`);
+  process.exitCode = 1;
+} else {
+  console.log(`테스트 이름 규칙 통과 (${sources.length}개 파일)`);
+}
@@ -0,0 +1,66 @@
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { relative, sep } from "node:path";
+import { createVitest, type TestCase } from "vitest/node";
+
+import {
+  buildTestCaseSections,
+  readPurposes,
+  renderTestCaseSpec,
+  type CollectedTest,
+} from "../utils/test-case-spec";
+
+/* ─────────────────────────────────────────────────────────
+ * docs/Api_Test_Case_Specification.md 생성기
+ *  - npm run docs:test-cases        : 문서 재생성
+ *  - npm run docs:test-cases:check  : 문서가 테스트 이름과 다르면 실패
+ * ───────────────────────────────────────────────────────── */
+const DOC_DIR = "docs";
+const DOC_PATH = `${DOC_DIR}/Api_Test_Case_Specification.md`;
+
+const topSuiteOf = (test: TestCase) => {
+  let suite: string | undefined;
+  for (let p = test.parent; p.type === "suite"; p = p.parent) suite = p.name;
+  return suite;
+};
+
+/** 테스트를 실행하지 않고 Vitest 태스크 트리만 수집 */
+const collectTests = async (): Promise<CollectedTest[]> => {
+  const vitest = await createVitest("test", {
+    watch: false,
+    includeTaskLocation: true,
+  });
+  try {
+    const { testModules } = await vitest.collect();
+    return testModules.flatMap((mod) => {
+      const file = relative(process.cwd(), mod.moduleId).split(sep).join("/");
+      return [...mod.children.allTests()].map((test) => ({
+        suite: topSuiteOf(test) ?? file,
+        name: test.name,
+        file,
+        line: test.location?.line ?? 0,
+      }));
+    });
+  } finally {
+    await vitest.close();
+  }
+};
+
+const current = existsSync(DOC_PATH) ? readFileSync(DOC_PATH, "utf8") : "";
+const next = renderTestCaseSpec(
+  buildTestCaseSections(await collectTests(), readPurposes(current)),
+  DOC_DIR
+);
+
+if (process.argv.includes("--check")) {
+  if (current !== next) {
+    console.error(
+      `${DOC_PATH} 가 테스트 이름과 다릅니다. npm run docs:test-cases 로 재생성하세요.`
+    );
+    process.exitCode = 1;
+  } else {
+    console.log(`${DOC_PATH} 최신 상태입니다.`);
+  }
+} else {
+  writeFileSync(DOC_PATH, next);
+  console.log(`${DOC_PATH} 를 재생성했습니다.`);
+}
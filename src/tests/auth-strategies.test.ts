@@ -0,0 +1,198 @@
+import axios, { type AxiosRequestConfig } from "axios";
+import { afterEach, describe, expect, it } from "vitest";
+
+import { createApiClient } from "../utils/api-client";
+import {
+  apiKeyAuth,
+  basicAuth,
+  cookieAuth,
+  HMAC_HEADERS,
+  hmacAuth,
+  hmacCanonical,
+  registerAuthStrategy,
+  signHmac,
+} from "../utils/auth-strategies";
+import { setupAuthHeader } from "../utils/axios-bearer-auth";
+import { MockAdapter } from "../utils/mock-adapter";
+
+const BASE_URL = "http://api.test";
+const MENU_SELECT = "/api/v1/menu/select";
+const payload = {
+  menuId: "menu_001",
+  quantity: 1,
+  shopId: "shop_001",
+  memberNo: "member_123",
+};
+
+const restores: Array<() => void> = [];
+const register = (...args: Parameters<typeof registerAuthStrategy>) =>
+  restores.push(registerAuthStrategy(...args));
+
+afterEach(() => {
+  restores.splice(0).forEach((restore) => restore());
+});
+
+/** 전송 직전 설정을 캡처하는 클라이언트 (네트워크 없음) */
+const capturingClient = () => {
+  const sent: AxiosRequestConfig[] = [];
+  const client = axios.create({
+    baseURL: BASE_URL,
+    adapter: async (config) => {
+      sent.push(config);
+      return { data: {}, status: 200, statusText: "OK", headers: {}, config };
+    },
+  });
+  setupAuthHeader(client, "bearer-token");
+  return { client, sent };
+};
+
+const headerOf = (cfg: AxiosRequestConfig, name: string) =>
+  (cfg.headers as any)?.get?.(name) ?? (cfg.headers as any)?.[name];
+
+describe("auth-strategies", () => {
+  it.each([
+    {
+      strategy: "partnerKey",
+      auth: apiKeyAuth({ in: "header", name: "x-api-key", value: "key-1" }),
+      header: ["x-api-key", "key-1"],
+    },
+    {
+      strategy: "partnerQuery",
+      auth: apiKeyAuth({ in: "query", name: "api_key", value: () => "key-2" }),
+      param: ["api_key", "key-2"],
+    },
+    {
+      strategy: "admin",
+      auth: basicAuth({ username: "admin", password: "p@ss" }),
+      header: ["Authorization", "Basic YWRtaW46cEBzcw=="],
+    },
+    {
+      strategy: "session",
+      auth: cookieAuth({ cookie: "SESSION=abc" }),
+      header: ["Cookie", "theme=dark; SESSION=abc"],
+    },
+  ])(
+    "요청별 전략($strategy) — 자격 증명 주입, 선택 헤더 제거",
+    async ({ strategy, auth, header, param }) => {
+      // given
+      register(strategy, auth);
+      const { client, sent } = capturingClient();
+
+      // when
+      await client.get(MENU_SELECT, {
+        headers: { "x-auth-strategy": strategy, Cookie: "theme=dark" },
+      });
+
+      // then
+      const [cfg] = sent;
+      if (header) expect(headerOf(cfg, header[0])).toBe(header[1]);
+      if (param) expect(cfg.params).toEqual({ [param[0]]: param[1] });
+      expect(headerOf(cfg, "x-auth-strategy")).toBeUndefined();
+      if (strategy !== "admin") {
+        expect(headerOf(cfg, "Authorization")).toBeUndefined();
+      }
+    }
+  );
+
+  it("HMAC-SHA256 — timestamp/nonce 포함 서명, 본문·쿼리 반영", async () => {
+    // given
+    register(
+      "signed",
+      hmacAuth({
+        keyId: "key-1",
+        secret: "s3cret",
+        now: () => Date.parse("2025-08-07T12:30:00.000Z"),
+        nonce: () => "nonce-1",
+      })
+    );
+    const { client, sent } = capturingClient();
+
+    // when
+    await client.post(MENU_SELECT, payload, {
+      params: { b: "2", a: "1" },
+      headers: { "x-auth-strategy": "signed" },
+    });
+
+    // then
+    const [cfg] = sent;
+    const canonical = hmacCanonical(
+      {
+        method: "post",
+        url: `${BASE_URL}${MENU_SELECT}`,
+        params: { b: "2", a: "1" },
+        data: payload,
+      },
+      "1754569800",
+      "nonce-1"
+    );
+    expect(canonical.split("\n").slice(0, 4)).toEqual([
+      "POST",
+      `${MENU_SELECT}?a=1&b=2`,
+      "1754569800",
+      "nonce-1",
+    ]);
+    expect(headerOf(cfg, HMAC_HEADERS.keyId)).toBe("key-1");
+    expect(headerOf(cfg, HMAC_HEADERS.timestamp)).toBe("1754569800");
+    expect(headerOf(cfg, HMAC_HEADERS.nonce)).toBe("nonce-1");
+    expect(headerOf(cfg, HMAC_HEADERS.signature)).toBe(
+      signHmac("s3cret", canonical)
+    );
+  });
+
+  it("api-client — 스펙 auth(bearer) 기본, auth 옵션으로 호출별 전환", async () => {
+    // given
+    register(
+      "partnerKey",
+      apiKeyAuth({ in: "header", name: "x-api-key", value: "key-1" })
+    );
+    const { client, sent } = capturingClient();
+    const api = createApiClient({ baseURL: BASE_URL, http: client });
+
+    // when
+    await api.call("POST_/api/v1/menu/select", payload, {
+      auth: "partnerKey",
+    });
+    await api.call("POST_/api/v1/menu/select", payload);
+
+    // then
+    expect(headerOf(sent[0], "x-api-key")).toBe("key-1");
+    expect(headerOf(sent[0], "Authorization")).toBeUndefined();
+    expect(headerOf(sent[1], "Authorization")).toBe("Bearer bearer-token");
+  });
+
+  it("MockAdapter — GET 쿼리 전략이 인터셉터를 거쳐 어댑터까지 전달", async () => {
+    // given
+    register(
+      "partnerQuery",
+      apiKeyAuth({ in: "query", name: "api_key", value: "key-2" })
+    );
+    const mock = new MockAdapter();
+    mock.on({ method: "GET", url: MENU_SELECT }).reply(200, {});
+    const client = axios.create({ baseURL: BASE_URL });
+    mock.install(client);
+    setupAuthHeader(client, "bearer-token");
+
+    // when
+    await client.get(MENU_SELECT, {
+      params: { page: 1 },
+      headers: { "x-auth-strategy": "partnerQuery" },
+    });
+
+    // then
+    expect(mock.history).toMatchObject([
+      { method: "GET", params: { page: 1, api_key: "key-2" } },
+    ]);
+    expect(mock.history[0].headers).not.toHaveProperty("x-auth-strategy");
+    expect(mock.history[0].headers).not.toHaveProperty("Authorization");
+  });
+
+  it("등록되지 않은 전략 — 에러", async () => {
+    // given
+    const { client } = capturingClient();
+
+    // when & then
+    await expect(
+      client.get(MENU_SELECT, { headers: { "x-auth-strategy": "unknown" } })
+    ).rejects.toThrow("등록되지 않은 인증 전략입니다: unknown");
+  });
+});
@@ -0,0 +1,311 @@
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import axios, { AxiosError, type AxiosAdapter } from "axios";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+
+import { setupAuthHeader } from "../utils/axios-bearer-auth";
+import {
+  Cassette,
+  useCassette,
+  type CassetteFile,
+  type CassetteOptions,
+} from "../utils/cassette";
+import { FakeClock } from "../utils/clock";
+import { MockAdapter } from "../utils/mock-adapter";
+import { MockApiServer } from "../utils/mock-server";
+import { setupRequestRecorder } from "../utils/request-recorder";
+import { buildSpecSchemas } from "../utils/spec-schema";
+
+const MENU_SELECT = "/api/v1/menu/select";
+const selectPayload = {
+  menuId: "menu_001",
+  quantity: 1,
+  shopId: "shop_001",
+  memberNo: "member_123",
+};
+
+const server = new MockApiServer({ now: new FakeClock("2025-01-01").now });
+let baseURL: string;
+let dir: string;
+
+beforeAll(async () => {
+  baseURL = await server.start();
+});
+
+afterAll(async () => {
+  await server.stop();
+});
+
+beforeEach(() => {
+  server.reset();
+  dir = mkdtempSync(join(tmpdir(), "cassette-"));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+  vi.unstubAllEnvs();
+});
+
+/** 호출되면 실패하는 어댑터 — 재생이 네트워크를 쓰지 않음을 보장 */
+const offline: AxiosAdapter = async (config) => {
+  throw new AxiosError("오프라인", "ENETUNREACH", config);
+};
+
+const client = (name: string, options: CassetteOptions) => {
+  const http = axios.create({ baseURL });
+  setupAuthHeader(http, "mock-server-token");
+  const cassette = new Cassette(name, { dir, ...options });
+  cassette.install(http);
+  return { http, cassette };
+};
+
+const readCassette = (name: string) =>
+  JSON.parse(readFileSync(join(dir, `${name}.json`), "utf8")) as CassetteFile;
+
+/** 목 서버로 성공 1건 + MENU_NOT_FOUND 1건 녹화 */
+const recordMenuSelect = async (name: string) => {
+  const { http } = client(name, {
+    record: "all",
+    now: new FakeClock("2025-01-01T00:00:00Z").now,
+  });
+  await http.post(MENU_SELECT, selectPayload);
+  await http
+    .post(MENU_SELECT, { ...selectPayload, menuId: "menu_999" })
+    .catch(() => {});
+};
+
+describe("cassette", () => {
+  it("record: all — 요청/응답 쌍을 JSON 으로 저장, 민감 헤더는 마스킹", async () => {
+    // given
+    const { http } = client("menu-select", {
+      record: "all",
+      now: new FakeClock("2025-01-01T00:00:00Z").now,
+    });
+
+    // when
+    const res = await http.post(`${MENU_SELECT}?source=app`, selectPayload);
+    const notFound = await http
+      .post(MENU_SELECT, { ...selectPayload, menuId: "menu_999" })
+      .catch((e) => e);
+
+    // then
+    expect(notFound.response.status).toBe(404);
+    const file = readCassette("menu-select");
+    expect(file.name).toBe("menu-select");
+    expect(file.interactions).toMatchObject([
+      {
+        recordedAt: "2025-01-01T00:00:00.000Z",
+        request: {
+          method: "POST",
+          url: `${MENU_SELECT}?source=app`,
+          headers: { Authorization: "***REDACTED***" },
+          body: selectPayload,
+        },
+        response: { status: 200, statusText: "OK", body: res.data },
+      },
+      {
+        request: { body: { menuId: "menu_999" } },
+        response: {
+          status: 404,
+          statusText: "Not Found",
+          body: { errorCode: "MENU_NOT_FOUND" },
+        },
+      },
+    ]);
+    expect(JSON.stringify(file)).not.toContain("mock-server-token");
+    // 홉 간·실행마다 바뀌는 헤더는 남기지 않음 (재녹화 diff 최소화)
+    expect(Object.keys(file.interactions[0].response.headers)).toEqual([
+      "content-type",
+    ]);
+  });
+
+  it("Set-Cookie 등 응답 헤더도 로거와 같은 규칙으로 마스킹", async () => {
+    // given
+    const mock = new MockAdapter();
+    mock
+      .on(MENU_SELECT)
+      .reply(200, { ok: true }, { "Set-Cookie": "SESSION=secret" });
+    const { http } = client("cookie", { record: "all", inner: mock.adapter });
+
+    // when
+    await http.post(MENU_SELECT, selectPayload);
+
+    // then
+    const [interaction] = readCassette("cookie").interactions;
+    expect(interaction.response.headers).toMatchObject({
+      "Set-Cookie": "***REDACTED***",
+    });
+  });
+
+  it("apiKeyQuery — 쿼리의 API 키는 마스킹해 저장하고, 다른 키로도 재생", async () => {
+    // given
+    vi.stubEnv("API_KEY", "super-secret-key");
+    const mock = new MockAdapter();
+    mock.on(MENU_SELECT).reply(200, { ok: true });
+    const recording = client("api-key", { record: "all", inner: mock.adapter });
+    const apiKeyQuery = { headers: { "x-auth-strategy": "apiKeyQuery" } };
+
+    // when
+    await recording.http.post(MENU_SELECT, selectPayload, {
+      ...apiKeyQuery,
+      params: { page: 1 },
+    });
+    vi.stubEnv("API_KEY", "rotated-key");
+    const { http } = client("api-key", { record: "none", inner: offline });
+    const replayed = await http.post(MENU_SELECT, selectPayload, {
+      ...apiKeyQuery,
+      params: { page: 1 },
+    });
+
+    // then
+    const raw = readFileSync(join(dir, "api-key.json"), "utf8");
+    expect(raw).not.toContain("super-secret-key");
+    expect(readCassette("api-key").interactions[0].request.url).toBe(
+      `${MENU_SELECT}?page=1&api_key=***REDACTED***`
+    );
+    expect(replayed.data).toEqual({ ok: true });
+  });
+
+  it("record: none — 서버 없이 녹화 순서대로 재생, 4xx 는 같은 AxiosError", async () => {
+    // given
+    await recordMenuSelect("replay");
+    const { http, cassette } = client("replay", {
+      record: "none",
+      inner: offline,
+    });
+    const recorder = setupRequestRecorder(http);
+
+    // when
+    const res = await http.post(MENU_SELECT, selectPayload);
+    const notFound = await http
+      .post(MENU_SELECT, { ...selectPayload, menuId: "menu_999" })
+      .catch((e) => e);
+
+    // then
+    expect(res.status).toBe(200);
+    expect(
+      buildSpecSchemas("POST_/api/v1/menu/select").response.safeParse(res.data)
+        .success
+    ).toBe(true);
+    expect(notFound).toBeInstanceOf(AxiosError);
+    expect(notFound).toMatchObject({
+      code: "ERR_BAD_REQUEST",
+      response: { status: 404, data: { errorCode: "MENU_NOT_FOUND" } },
+    });
+    expect(cassette.pending).toBe(0);
+    expect(recorder).toHaveSentRequest({
+      nth: 2,
+      route: "POST_/api/v1/menu/select",
+      status: 404,
+    });
+  });
+
+  it("strict — 본문·쿼리가 다르거나 기록을 다 쓰면 ERR_CASSETTE_UNMATCHED", async () => {
+    // given
+    await recordMenuSelect("strict");
+    const { http } = client("strict", { record: "none", inner: offline });
+    const other = { ...selectPayload, quantity: 2 };
+
+    // when
+    const changedBody = http.post(MENU_SELECT, other);
+    const changedQuery = http.post(`${MENU_SELECT}?dryRun=true`, selectPayload);
+    await http.post(MENU_SELECT, selectPayload);
+    const exhausted = http.post(MENU_SELECT, selectPayload);
+
+    // then
+    await expect(changedBody).rejects.toMatchObject({
+      code: "ERR_CASSETTE_UNMATCHED",
+      message: `카세트 strict 에 일치하는 기록이 없습니다 (VCR_RECORD=none): POST ${MENU_SELECT}`,
+    });
+    await expect(changedQuery).rejects.toMatchObject({
+      code: "ERR_CASSETTE_UNMATCHED",
+    });
+    await expect(exhausted).rejects.toMatchObject({
+      code: "ERR_CASSETTE_UNMATCHED",
+    });
+  });
+
+  it("lenient — method·경로만 비교, 다 쓰면 마지막 일치 기록 재사용", async () => {
+    // given
+    await recordMenuSelect("lenient");
+    const { http } = client("lenient", {
+      record: "none",
+      match: "lenient",
+      inner: offline,
+    });
+
+    // when
+    const first = await http.post(`${MENU_SELECT}?dryRun=true`, {
+      ...selectPayload,
+      quantity: 2,
+    });
+    const second = await http.post(MENU_SELECT, selectPayload).catch((e) => e);
+    const reused = await http.post(MENU_SELECT, selectPayload).catch((e) => e);
+
+    // then
+    expect(first.status).toBe(200);
+    expect(second.response.status).toBe(404);
+    expect(reused.response.status).toBe(404);
+    await expect(http.get("/api/v1/orders")).rejects.toMatchObject({
+      code: "ERR_CASSETTE_UNMATCHED",
+    });
+  });
+
+  it("record: new — 기록 있는 요청은 재생, 없는 요청만 실제 호출 후 추가", async () => {
+    // given
+    await recordMenuSelect("new");
+    const sent: string[] = [];
+    const inner = axios.getAdapter(axios.defaults.adapter);
+    const { http } = client("new", {
+      record: "new",
+      inner: async (config) => {
+        sent.push(JSON.parse(config.data).menuId);
+        return inner(config);
+      },
+    });
+
+    // when
+    await http.post(MENU_SELECT, selectPayload);
+    await http.post(MENU_SELECT, { ...selectPayload, menuId: "menu_002" });
+
+    // then
+    expect(sent).toEqual(["menu_002"]);
+    expect(
+      readCassette("new").interactions.map((i) => i.request.body)
+    ).toMatchObject([
+      { menuId: "menu_001" },
+      { menuId: "menu_999" },
+      { menuId: "menu_002" },
+    ]);
+  });
+
+  it("커밋된 카세트 — src/data/cassettes 를 기본 경로로 오프라인 재생", async () => {
+    // given — VCR_RECORD=new|all 이면 목 서버로 다시 녹화
+    const recording = (process.env.VCR_RECORD || "none") !== "none";
+    const http = axios.create({
+      baseURL: recording ? baseURL : "https://staging.example.com",
+    });
+    setupAuthHeader(http, "mock-server-token");
+    const { cassette } = useCassette(http, "menu-select");
+
+    // when
+    const res = await http.post(MENU_SELECT, selectPayload);
+
+    // then
+    expect(res.data).toMatchObject({
+      status: "SUCCESS",
+      data: { menuId: "menu_001", reservationId: expect.any(String) },
+    });
+    expect(cassette.pending).toBe(0);
+  });
+});
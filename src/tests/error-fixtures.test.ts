@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+
+import { assertErrorStatus, createErrorFactory } from "../utils/error-fixtures";
+import { MockAdapter } from "../utils/mock-adapter";
+import { mockError } from "../utils/mock-helpers";
+
+const SPEC_KEY = "POST_/api/v1/order/create" as const;
+
+describe("error-fixtures", () => {
+  it("errorCodes 기반 에러 본문 — 주입한 시계로 timestamp 생성", () => {
+    // given
+    let now = new Date("2025-08-07T12:30:00.123Z");
+    const errors = createErrorFactory(SPEC_KEY, { now: () => now });
+
+    // when
+    const first = errors.build("RESERVATION_EXPIRED");
+    now = new Date("2025-08-07T12:35:00.123Z");
+    const second = errors.build("RESERVATION_EXPIRED");
+
+    // then
+    expect(first).toEqual({
+      status: "ERROR",
+      message: "예약 만료 (5분 초과)",
+      errorCode: "RESERVATION_EXPIRED",
+      timestamp: "2025-08-07T12:30:00.123Z",
+    });
+    expect(second.timestamp).toBe("2025-08-07T12:35:00.123Z");
+    expect(errors.statusOf("RESERVATION_EXPIRED")).toBe(422);
+  });
+
+  it("선택 필드 — message 덮어쓰기, errorCode 생략, examples.failure 재구성", () => {
+    // given
+    const errors = createErrorFactory(SPEC_KEY, {
+      now: () => new Date("2025-08-07T12:35:00.123Z"),
+    });
+
+    // when & then
+    expect(
+      errors.build("INGREDIENTS_EXHAUSTED", { message: "재료 소진" })
+    ).toMatchObject({ message: "재료 소진" });
+    expect(
+      errors.build("INGREDIENTS_EXHAUSTED", { omitErrorCode: true })
+    ).not.toHaveProperty("errorCode");
+    expect(errors.example()).toEqual(
+      expect.objectContaining({
+        message: "예약 후 재료가 소진되었습니다",
+        errorCode: "INGREDIENTS_EXHAUSTED",
+        timestamp: "2025-08-07T12:35:00.123Z",
+      })
+    );
+  });
+
+  it("스펙에 없는 errorCode — 에러", () => {
+    // given
+    const errors = createErrorFactory(SPEC_KEY);
+
+    // when & then
+    expect(() => errors.build("MENU_NOT_FOUND")).toThrow(
+      "API 스펙(POST_/api/v1/order/create)에 MENU_NOT_FOUND 에러 정의가 필요합니다."
+    );
+  });
+
+  it("HttpStatus 와 errorCode 불일치 — mockError 가 거부", () => {
+    // given
+    const endpoint = new MockAdapter().on("POST_/api/v1/menu/select");
+    const body = createErrorFactory("POST_/api/v1/menu/select").build(
+      "INSUFFICIENT_INGREDIENTS"
+    );
+
+    // when & then
+    expect(() => mockError(endpoint, 404, body)).toThrow(
+      "INSUFFICIENT_INGREDIENTS는 HTTP 409로 정의되어 있어 404와 함께 쓸 수 없습니다."
+    );
+    expect(endpoint.pending).toBe(0);
+    expect(() =>
+      assertErrorStatus(SPEC_KEY, 409, { errorCode: "NOT_DECLARED" })
+    ).toThrow(`API 스펙(${SPEC_KEY})에 NOT_DECLARED 에러 정의가 필요합니다.`);
+  });
+
+  it("다른 엔드포인트의 errorCode · 미선언 상태 — 모킹한 엔드포인트 기준으로 거부", () => {
+    // given
+    const mock = new MockAdapter();
+    const menuSelect = mock.on("POST_/api/v1/menu/select");
+    const orderCreate = mock.on({
+      method: "POST",
+      url: "/api/v1/order/create",
+    });
+    const expired = createErrorFactory(SPEC_KEY).build("RESERVATION_EXPIRED");
+    const { errorCode: _, ...withoutCode } = expired;
+
+    // when & then
+    expect(() => mockError(menuSelect, 422, expired)).toThrow(
+      "API 스펙(POST_/api/v1/menu/select)에 RESERVATION_EXPIRED 에러 정의가 필요합니다."
+    );
+    expect(() => mockError(menuSelect, 422, withoutCode)).toThrow(
+      "API 스펙(POST_/api/v1/menu/select)에 HTTP 422 에러 정의가 필요합니다."
+    );
+    expect(() => mockError(mock.on(/select$/), 409, expired)).toThrow(
+      "mockError 는 스펙 ID(또는 method + 경로)로 등록한 핸들러에만 쓸 수 있습니다."
+    );
+    expect(menuSelect.pending).toBe(0);
+
+    expect(orderCreate.specKey).toBe(SPEC_KEY);
+    expect(() => mockError(orderCreate, 422, expired)).not.toThrow();
+    expect(() => mockError(orderCreate, 422, withoutCode)).not.toThrow();
+  });
+});
@@ -0,0 +1,244 @@
+import axios, { type AxiosInstance } from "axios";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+} from "vitest";
+
+import { setupAuthHeader } from "../utils/axios-bearer-auth";
+import {
+  createFaultAdapter,
+  FaultInjector,
+  type Fault,
+  type FaultRule,
+} from "../utils/fault-injection";
+import { IDEMPOTENCY_HEADER } from "../utils/idempotency";
+import {
+  HttpLogger,
+  setupAxiosLogger,
+  type LoggerTransport,
+} from "../utils/logger";
+import { MockApiServer } from "../utils/mock-server";
+import { setupRetry } from "../utils/retry";
+import { buildSpecSchemas } from "../utils/spec-schema";
+
+const MENU_SELECT = "/api/v1/menu/select";
+const selectPayload = {
+  menuId: "menu_001",
+  quantity: 1,
+  shopId: "shop_001",
+  memberNo: "member_123",
+};
+
+type Mode = "adapter" | "server";
+const MODES: Mode[] = ["adapter", "server"];
+
+const server = new MockApiServer();
+const faultyServers: MockApiServer[] = [];
+let baseURL: string;
+
+beforeAll(async () => {
+  baseURL = await server.start();
+});
+
+afterAll(async () => {
+  await server.stop();
+});
+
+beforeEach(() => {
+  server.reset();
+});
+
+afterEach(async () => {
+  await Promise.all(faultyServers.splice(0).map((s) => s.stop()));
+});
+
+/** adapter: 클라이언트 어댑터에서 주입 / server: 목 서버 미들웨어가 소켓에서 주입 */
+const faultyClient = async (
+  mode: Mode,
+  rules: FaultRule[],
+  injector = new FaultInjector(rules, { seed: 42 })
+): Promise<AxiosInstance> => {
+  let url = baseURL;
+  if (mode === "server") {
+    const faulty = new MockApiServer({ faults: injector });
+    faultyServers.push(faulty);
+    url = await faulty.start();
+  }
+  const http = axios.create({
+    baseURL: url,
+    ...(mode === "adapter" && { adapter: createFaultAdapter(injector) }),
+  });
+  setupAuthHeader(http, "mock-server-token");
+  return http;
+};
+
+const captureLogger = () => {
+  const lines: string[] = [];
+  const transport: LoggerTransport = {
+    info: (msg) => lines.push(msg),
+    error: (msg) => lines.push(msg),
+    debug: () => {},
+  };
+  const logger = new HttpLogger(transport, () => "DEBUG");
+  const entries = (type: string) =>
+    lines.map((line) => JSON.parse(line)).filter((e) => e.type === type);
+  return { logger, entries };
+};
+
+describe("fault-injection", () => {
+  describe.each(MODES)("%s", (mode) => {
+    it.each<{ name: string; fault: Fault; code: string; message: string }>([
+      {
+        name: "지연 > timeout",
+        fault: { type: "delay", ms: 500 },
+        code: "ECONNABORTED",
+        message: "timeout of 50ms exceeded",
+      },
+      {
+        name: "소켓 리셋",
+        fault: { type: "reset" },
+        code: "ECONNRESET",
+        message: "socket hang up",
+      },
+      {
+        name: "헤더 후 중단",
+        fault: { type: "abortAfterHeaders" },
+        code: "ERR_BAD_RESPONSE",
+        message: "stream has been aborted",
+      },
+    ])(
+      "$name — 실제 http 어댑터와 같은 에러가 로거까지 전달",
+      async ({ fault, code, message }) => {
+        // given
+        const http = await faultyClient(mode, [
+          { route: "POST_/api/v1/menu/select", fault },
+        ]);
+        const { logger, entries } = captureLogger();
+        setupAxiosLogger(http, logger);
+
+        // when
+        const sent = http.post(MENU_SELECT, selectPayload, { timeout: 50 });
+
+        // then
+        await expect(sent).rejects.toMatchObject({ code, message });
+        expect(entries("ERROR")).toMatchObject([
+          { code, message, request: "No response received" },
+        ]);
+      }
+    );
+
+    it("지연 < timeout — 늦게라도 정상 응답", async () => {
+      // given
+      const http = await faultyClient(mode, [
+        { route: MENU_SELECT, fault: { type: "delay", ms: 30 } },
+      ]);
+
+      // when
+      const res = await http.post(MENU_SELECT, selectPayload, {
+        timeout: 1_000,
+      });
+
+      // then
+      expect(res.status).toBe(200);
+    });
+
+    it("본문 잘림 — JSON 파싱 실패로 문자열이 되어 스키마 위반", async () => {
+      // given
+      const http = await faultyClient(mode, [
+        { route: MENU_SELECT, fault: { type: "truncate", bytes: 30 } },
+      ]);
+
+      // when
+      const res = await http.post(MENU_SELECT, selectPayload);
+
+      // then
+      expect(res.data).toBe('{"status":"SUCCESS","message":');
+      expect(
+        buildSpecSchemas("POST_/api/v1/menu/select").response.safeParse(
+          res.data
+        ).success
+      ).toBe(false);
+    });
+
+    it("잘못된 Content-Type / JSON 아닌 본문", async () => {
+      // given
+      const http = await faultyClient(mode, [
+        {
+          route: MENU_SELECT,
+          fault: { type: "contentType", value: "text/plain" },
+          times: 1,
+        },
+        { route: MENU_SELECT, fault: { type: "nonJson" } },
+      ]);
+
+      // when
+      const wrongType = await http.post(MENU_SELECT, selectPayload);
+      const html = await http.post(MENU_SELECT, selectPayload, {
+        headers: { [IDEMPOTENCY_HEADER]: "idem-fault-1" },
+      });
+
+      // then
+      expect(wrongType.headers["content-type"]).toBe("text/plain");
+      expect(wrongType.data.status).toBe("SUCCESS");
+      expect(html.headers["content-type"]).toMatch(/^text\/html/);
+      expect(html.data).toContain("502 Bad Gateway");
+    });
+
+    it("5xx 버스트 — 재시도 인터셉터가 버스트를 넘기면 성공", async () => {
+      // given
+      const http = await faultyClient(mode, [
+        {
+          route: MENU_SELECT,
+          fault: { type: "burst", status: 503, length: 2 },
+          times: 1,
+        },
+      ]);
+      const { logger, entries } = captureLogger();
+      setupRetry(http, { logger, sleep: async () => {} });
+
+      // when
+      const res = await http.post(MENU_SELECT, selectPayload, {
+        headers: { [IDEMPOTENCY_HEADER]: "idem-fault-2" },
+      });
+
+      // then
+      expect(res.status).toBe(200);
+      expect(entries("RETRY")).toMatchObject([
+        { attempt: "2/3", message: "HTTP 503" },
+        { attempt: "3/3", message: "HTTP 503" },
+      ]);
+    });
+  });
+
+  it("seed — 같은 seed 면 같은 확률적 장애 시퀀스, reset() 으로 재현", () => {
+    // given
+    const rules: FaultRule[] = [
+      {
+        route: "POST_/api/v1/menu/select",
+        fault: { type: "burst", length: 3 },
+        probability: 0.2,
+      },
+    ];
+    const run = (injector: FaultInjector) =>
+      Array.from({ length: 40 }, () =>
+        injector.pick("POST", MENU_SELECT) ? "5xx" : "ok"
+      ).join(" ");
+    const injector = new FaultInjector(rules, { seed: 7 });
+
+    // when
+    const first = run(injector);
+    injector.reset();
+
+    // then
+    expect(run(injector)).toBe(first);
+    expect(run(new FaultInjector(rules, { seed: 7 }))).toBe(first);
+    expect(run(new FaultInjector(rules, { seed: 8 }))).not.toBe(first);
+    expect(first).toMatch(/5xx 5xx 5xx/);
+    expect(injector.pick("GET", MENU_SELECT)).toBeUndefined();
+  });
+});
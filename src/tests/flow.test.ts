@@ -0,0 +1,137 @@
+import axios from "axios";
+import { fileURLToPath } from "node:url";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+
+import { createApiClient } from "../utils/api-client";
+import { setupAuthHeader } from "../utils/axios-bearer-auth";
+import { flow, jsonPath, loadFlow, parseFlow, runFlow } from "../utils/flow";
+import { HttpLogger, type LoggerTransport } from "../utils/logger";
+import { MockApiServer } from "../utils/mock-server";
+
+const LIFECYCLE = fileURLToPath(
+  new URL("../data/flows/order-lifecycle.yaml", import.meta.url)
+);
+
+const server = new MockApiServer({
+  now: () => new Date("2025-08-07T12:30:00.123Z"),
+});
+let client: ReturnType<typeof createApiClient>;
+
+beforeAll(async () => {
+  const baseURL = await server.start();
+  const http = axios.create();
+  setupAuthHeader(http, "mock-server-token");
+  client = createApiClient({
+    baseURL,
+    http,
+  });
+});
+
+afterAll(async () => {
+  await server.stop();
+});
+
+beforeEach(() => {
+  server.reset();
+});
+
+const captureLogger = () => {
+  const lines: string[] = [];
+  const transport: LoggerTransport = {
+    info: () => {},
+    error: () => {},
+    debug: (msg) => lines.push(msg),
+  };
+  return { lines, logger: new HttpLogger(transport, () => "DEBUG") };
+};
+
+describe("flow", () => {
+  it("YAML 정의 — select → create → 중복 주문(409), 단계 간 값 전달", async () => {
+    // given
+    const definition = loadFlow(LIFECYCLE);
+
+    // when
+    const result = await runFlow(definition, { client });
+
+    // then
+    expect(result.steps.map((s) => s.status)).toEqual([200, 200, 409]);
+    expect(result.vars).toMatchObject({
+      memberNo: "member_123",
+      reservationId: expect.stringMatching(/^RSV_/),
+      orderNo: expect.stringMatching(/^[A-Z0-9]{8}$/),
+    });
+    expect(result.steps[1].data.data.orderNo).toBe(result.vars.orderNo);
+  });
+
+  it("TS 빌더 — 함수 본문·사용자 조건, 단계별 HttpLogger 로그", async () => {
+    // given
+    const { lines, logger } = captureLogger();
+    const lifecycle = flow("빌더 라이프사이클", { memberNo: "member_123" })
+      .step("POST_/api/v1/menu/select", {
+        body: ({ memberNo }) => ({
+          menuId: "menu_001",
+          quantity: 1,
+          shopId: "shop_001",
+          memberNo,
+        }),
+        expect: { that: [(res) => res.data.data.quantity === 1] },
+        extract: { reservationId: "$.data.reservationId" },
+      })
+      .step("POST_/api/v1/order/create", {
+        body: { reservationId: "{{reservationId}}", memberNo: "{{memberNo}}" },
+        extract: { orderNo: "$.data.orderNo" },
+      });
+
+    // when
+    const result = await lifecycle.run({ client, logger });
+
+    // then
+    expect(result.vars.orderNo).toBeDefined();
+    const steps = lines
+      .map((line) => JSON.parse(line))
+      .filter((entry) => entry.type === "STEP");
+    expect(steps).toMatchObject([
+      {
+        flow: "빌더 라이프사이클",
+        step: "1. POST_/api/v1/menu/select",
+        status: 200,
+        extracted: { reservationId: result.vars.reservationId },
+      },
+      {
+        step: "2. POST_/api/v1/order/create",
+        extracted: { orderNo: result.vars.orderNo },
+      },
+    ]);
+  });
+
+  it("기대값 불일치 — 플로우/단계명을 담은 에러", async () => {
+    // given
+    const definition = parseFlow(`
+name: 잘못된 기대값
+steps:
+  - name: 메뉴 예약
+    spec: POST_/api/v1/menu/select
+    body: { menuId: menu_001, quantity: 2, shopId: shop_001, memberNo: member_123 }
+    expect:
+      equals:
+        $.data.quantity: 3
+`);
+
+    // when & then
+    await expect(runFlow(definition, { client })).rejects.toThrow(
+      '플로우 "잘못된 기대값" 1단계(메뉴 예약) 실패: $.data.quantity 기대 3, 실제 2'
+    );
+  });
+
+  it("JSONPath — 점/인덱스/따옴표 표기", () => {
+    // given
+    const data = { data: { items: [{ "order-no": "R7X9K2M8" }] } };
+
+    // when & then
+    expect(jsonPath(data, "$.data.items[0]['order-no']")).toBe("R7X9K2M8");
+    expect(jsonPath(data, "$.data.missing.value")).toBeUndefined();
+    expect(() => jsonPath(data, "$..items")).toThrow(
+      "지원하지 않는 JSONPath 입니다"
+    );
+  });
+});
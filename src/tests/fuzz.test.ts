@@ -0,0 +1,174 @@
+import axios from "axios";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+
+import { createApiClient } from "../utils/api-client";
+import { getRequestBodySchema, getSpec } from "../utils/api-spec";
+import { setupAuthHeader } from "../utils/axios-bearer-auth";
+import {
+  arbitraryFromSchema,
+  assertSpecResponse,
+  fuzz,
+  FuzzFailure,
+  specInvariant,
+} from "../utils/fuzz";
+import { seededRandom } from "../utils/fault-injection";
+import { MockAdapter } from "../utils/mock-adapter";
+import { MockApiServer } from "../utils/mock-server";
+
+const MENU_SELECT = "POST_/api/v1/menu/select" as const;
+const ORDER_CREATE = "POST_/api/v1/order/create" as const;
+
+// 입력 수가 많아도 429 가 섞이지 않도록 rate limit 해제
+const server = new MockApiServer({
+  rateLimit: { limit: Number.MAX_SAFE_INTEGER, windowMs: 60_000 },
+});
+let baseURL: string;
+
+beforeAll(async () => {
+  baseURL = await server.start();
+});
+
+afterAll(async () => {
+  await server.stop();
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  server.reset();
+});
+
+const serverClient = () => {
+  const http = axios.create({ baseURL });
+  setupAuthHeader(http, "mock-server-token");
+  return createApiClient({ baseURL: "", http });
+};
+
+/** 비ASCII menuId 에 선언되지 않은 500 을 내는 버그 있는 서버 */
+const buggyClient = () => {
+  const http = axios.create({ baseURL: "http://api.test" });
+  const mock = new MockAdapter();
+  mock.install(http);
+  mock
+    .on({
+      url: "/api/v1/menu/select",
+      body: (body: any) => /[^\x20-\x7e]/.test(String(body.menuId)),
+    })
+    .reply(500, { status: "ERROR", message: "boom", errorCode: "INTERNAL" });
+  mock
+    .on("/api/v1/menu/select")
+    .reply(200, getSpec(MENU_SELECT).responseBodySchema.examples.success);
+  return createApiClient({ baseURL: "", http });
+};
+
+describe("fuzz", () => {
+  it("생성기 — 같은 seed 면 같은 입력, 유니코드·거대 문자열·숫자 경계값 포함", () => {
+    // given
+    const arb = arbitraryFromSchema(getRequestBodySchema(MENU_SELECT));
+    const sample = (seed: number) => {
+      const random = seededRandom(seed);
+      return Array.from({ length: 300 }, () => arb.generate(random));
+    };
+
+    // when
+    const inputs = sample(7);
+
+    // then
+    expect(sample(7)).toEqual(inputs);
+    const menuIds = inputs
+      .map((p) => p.menuId)
+      .filter((v): v is string => typeof v === "string");
+    const quantities = inputs.map((p) => p.quantity);
+    expect(menuIds.some((v) => /[^\x00-\x7f]/.test(v))).toBe(true);
+    expect(menuIds.some((v) => v.length >= 10_000)).toBe(true);
+    expect(menuIds).toContain("");
+    expect(quantities).toEqual(
+      expect.arrayContaining([0, 1, 99, 100, Number.MAX_SAFE_INTEGER])
+    );
+    expect(quantities.some((q) => typeof q === "number" && q % 1 !== 0)).toBe(
+      true
+    );
+    expect(inputs.some((p) => !("menuId" in p))).toBe(true);
+    expect(inputs.some((p) => "unexpectedField" in p)).toBe(true);
+  });
+
+  it.each([
+    { key: MENU_SELECT, gate: "PRE 게이트", skipValidation: false },
+    { key: MENU_SELECT, gate: "서버 검증", skipValidation: true },
+    { key: ORDER_CREATE, gate: "PRE 게이트", skipValidation: false },
+    { key: ORDER_CREATE, gate: "서버 검증", skipValidation: true },
+  ])(
+    "$key ($gate) — 차단되거나 스펙 성공/선언된 errorCodes 로만 응답",
+    async ({ key, skipValidation }) => {
+      // given
+      const arb = arbitraryFromSchema(getRequestBodySchema(key));
+      const property = specInvariant(key, serverClient(), { skipValidation });
+
+      // when
+      const result = await fuzz(arb, property);
+
+      // then
+      expect(result.runs).toBeGreaterThan(0);
+    }
+  );
+
+  it("축소 — 실패 입력을 최소 반례로 줄이고 seed 로 재현", async () => {
+    // given
+    const arb = arbitraryFromSchema(getRequestBodySchema(MENU_SELECT));
+    const property = specInvariant(MENU_SELECT, buggyClient());
+
+    // when
+    const failure = await fuzz(arb, property, { seed: 1234, runs: 200 }).catch(
+      (e) => e
+    );
+    vi.stubEnv("FUZZ_SEED", "1234");
+    const replay = await fuzz(arb, property, { runs: 200 }).catch((e) => e);
+
+    // then
+    expect(failure).toBeInstanceOf(FuzzFailure);
+    expect(failure.message).toContain("FUZZ_SEED=1234");
+    expect(failure.message).toContain(
+      `${MENU_SELECT} 에 선언되지 않은 응답입니다: HTTP 500 "INTERNAL"`
+    );
+    expect(failure.shrinks).toBeGreaterThan(0);
+    expect([...failure.counterexample.menuId]).toHaveLength(1);
+    expect(replay).toMatchObject({
+      seed: 1234,
+      run: failure.run,
+      counterexample: failure.counterexample,
+    });
+  });
+
+  it("assertSpecResponse — 선언되지 않은 상태/봉투는 거절", () => {
+    // given
+    const { examples } = getSpec(MENU_SELECT).responseBodySchema;
+    const error = {
+      status: "ERROR",
+      message: "메뉴 없음",
+      errorCode: "MENU_NOT_FOUND",
+      timestamp: "2025-01-01T00:00:00.000Z",
+    };
+
+    // when / then
+    expect(() =>
+      assertSpecResponse(MENU_SELECT, 200, examples.success)
+    ).not.toThrow();
+    expect(() => assertSpecResponse(MENU_SELECT, 404, error)).not.toThrow();
+    expect(() => assertSpecResponse(MENU_SELECT, 409, error)).toThrow(
+      "선언되지 않은 응답"
+    );
+    expect(() =>
+      assertSpecResponse(MENU_SELECT, 404, { ...error, status: "FAIL" })
+    ).toThrow("에러 응답 봉투가 표준과 다릅니다");
+    expect(() =>
+      assertSpecResponse(MENU_SELECT, 200, { status: "SUCCESS" })
+    ).toThrow("responseBodySchema 와 다릅니다");
+  });
+});
@@ -0,0 +1,129 @@
+import axios, { type AxiosInstance } from "axios";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+
+import { createApiClient } from "../utils/api-client";
+import type { SpecKey } from "../utils/api-spec";
+import { setupAuthHeader } from "../utils/axios-bearer-auth";
+import {
+  assertIdempotentReplay,
+  hashBody,
+  idempotencyCases,
+  IDEMPOTENCY_HEADER,
+  setupIdempotencyKeys,
+  verifyIdempotency,
+} from "../utils/idempotency";
+import { MockApiServer } from "../utils/mock-server";
+
+const MENU_SELECT = "/api/v1/menu/select";
+const selectPayload = {
+  menuId: "menu_001",
+  quantity: 2,
+  shopId: "shop_001",
+  memberNo: "member_123",
+};
+
+const server = new MockApiServer({
+  now: () => new Date("2025-08-07T12:30:00.123Z"),
+});
+let baseURL: string;
+let client: AxiosInstance;
+
+beforeAll(async () => {
+  baseURL = await server.start();
+});
+
+afterAll(async () => {
+  await server.stop();
+});
+
+beforeEach(() => {
+  server.reset();
+  client = axios.create({ baseURL });
+  setupAuthHeader(client, "mock-server-token");
+});
+
+/** 예시 본문이 서버 상태에 의존하는 엔트리 (예: 유효한 예약 ID 필요) */
+const prepare: Partial<
+  Record<SpecKey, (body: Record<string, unknown>) => Promise<object>>
+> = {
+  "POST_/api/v1/order/create": async (body) => {
+    const res = await client.post(MENU_SELECT, selectPayload);
+    return { ...body, reservationId: res.data.data.reservationId };
+  },
+};
+
+describe("idempotency", () => {
+  it.each(idempotencyCases())(
+    "$name — 동일키/동일바디 재생, 동일키/다른바디 409 부수효과 없음",
+    async ({ specKey, body, conflictOf }) => {
+      // given
+      const api = createApiClient({
+        baseURL,
+        http: client,
+      });
+      const ready = ((await prepare[specKey]?.(body)) ?? body) as Record<
+        string,
+        unknown
+      >;
+
+      // when & then
+      const { first } = await verifyIdempotency({
+        specKey,
+        send: (payload, headers) => api.callRaw(specKey, payload, { headers }),
+        body: ready,
+        conflictBody: conflictOf(ready),
+        sideEffects: () => structuredClone([...server.reservations.values()]),
+      });
+      expect(first.status).toBe(200);
+    }
+  );
+
+  it("자동 키 — 변경 요청마다 새 키, 키→(본문 해시, 응답) 기억", async () => {
+    // given
+    let seq = 0;
+    const store = setupIdempotencyKeys(client, {
+      generate: () => `idem-${++seq}`,
+    });
+
+    // when
+    const res1 = await client.post(MENU_SELECT, selectPayload);
+    const res2 = await client.post(MENU_SELECT, selectPayload);
+
+    // then
+    expect(res1.config.headers[IDEMPOTENCY_HEADER]).toBe("idem-1");
+    expect(res2.config.headers[IDEMPOTENCY_HEADER]).toBe("idem-2");
+    expect(res1.data.data.reservationId).not.toBe(res2.data.data.reservationId);
+    expect(store.size).toBe(2);
+    expect(store.get("idem-1")).toEqual({
+      bodyHash: hashBody(selectPayload),
+      status: 200,
+      data: res1.data,
+    });
+  });
+
+  it("자동 키 — 호출자가 지정한 키는 유지", async () => {
+    // given
+    setupIdempotencyKeys(client);
+
+    // when
+    const res = await client.post(MENU_SELECT, selectPayload, {
+      headers: { [IDEMPOTENCY_HEADER]: "idempotency-key-12345" },
+    });
+
+    // then
+    expect(res.config.headers[IDEMPOTENCY_HEADER]).toBe(
+      "idempotency-key-12345"
+    );
+  });
+
+  it("재생 응답 불일치 — 에러", () => {
+    // given
+    const first = { status: 200, data: { reservationId: "RSV_A7K9M2X8" } };
+    const replay = { status: 200, data: { reservationId: "RSV_DIFFERENT" } };
+
+    // when & then
+    expect(() => assertIdempotentReplay(first, replay)).toThrow(
+      "동일 키·동일 본문 재요청 응답이 첫 응답과 다릅니다"
+    );
+  });
+});
@@ -0,0 +1,162 @@
+import {
+  existsSync,
+  mkdtempSync,
+  readdirSync,
+  readFileSync,
+  rmSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import axios from "axios";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  ArtifactTransport,
+  HttpLogger,
+  JsonLinesTransport,
+  MultiTransport,
+  RotatingFileTransport,
+  setupAxiosLogger,
+  transportFromEnv,
+  type LoggerTransport,
+} from "../utils/logger";
+import { MockAdapter } from "../utils/mock-adapter";
+
+const MENU_SELECT = "/api/v1/menu/select";
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "logger-"));
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+  vi.restoreAllMocks();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const captureTransport = () => {
+  const lines: string[] = [];
+  const transport: LoggerTransport = {
+    info: (msg) => lines.push(msg),
+    error: (msg) => lines.push(msg),
+    debug: (msg) => lines.push(msg),
+  };
+  return { transport, lines };
+};
+
+/** MockAdapter 로 요청 1건(성공)을 보내 REQUEST/RESPONSE 로그 생성 */
+const exchange = async (transport: LoggerTransport) => {
+  const http = axios.create({ baseURL: "http://api.test" });
+  const mock = new MockAdapter();
+  mock.install(http);
+  mock.on(MENU_SELECT).reply(200, { status: "SUCCESS" });
+  setupAxiosLogger(http, new HttpLogger(transport, () => "DEBUG"));
+  await http.post(MENU_SELECT, { menuId: "menu_001" });
+};
+
+describe("logger-transports", () => {
+  it("JSON Lines — 들여쓰기 JSON 을 이벤트당 한 줄로, JSON 아닌 메시지는 감싼다", async () => {
+    // given
+    const { transport, lines } = captureTransport();
+    const jsonl = new JsonLinesTransport(transport);
+
+    // when
+    await exchange(jsonl);
+    jsonl.error("plain text");
+
+    // then
+    expect(lines).toHaveLength(3);
+    expect(lines.every((line) => !line.includes("\n"))).toBe(true);
+    expect(lines.map((line) => JSON.parse(line))).toMatchObject([
+      { type: "REQUEST", method: "POST", url_short: MENU_SELECT },
+      { type: "RESPONSE", status: "200 OK", data: { status: "SUCCESS" } },
+      { level: "ERROR", message: "plain text" },
+    ]);
+  });
+
+  it("파일 회전 — maxBytes 를 넘기면 <path>.1 … 로 밀고 maxFiles 개만 보관", () => {
+    // given
+    const path = join(dir, "logs", "http.log");
+    const file = new RotatingFileTransport(path, { maxBytes: 20, maxFiles: 2 });
+
+    // when
+    for (const n of [1, 2, 3, 4]) file.info(`event-${n}-0123456789`);
+
+    // then
+    expect(readFileSync(path, "utf8")).toBe("event-4-0123456789\n");
+    expect(readFileSync(`${path}.1`, "utf8")).toBe("event-3-0123456789\n");
+    expect(readFileSync(`${path}.2`, "utf8")).toBe("event-2-0123456789\n");
+    expect(existsSync(`${path}.3`)).toBe(false);
+  });
+
+  it("테스트별 아티팩트 — flush 한 테스트만 <파일>/<테스트>.log 로 남김", async () => {
+    // given
+    const artifacts = new ArtifactTransport(dir);
+    const passed = artifacts.begin("src/tests/menu-select.test.ts", "통과");
+    await exchange(artifacts);
+    const failed = artifacts.begin(
+      "src/tests/menu-select.test.ts",
+      "menu-select > 404 / 실패"
+    );
+    await exchange(artifacts);
+
+    // when
+    const path = artifacts.flush(failed);
+
+    // then
+    expect(passed.lines).toHaveLength(2);
+    expect(path).toBe(
+      join(dir, "menu-select.test.ts", "menu-select _ 404 _ 실패.log")
+    );
+    expect(readdirSync(join(dir, "menu-select.test.ts"))).toEqual([
+      "menu-select _ 404 _ 실패.log",
+    ]);
+    expect(readFileSync(path!, "utf8")).toContain('"type": "RESPONSE"');
+    expect(artifacts.flush(artifacts.begin("x.test.ts", "로그 없음"))).toBe(
+      undefined
+    );
+  });
+
+  it("env 구성 — LOG_TRANSPORTS=console,file + LOG_FORMAT=jsonl", async () => {
+    // given
+    const path = join(dir, "http.log");
+    vi.stubEnv("LOG_TRANSPORTS", "console,file");
+    vi.stubEnv("LOG_FORMAT", "jsonl");
+    vi.stubEnv("LOG_FILE", path);
+    const log = vi.spyOn(console, "log").mockImplementation(() => {});
+
+    // when
+    const transport = transportFromEnv();
+    await exchange(transport);
+
+    // then
+    expect(transport).toBeInstanceOf(JsonLinesTransport);
+    const written = readFileSync(path, "utf8").trimEnd().split("\n");
+    expect(written.map((line) => JSON.parse(line).type)).toEqual([
+      "REQUEST",
+      "RESPONSE",
+    ]);
+    expect(log).toHaveBeenCalledTimes(2);
+    expect(() => {
+      vi.stubEnv("LOG_TRANSPORTS", "console,syslog");
+      transportFromEnv();
+    }).toThrow(
+      "LOG_TRANSPORTS는 console|file|artifacts 조합이어야 합니다: syslog"
+    );
+  });
+
+  it("MultiTransport — 모든 transport 로 같은 메시지 전달", () => {
+    // given
+    const a = captureTransport();
+    const b = captureTransport();
+
+    // when
+    new MultiTransport([a.transport, b.transport]).debug("hello");
+
+    // then
+    expect(a.lines).toEqual(["hello"]);
+    expect(b.lines).toEqual(["hello"]);
+  });
+});
@@ -1,20 +1,34 @@
 import "dotenv/config";
 import axios from "axios";
-import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
-import { z } from "zod";
+import { beforeAll, beforeEach, describe, expect, it } from "vitest";
 
 import apiSpec from "../data/api-spec.json";
+import { createApiClient } from "../utils/api-client";
+import { hasPrincipal } from "../utils/axios-bearer-auth";
+import { createErrorFactory } from "../utils/error-fixtures";
 import {
+  installMockAdapter,
   mockSuccess,
   mockError,
   mockNetworkError,
 } from "../utils/mock-helpers";
-
-const spec = apiSpec["POST_/api/v1/menu/select"];
+import { boundaryCases, negativeCases } from "../utils/request-cases";
+import { setupRequestRecorder } from "../utils/request-recorder";
+import { buildSpecSchemas } from "../utils/spec-schema";
+import { validateSpecRequest } from "../utils/spec-validator";
+import { isLiveTarget } from "../utils/test-target";
+import { assertDuration } from "../utils/time-rules";
+
+const SPEC_KEY = "POST_/api/v1/menu/select" as const;
+const spec = apiSpec[SPEC_KEY];
 const baseURL = process.env.API_URL;
 
-vi.mock("axios");
-const mockedAxios = vi.mocked(axios, true);
+// TEST_TARGET=live 면 어댑터를 설치하지 않아 실제 HTTP 로 API_URL 을 호출한다
+const mock = installMockAdapter(axios);
+const endpoint = mock.on(SPEC_KEY);
+// 부트스트랩의 인증/로거 인터셉터보다 먼저 설치 → 주입된 헤더까지 기록
+const recorder = setupRequestRecorder(axios);
+const client = createApiClient();
 
 beforeAll(() => {
   if (!spec) {
@@ -27,134 +41,50 @@ beforeAll(() => {
 });
 
 beforeEach(() => {
-  vi.clearAllMocks();
+  mock.reset();
+  recorder.clear();
 });
 
 const ROUTE = `${baseURL!}${spec.restfulUrl}`;
 
-const successResponseSchema = z.object({
-  status: z.literal("SUCCESS"),
-  message: z.string(),
-  timestamp: z.string().refine((val) => !isNaN(Date.parse(val)), {
-    message: "timestamp는 유효한 ISO 8601 형식이어야 합니다",
-  }),
-  data: z.object({
-    reservationId: z.string(),
-    reservationExpiresAt: z.string().refine((val) => !isNaN(Date.parse(val)), {
-      message: "reservationExpiresAt는 유효한 ISO 8601 형식이어야 합니다",
-    }),
-    menuId: z.string(),
-    quantity: z.number().int().min(1).max(99),
-  }),
-});
+const { response: responseSchema } = buildSpecSchemas(SPEC_KEY);
 
-const buildErrorResponseFromCode = (errorCode: string) => {
-  const errorDef = spec.errorCodes.find((e) => e.ErrorCode === errorCode);
-  if (!errorDef) {
-    throw new Error(`API 스펙에 ${errorCode} 에러 정의가 필요합니다.`);
-  }
+// 에러 응답 고정값: 스펙 errorCodes 기반 + 고정 시계
+const errors = createErrorFactory(SPEC_KEY, {
+  now: () => new Date("2025-08-07T12:30:00.123Z"),
+});
 
-  return {
-    status: "ERROR" as const,
-    message: errorDef.Description,
-    errorCode: errorDef.ErrorCode,
-    timestamp: "2025-08-07T12:30:00.123Z",
-  };
-};
-
-const VALIDATION_ERRORS = {
-  MENU_ID_REQUIRED: "menuId는 필수값입니다",
-  QUANTITY_REQUIRED: "quantity는 필수값입니다",
-  QUANTITY_INVALID: "quantity는 1 이상 99 이하의 정수여야 합니다",
-  SHOP_ID_REQUIRED: "shopId는 필수값입니다",
-  MEMBER_NO_REQUIRED: "memberNo는 필수값입니다",
-} as const;
-
-const validateMenuSelectRequest = (payload: {
-  menuId?: string;
-  quantity?: number;
-  shopId?: string;
-  memberNo?: string;
-}): void => {
-  if (!payload.menuId) {
-    throw new Error(VALIDATION_ERRORS.MENU_ID_REQUIRED);
-  }
-  if (payload.quantity === undefined || payload.quantity === null) {
-    throw new Error(VALIDATION_ERRORS.QUANTITY_REQUIRED);
-  }
-  if (
-    !Number.isInteger(payload.quantity) ||
-    payload.quantity < 1 ||
-    payload.quantity > 99
-  ) {
-    throw new Error(VALIDATION_ERRORS.QUANTITY_INVALID);
-  }
-  if (!payload.shopId) {
-    throw new Error(VALIDATION_ERRORS.SHOP_ID_REQUIRED);
-  }
-  if (!payload.memberNo) {
-    throw new Error(VALIDATION_ERRORS.MEMBER_NO_REQUIRED);
-  }
-};
+// live 모드는 서버가 만든 본문(timestamp·message 가 다름) → status·errorCode 만 비교
+const expectedError = (body: { status: string; errorCode?: string }) =>
+  isLiveTarget() ? { status: body.status, errorCode: body.errorCode } : body;
 
 describe("POST /api/v1/menu/select", () => {
   describe("검증", () => {
-    it.each([
-      {
-        field: "menuId",
-        payload: {
-          quantity: 2,
-          shopId: "shop_001",
-          memberNo: "member_123",
-        },
-      },
-      {
-        field: "quantity",
-        payload: {
-          menuId: "menu_001",
-          shopId: "shop_001",
-          memberNo: "member_123",
-        },
-      },
-      {
-        field: "shopId",
-        payload: {
-          menuId: "menu_001",
-          quantity: 2,
-          memberNo: "member_123",
-        },
-      },
-      {
-        field: "memberNo",
-        payload: {
-          menuId: "menu_001",
-          quantity: 2,
-          shopId: "shop_001",
-        },
-      },
-    ])("MS | PRE | 검증 | 필수값($field) 누락 — 요청 차단", ({ payload }) => {
-      // when & then
-      expect(() => validateMenuSelectRequest(payload)).toThrow();
-      expect(mockedAxios.post).not.toHaveBeenCalled();
-    });
-
-    it.each([
-      { quantity: 0, description: "quantity = 0" },
-      { quantity: 100, description: "quantity = 100" },
-      { quantity: 2.5, description: "quantity = 2.5" },
-    ])("MS | PRE | 검증 | $description — 요청 차단", ({ quantity }) => {
-      // given
-      const payload = {
-        menuId: "menu_001",
-        quantity,
-        shopId: "shop_001",
-        memberNo: "member_123",
-      };
-
-      // when & then
-      expect(() => validateMenuSelectRequest(payload)).toThrow();
-      expect(mockedAxios.post).not.toHaveBeenCalled();
-    });
+    // requestBodySchema 에서 생성 → 스펙에 필드가 추가되면 케이스도 자동 추가
+    it.each(negativeCases(SPEC_KEY))(
+      "MS | PRE | 검증 | 스키마 위반($label) — 요청 차단",
+      ({ payload, pointer, keyword }) => {
+        // when
+        const violations = validateSpecRequest(SPEC_KEY, payload);
+
+        // then
+        expect(violations).toEqual([
+          { pointer, keyword, message: expect.any(String) },
+        ]);
+        expect(recorder.count).toBe(0);
+      }
+    );
+
+    it.each(boundaryCases(SPEC_KEY))(
+      "MS | PRE | 검증 | 경계값($label) — 통과",
+      ({ payload }) => {
+        // when
+        const violations = validateSpecRequest(SPEC_KEY, payload);
+
+        // then
+        expect(violations).toEqual([]);
+      }
+    );
   });
 
   describe("성공", () => {
@@ -177,28 +107,38 @@ describe("POST /api/v1/menu/select", () => {
           quantity: 2,
         },
       };
-      mockSuccess(mockedAxios.post, successResponse);
+      mockSuccess(endpoint, successResponse);
 
       // when
-      expect(() => validateMenuSelectRequest(payload)).not.toThrow();
-      const response = await axios.post(ROUTE, payload);
+      expect(validateSpecRequest(SPEC_KEY, payload)).toEqual([]);
+      const response = await client.call(SPEC_KEY, payload);
 
       // then
-      expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+      expect(recorder.count).toBe(1);
+      expect(recorder).toHaveSentRequest({
+        route: SPEC_KEY,
+        headers: {
+          Authorization: expect.stringMatching(/^Bearer .+/),
+          "Content-Type": "application/json;charset=UTF-8",
+        },
+      });
       expect(response.status).toBe(200);
-      expect(response.data).toEqual(successResponse);
-
-      const validatedData = successResponseSchema.parse(response.data);
-      expect(validatedData.data.reservationId).toBeTypeOf("string");
-      expect(validatedData.data.menuId).toBeTypeOf("string");
-      expect(validatedData.data.quantity).toBeTypeOf("number");
-      expect(Number.isInteger(validatedData.data.quantity)).toBe(true);
-
-      const timestamp = new Date(response.data.timestamp);
-      const expiresAt = new Date(response.data.data.reservationExpiresAt);
-      const diffMinutes =
-        (expiresAt.getTime() - timestamp.getTime()) / (1000 * 60);
-      expect(diffMinutes).toBeCloseTo(5, 1);
+      expect(response.data).toMatchObject({
+        status: "SUCCESS",
+        data: { menuId: payload.menuId, quantity: payload.quantity },
+      });
+
+      expect(() => responseSchema.parse(response.data)).not.toThrow();
+      expect(response.data.status).toBe("SUCCESS");
+      expect(response.data.data.reservationId).toBeTypeOf("string");
+      expect(response.data.data.menuId).toBeTypeOf("string");
+      expect(Number.isInteger(response.data.data.quantity)).toBe(true);
+
+      assertDuration(
+        ["timestamp", response.data.timestamp],
+        ["reservationExpiresAt", response.data.data.reservationExpiresAt],
+        { minutes: 5 }
+      );
     });
 
     it("MS | 200 | 성공 | 멱등 (동일키/동일바디) — 동일 reservationId 반환", async () => {
@@ -224,38 +164,29 @@ describe("POST /api/v1/menu/select", () => {
           quantity: 2,
         },
       };
-      mockSuccess(mockedAxios.post, successResponse, true);
+      mockSuccess(endpoint, successResponse, true);
 
       // when
-      const response1 = await axios.post(ROUTE, payload, { headers });
-      const response2 = await axios.post(ROUTE, payload, { headers });
+      const response1 = await client.call(SPEC_KEY, payload, { headers });
+      const response2 = await client.call(SPEC_KEY, payload, { headers });
 
       // then
-      expect(mockedAxios.post).toHaveBeenCalledTimes(2);
-      expect(mockedAxios.post).toHaveBeenNthCalledWith(
-        1,
-        ROUTE,
-        payload,
-        expect.objectContaining({
-          headers: expect.objectContaining({
-            "x-idempotency-key": idempotencyKey,
-          }),
-        })
-      );
-      expect(mockedAxios.post).toHaveBeenNthCalledWith(
-        2,
-        ROUTE,
-        payload,
-        expect.objectContaining({
-          headers: expect.objectContaining({
-            "x-idempotency-key": idempotencyKey,
-          }),
-        })
-      );
+      expect(recorder.count).toBe(2);
+      expect(recorder).toHaveSentRequest({
+        nth: 1,
+        route: SPEC_KEY,
+        data: payload,
+        headers: { "x-idempotency-key": idempotencyKey },
+      });
+      expect(recorder).toHaveSentRequest({
+        nth: 2,
+        route: SPEC_KEY,
+        data: payload,
+        headers: { "x-idempotency-key": idempotencyKey },
+      });
       expect(response1.data.data.reservationId).toBe(
         response2.data.data.reservationId
       );
-      expect(response1.data.data.reservationId).toBe("RSV_A7K9M2X8");
     });
 
     it("MS | 200 | 성공 | 멱등 (다른키/다른바디) — 다른 reservationId 반환", async () => {
@@ -294,41 +225,38 @@ describe("POST /api/v1/menu/select", () => {
           quantity: 2,
         },
       };
-      mockSuccess(mockedAxios.post, successResponse1);
-      mockSuccess(mockedAxios.post, successResponse2);
+      mockSuccess(endpoint, successResponse1);
+      mockSuccess(endpoint, successResponse2);
 
       // when
-      const response1 = await axios.post(ROUTE, payload, { headers: headers1 });
-      const response2 = await axios.post(ROUTE, payload, { headers: headers2 });
+      const response1 = await client.call(SPEC_KEY, payload, {
+        headers: headers1,
+      });
+      const response2 = await client.call(SPEC_KEY, payload, {
+        headers: headers2,
+      });
 
       // then
-      expect(mockedAxios.post).toHaveBeenCalledTimes(2);
-      expect(mockedAxios.post).toHaveBeenNthCalledWith(
-        1,
-        ROUTE,
-        payload,
-        expect.objectContaining({
-          headers: expect.objectContaining({
-            "x-idempotency-key": "idempotency-key-11111",
-          }),
-        })
-      );
-      expect(mockedAxios.post).toHaveBeenNthCalledWith(
-        2,
-        ROUTE,
-        payload,
-        expect.objectContaining({
-          headers: expect.objectContaining({
-            "x-idempotency-key": "idempotency-key-22222",
-          }),
-        })
-      );
+      expect(recorder.count).toBe(2);
+      expect(recorder).toHaveSentRequest({
+        nth: 1,
+        route: SPEC_KEY,
+        data: payload,
+        headers: { "x-idempotency-key": "idempotency-key-11111" },
+      });
+      expect(recorder).toHaveSentRequest({
+        nth: 2,
+        route: SPEC_KEY,
+        data: payload,
+        headers: { "x-idempotency-key": "idempotency-key-22222" },
+      });
       expect(response1.data.data.reservationId).not.toBe(
         response2.data.data.reservationId
       );
     });
   });
 
+  // 서버 상태로 재현할 수 없는 실패(만료 토큰·권한·재고·레이트리밋)는 fixture 전용 → live 에서 건너뜀
   describe("실패", () => {
     it("MS | 400 | 실패 | Content-Type 오류", async () => {
       // given
@@ -337,8 +265,8 @@ describe("POST /api/v1/menu/select", () => {
       const headers = {
         "Content-Type": "application/x-www-form-urlencoded",
       };
-      const errorResponse = buildErrorResponseFromCode("INVALID_REQUEST");
-      mockError(mockedAxios.post, 400, errorResponse);
+      const errorResponse = errors.build("INVALID_REQUEST");
+      mockError(endpoint, 400, errorResponse);
 
       // when & then
       await expect(
@@ -347,11 +275,33 @@ describe("POST /api/v1/menu/select", () => {
         })
       ).rejects.toMatchObject({
         isAxiosError: true,
-        response: { status: 400, data: errorResponse },
+        response: { status: 400, data: expectedError(errorResponse) },
       });
-      expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+      expect(recorder.count).toBe(1);
     });
 
+    it.each(negativeCases(SPEC_KEY))(
+      "MS | 400 | 실패 | 스키마 위반($label)",
+      async ({ payload }) => {
+        // given
+        const errorResponse = errors.build("INVALID_REQUEST");
+        mockError(endpoint, 400, errorResponse);
+
+        // when & then — PRE 게이트를 건너뛰고 대상 서버가 본문만으로 400 을 내는지 확인
+        await expect(
+          client.callRaw(SPEC_KEY, payload, { skipValidation: true })
+        ).rejects.toMatchObject({
+          isAxiosError: true,
+          response: { status: 400, data: expectedError(errorResponse) },
+        });
+        expect(recorder).toHaveSentRequest({
+          route: SPEC_KEY,
+          data: payload,
+          status: 400,
+        });
+      }
+    );
+
     it("MS | 401 | 실패 | 토큰 누락", async () => {
       // given
       const payload = {
@@ -360,23 +310,20 @@ describe("POST /api/v1/menu/select", () => {
         shopId: "shop_001",
         memberNo: "member_123",
       };
-      const headers = { "x-skip-auth": true };
-      const errorResponse = buildErrorResponseFromCode("UNAUTHORIZED");
-      mockError(mockedAxios.post, 401, errorResponse);
+      const errorResponse = errors.build("UNAUTHORIZED");
+      mockError(endpoint, 401, errorResponse);
 
       // when & then
       await expect(
-        axios.post(ROUTE, payload, {
-          headers,
-        })
+        client.call(SPEC_KEY, payload, { skipAuth: true })
       ).rejects.toMatchObject({
         isAxiosError: true,
-        response: { status: 401, data: errorResponse },
+        response: { status: 401, data: expectedError(errorResponse) },
       });
-      expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+      expect(recorder.count).toBe(1);
     });
 
-    it("MS | 401 | 실패 | 토큰 만료", async () => {
+    it.skipIf(isLiveTarget())("MS | 401 | 실패 | 토큰 만료", async () => {
       // given
       const payload = {
         menuId: "menu_001",
@@ -384,35 +331,46 @@ describe("POST /api/v1/menu/select", () => {
         shopId: "shop_001",
         memberNo: "member_123",
       };
-      const errorResponse = buildErrorResponseFromCode("UNAUTHORIZED");
-      mockError(mockedAxios.post, 401, errorResponse);
+      const errorResponse = errors.build("UNAUTHORIZED");
+      mockError(endpoint, 401, errorResponse);
 
       // when & then
-      await expect(axios.post(ROUTE, payload)).rejects.toMatchObject({
+      await expect(client.call(SPEC_KEY, payload)).rejects.toMatchObject({
         isAxiosError: true,
-        response: { status: 401, data: errorResponse },
+        response: { status: 401, data: expectedError(errorResponse) },
       });
-      expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+      expect(recorder.count).toBe(1);
     });
 
-    it("MS | 403 | 실패 | 권한 부족", async () => {
-      // given
-      const payload = {
-        menuId: "menu_001",
-        quantity: 2,
-        shopId: "shop_001",
-        memberNo: "member_123",
-      };
-      const errorResponse = buildErrorResponseFromCode("FORBIDDEN");
-      mockError(mockedAxios.post, 403, errorResponse);
-
-      // when & then
-      await expect(axios.post(ROUTE, payload)).rejects.toMatchObject({
-        isAxiosError: true,
-        response: { status: 403, data: errorResponse },
-      });
-      expect(mockedAxios.post).toHaveBeenCalledTimes(1);
-    });
+    // 배포 환경은 OAUTH_PRINCIPALS 에 noScope 주체가 있을 때만 실행
+    it.skipIf(isLiveTarget() && !hasPrincipal("noScope"))(
+      "MS | 403 | 실패 | 권한 부족",
+      async () => {
+        // given — scope 가 없는 noScope 주체로 호출
+        const payload = {
+          menuId: "menu_001",
+          quantity: 2,
+          shopId: "shop_001",
+          memberNo: "member_123",
+        };
+        const errorResponse = errors.build("FORBIDDEN");
+        mockError(endpoint, 403, errorResponse);
+
+        // when & then
+        await expect(
+          client.call(SPEC_KEY, payload, { principal: "noScope" })
+        ).rejects.toMatchObject({
+          isAxiosError: true,
+          response: { status: 403, data: expectedError(errorResponse) },
+        });
+        // live 는 토큰 발급 요청도 기록되므로 스펙 경로만 센다
+        expect(recorder).toHaveSentRequest({
+          route: SPEC_KEY,
+          status: 403,
+          times: 1,
+        });
+      }
+    );
 
     it("MS | 404 | 실패 | 존재하지 않는 메뉴", async () => {
       // given
@@ -422,18 +380,18 @@ describe("POST /api/v1/menu/select", () => {
         shopId: "shop_001",
         memberNo: "member_123",
       };
-      const errorResponse = buildErrorResponseFromCode("MENU_NOT_FOUND");
-      mockError(mockedAxios.post, 404, errorResponse);
+      const errorResponse = errors.build("MENU_NOT_FOUND");
+      mockError(endpoint, 404, errorResponse);
 
       // when & then
-      await expect(axios.post(ROUTE, payload)).rejects.toMatchObject({
+      await expect(client.call(SPEC_KEY, payload)).rejects.toMatchObject({
         isAxiosError: true,
-        response: { status: 404, data: errorResponse },
+        response: { status: 404, data: expectedError(errorResponse) },
       });
-      expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+      expect(recorder.count).toBe(1);
     });
 
-    it("MS | 409 | 실패 | 재료 부족", async () => {
+    it.skipIf(isLiveTarget())("MS | 409 | 실패 | 재료 부족", async () => {
       // given
       const payload = {
         menuId: "menu_001",
@@ -441,20 +399,17 @@ describe("POST /api/v1/menu/select", () => {
         shopId: "shop_001",
         memberNo: "member_123",
       };
-      const errorResponse = {
-        status: "ERROR",
+      const errorResponse = errors.build("INSUFFICIENT_INGREDIENTS", {
         message: "주문하신 수량만큼 재료가 부족합니다",
-        errorCode: "INSUFFICIENT_INGREDIENTS",
-        timestamp: "2025-08-07T12:30:00.123Z",
-      };
-      mockError(mockedAxios.post, 409, errorResponse);
+      });
+      mockError(endpoint, 409, errorResponse);
 
       // when & then
-      await expect(axios.post(ROUTE, payload)).rejects.toMatchObject({
+      await expect(client.call(SPEC_KEY, payload)).rejects.toMatchObject({
         isAxiosError: true,
-        response: { status: 409, data: errorResponse },
+        response: { status: 409, data: expectedError(errorResponse) },
       });
-      expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+      expect(recorder.count).toBe(1);
     });
 
     it("MS | 409 | 실패 | 멱등 (동일키/다른바디)", async () => {
@@ -486,75 +441,67 @@ describe("POST /api/v1/menu/select", () => {
           quantity: 2,
         },
       };
-      const conflictError = buildErrorResponseFromCode("IDEMP_CONFLICT");
+      const conflictError = errors.build("IDEMP_CONFLICT");
 
-      mockSuccess(mockedAxios.post, successResponse);
-      mockError(mockedAxios.post, 409, conflictError, {
-        code: "ERR_BAD_RESPONSE",
-        message: "Request failed with status code 409",
-      });
+      mockSuccess(endpoint, successResponse);
+      mockError(endpoint, 409, conflictError);
 
       // when & then (res1)
-      const res1 = await axios.post(ROUTE, payload1, { headers });
+      const res1 = await client.call(SPEC_KEY, payload1, { headers });
       expect(res1.status).toBe(200);
-      expect(res1.data.data.reservationId).toBe("RSV_A7K9M2X8");
+      expect(res1.data.data.reservationId).toBeTypeOf("string");
 
       // when & then (res2)
       await expect(
-        axios.post(ROUTE, payload2, { headers })
+        client.call(SPEC_KEY, payload2, { headers })
       ).rejects.toMatchObject({
         isAxiosError: true,
-        response: { status: 409, data: conflictError },
+        response: { status: 409, data: expectedError(conflictError) },
       });
-      expect(mockedAxios.post).toHaveBeenCalledTimes(2);
-      expect(mockedAxios.post).toHaveBeenNthCalledWith(
-        1,
-        ROUTE,
-        payload1,
-        expect.objectContaining({
-          headers: expect.objectContaining({
-            "x-idempotency-key": idempotencyKey,
-          }),
-        })
-      );
-      expect(mockedAxios.post).toHaveBeenNthCalledWith(
-        2,
-        ROUTE,
-        payload2,
-        expect.objectContaining({
-          headers: expect.objectContaining({
-            "x-idempotency-key": idempotencyKey,
-          }),
-        })
-      );
-    });
-
-    it("MS | 429 | 실패 | 요청 한도 초과 - Retry-After=60s 반환", async () => {
-      // given
-      const payload = {
-        menuId: "menu_001",
-        quantity: 2,
-        shopId: "shop_001",
-        memberNo: "member_123",
-      };
-      const errorResponse = buildErrorResponseFromCode("RATE_LIMIT_EXCEEDED");
-      mockError(mockedAxios.post, 429, errorResponse, {
-        headers: { "retry-after": "60" },
+      expect(recorder.count).toBe(2);
+      expect(recorder).toHaveSentRequest({
+        nth: 1,
+        route: SPEC_KEY,
+        data: payload1,
+        headers: { "x-idempotency-key": idempotencyKey },
       });
-
-      // when & then
-      await expect(axios.post(ROUTE, payload)).rejects.toMatchObject({
-        isAxiosError: true,
-        response: {
-          status: 429,
-          data: errorResponse,
-          headers: { "retry-after": "60" },
-        },
+      expect(recorder).toHaveSentRequest({
+        nth: 2,
+        route: SPEC_KEY,
+        data: payload2,
+        headers: { "x-idempotency-key": idempotencyKey },
       });
-      expect(mockedAxios.post).toHaveBeenCalledTimes(1);
     });
 
-    it("MS | ERR | 실패 | 요청 타임아웃", async () => {
+    it.skipIf(isLiveTarget())(
+      "MS | 429 | 실패 | 요청 한도 초과 - Retry-After=60s 반환",
+      async () => {
+        // given
+        const payload = {
+          menuId: "menu_001",
+          quantity: 2,
+          shopId: "shop_001",
+          memberNo: "member_123",
+        };
+        const errorResponse = errors.build("RATE_LIMIT_EXCEEDED");
+        mockError(endpoint, 429, errorResponse, {
+          headers: { "retry-after": "60" },
+        });
+
+        // when & then
+        await expect(client.call(SPEC_KEY, payload)).rejects.toMatchObject({
+          isAxiosError: true,
+          response: {
+            status: 429,
+            data: expectedError(errorResponse),
+            headers: { "retry-after": "60" },
+          },
+        });
+        expect(recorder.count).toBe(1);
+      }
+    );
+
+    it.skipIf(isLiveTarget())("MS | ERR | 실패 | 요청 타임아웃", async () => {
       // given
       const payload = {
         menuId: "menu_001",
@@ -562,36 +509,35 @@ describe("POST /api/v1/menu/select", () => {
         shopId: "shop_001",
         memberNo: "member_123",
       };
-      mockNetworkError(
-        mockedAxios.post,
-        "ECONNABORTED",
-        "timeout of 5000ms exceeded"
-      );
+      mockNetworkError(endpoint, "ECONNABORTED", "timeout of 5000ms exceeded");
 
       // when & then
-      await expect(axios.post(ROUTE, payload)).rejects.toMatchObject({
+      await expect(client.call(SPEC_KEY, payload)).rejects.toMatchObject({
         isAxiosError: true,
         code: "ECONNABORTED",
       });
-      expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+      expect(recorder.count).toBe(1);
     });
 
-    it("MS | ERR | 실패 | 네트워크 연결 실패", async () => {
-      // given
-      const payload = {
-        menuId: "menu_001",
-        quantity: 2,
-        shopId: "shop_001",
-        memberNo: "member_123",
-      };
-      mockNetworkError(mockedAxios.post, "ENETUNREACH", "Network unreachable");
-
-      // when & then
-      await expect(axios.post(ROUTE, payload)).rejects.toMatchObject({
-        isAxiosError: true,
-        code: "ENETUNREACH",
-      });
-      expect(mockedAxios.post).toHaveBeenCalledTimes(1);
-    });
+    it.skipIf(isLiveTarget())(
+      "MS | ERR | 실패 | 네트워크 연결 실패",
+      async () => {
+        // given
+        const payload = {
+          menuId: "menu_001",
+          quantity: 2,
+          shopId: "shop_001",
+          memberNo: "member_123",
+        };
+        mockNetworkError(endpoint, "ENETUNREACH", "Network unreachable");
+
+        // when & then
+        await expect(client.call(SPEC_KEY, payload)).rejects.toMatchObject({
+          isAxiosError: true,
+          code: "ENETUNREACH",
+        });
+        expect(recorder.count).toBe(1);
+      }
+    );
   });
 });
@@ -0,0 +1,161 @@
+import axios, { AxiosError, AxiosHeaders } from "axios";
+import { describe, expect, it } from "vitest";
+
+import { setupAuthHeader } from "../utils/axios-bearer-auth";
+import { createErrorFactory } from "../utils/error-fixtures";
+import {
+  HttpLogger,
+  setupAxiosLogger,
+  type LoggerTransport,
+} from "../utils/logger";
+import { MockAdapter } from "../utils/mock-adapter";
+import { setupRequestRecorder } from "../utils/request-recorder";
+
+const BASE_URL = "http://api.test";
+const MENU_SELECT = "/api/v1/menu/select";
+const payload = {
+  menuId: "menu_001",
+  quantity: 1,
+  shopId: "shop_001",
+  memberNo: "member_123",
+};
+
+const mockedClient = () => {
+  const mock = new MockAdapter();
+  const http = axios.create({ baseURL: BASE_URL });
+  mock.install(http);
+  return { mock, http };
+};
+
+describe("mock-adapter", () => {
+  it("method·URL·헤더·본문 매칭 — 등록 순서대로 첫 일치", async () => {
+    // given
+    const { mock, http } = mockedClient();
+    mock
+      .on({
+        method: "POST",
+        url: "POST_/api/v1/menu/select",
+        headers: { "X-Idempotency-Key": /^idem-/ },
+        body: expect.objectContaining({ menuId: "menu_002" }),
+      })
+      .reply(200, { matched: "key+menu_002" });
+    mock.on("POST_/api/v1/menu/select").reply(200, { matched: "route" });
+
+    // when
+    const keyed = await http.post(
+      MENU_SELECT,
+      { ...payload, menuId: "menu_002" },
+      { headers: { "x-idempotency-key": "idem-1" } }
+    );
+    const plain = await http.post(MENU_SELECT, payload, {
+      headers: { "x-idempotency-key": "idem-2" },
+    });
+
+    // then
+    expect(keyed.data).toEqual({ matched: "key+menu_002" });
+    expect(plain.data).toEqual({ matched: "route" });
+    expect(mock.history.map((req) => req.body)).toEqual([
+      { ...payload, menuId: "menu_002" },
+      payload,
+    ]);
+  });
+
+  it("AxiosResponse — config/request/statusText/AxiosHeaders, 본문은 transformResponse 가 파싱", async () => {
+    // given
+    const { mock, http } = mockedClient();
+    mock.on(MENU_SELECT).replyOnce(201, { ok: true }, { "x-trace-id": "t-1" });
+
+    // when
+    const res = await http.post(MENU_SELECT, payload);
+
+    // then
+    expect(res).toMatchObject({
+      status: 201,
+      statusText: "Created",
+      data: { ok: true },
+      config: { baseURL: BASE_URL, url: MENU_SELECT, method: "post" },
+      request: { method: "POST", url: `${BASE_URL}${MENU_SELECT}` },
+    });
+    expect(res.headers).toBeInstanceOf(AxiosHeaders);
+    expect(res.headers["x-trace-id"]).toBe("t-1");
+  });
+
+  it("AxiosError — 4xx 는 ERR_BAD_REQUEST + response, 네트워크 오류는 response 없음", async () => {
+    // given
+    const { mock, http } = mockedClient();
+    const body = createErrorFactory("POST_/api/v1/menu/select").build(
+      "MENU_NOT_FOUND"
+    );
+    mock
+      .on(MENU_SELECT)
+      .replyOnce(404, body)
+      .networkErrorOnce("ENETUNREACH", "Network unreachable");
+
+    // when
+    const notFound = await http.post(MENU_SELECT, payload).catch((e) => e);
+    const offline = await http.post(MENU_SELECT, payload).catch((e) => e);
+
+    // then
+    expect(notFound).toBeInstanceOf(AxiosError);
+    expect(notFound).toMatchObject({
+      code: "ERR_BAD_REQUEST",
+      message: "Request failed with status code 404",
+      config: { url: MENU_SELECT },
+      request: { method: "POST" },
+      response: { status: 404, statusText: "Not Found", data: body },
+    });
+    expect(offline).toMatchObject({
+      code: "ENETUNREACH",
+      request: { method: "POST" },
+    });
+    expect(offline.response).toBeUndefined();
+  });
+
+  it("등록되지 않은 요청 — ERR_MOCK_UNMATCHED, reset() 후 응답/기록 초기화", async () => {
+    // given
+    const { mock, http } = mockedClient();
+    mock.on(MENU_SELECT).reply(200, {});
+    await http.post(MENU_SELECT, payload);
+
+    // when
+    mock.reset();
+
+    // then
+    expect(mock.history).toEqual([]);
+    await expect(http.post(MENU_SELECT, payload)).rejects.toMatchObject({
+      code: "ERR_MOCK_UNMATCHED",
+      message: `목 응답이 등록되지 않은 요청입니다: POST ${BASE_URL}${MENU_SELECT}`,
+    });
+  });
+
+  it("인터셉터 — 인증·로거·레코더가 목 응답 경로에서도 실행", async () => {
+    // given
+    const { mock, http } = mockedClient();
+    const lines: string[] = [];
+    const transport: LoggerTransport = {
+      info: () => {},
+      error: () => {},
+      debug: (msg) => lines.push(msg),
+    };
+    const recorder = setupRequestRecorder(http);
+    setupAuthHeader(http, "mock-token");
+    setupAxiosLogger(http, new HttpLogger(transport, () => "DEBUG"));
+    mock
+      .on({ headers: { Authorization: "Bearer mock-token" } })
+      .reply(200, { status: "SUCCESS" });
+
+    // when
+    await http.post(MENU_SELECT, payload);
+
+    // then
+    expect(recorder).toHaveSentRequest({
+      route: "POST_/api/v1/menu/select",
+      headers: { Authorization: "Bearer mock-token" },
+      status: 200,
+    });
+    expect(lines.map((line) => JSON.parse(line).type)).toEqual([
+      "REQUEST",
+      "RESPONSE",
+    ]);
+  });
+});
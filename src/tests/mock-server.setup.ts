@@ -0,0 +1,36 @@
+import "dotenv/config";
+
+import {
+  DEFAULT_CLIENTS,
+  MockApiServer,
+  TOKEN_PATH,
+} from "../utils/mock-server";
+import { isMockServerEnabled } from "../utils/test-target";
+
+/**
+ * Vitest globalSetup: MOCK_SERVER=true 이면 API_URL 의 host:port 로 목 서버를 띄운다.
+ * (API_URL 은 덮어쓰지 않는다 — .env 에서 로컬 주소를 가리키도록 설정)
+ * OAUTH_PRINCIPALS 가 비어 있으면 목 서버 발급 클라이언트(member/shopOwner/noScope)로 채운다.
+ */
+export default async function setup() {
+  if (!isMockServerEnabled()) return;
+
+  let url: URL;
+  try {
+    url = new URL(String(process.env.API_URL));
+  } catch {
+    throw new Error(
+      "MOCK_SERVER=true 이면 API_URL은 http://127.0.0.1:4010 처럼 로컬 주소여야 합니다."
+    );
+  }
+
+  const server = new MockApiServer();
+  await server.start(Number(url.port || 80), url.hostname);
+  if (!process.env.OAUTH_PRINCIPALS) {
+    process.env.OAUTH_TOKEN_URL = `${url.origin}${TOKEN_PATH}`;
+    process.env.OAUTH_PRINCIPALS = Object.entries(DEFAULT_CLIENTS)
+      .map(([name, { secret }]) => `${name}:${name}:${secret}`)
+      .join(",");
+  }
+  return () => server.stop();
+}
@@ -0,0 +1,226 @@
+import axios, { type AxiosInstance } from "axios";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+
+import { setupAuthHeader } from "../utils/axios-bearer-auth";
+import { FakeClock } from "../utils/clock";
+import { setupAxiosLogger } from "../utils/logger";
+import { MockApiServer } from "../utils/mock-server";
+import { setupRequestRecorder } from "../utils/request-recorder";
+import { buildSpecSchemas } from "../utils/spec-schema";
+import { encodeFixture, FIXTURE_HEADER } from "../utils/test-target";
+
+const MENU_SELECT = "/api/v1/menu/select";
+const ORDER_CREATE = "/api/v1/order/create";
+
+const clock = new FakeClock("2025-08-07T12:30:00.123Z");
+const server = new MockApiServer({
+  now: clock.now,
+  stock: { menu_001: 3 },
+  rateLimit: { limit: 5, windowMs: 60_000 },
+});
+let client: AxiosInstance;
+let recorder: ReturnType<typeof setupRequestRecorder>;
+
+beforeAll(async () => {
+  const baseURL = await server.start();
+  client = axios.create({ baseURL });
+  recorder = setupRequestRecorder(client);
+  setupAuthHeader(client, "mock-server-token");
+  setupAxiosLogger(client);
+});
+
+afterAll(async () => {
+  await server.stop();
+});
+
+beforeEach(() => {
+  clock.reset();
+  server.reset();
+  recorder.clear();
+});
+
+const selectPayload = {
+  menuId: "menu_001",
+  quantity: 2,
+  shopId: "shop_001",
+  memberNo: "member_123",
+};
+
+const reserve = async (payload = selectPayload) =>
+  (await client.post(MENU_SELECT, payload)).data.data.reservationId as string;
+
+describe("mock-server", () => {
+  it("menu-select → order-create — 실제 HTTP 스택으로 주문 생성", async () => {
+    // given
+    const reservationId = await reserve();
+
+    // when
+    const response = await client.post(ORDER_CREATE, {
+      reservationId,
+      memberNo: "member_123",
+    });
+
+    // then
+    expect(response.status).toBe(200);
+    expect(response.headers["content-type"]).toBe(
+      "application/json;charset=UTF-8"
+    );
+    expect(() =>
+      buildSpecSchemas("POST_/api/v1/order/create").response.parse(
+        response.data
+      )
+    ).not.toThrow();
+    expect(response.data.data.reservationId).toBe(reservationId);
+    expect(server.stock.get("menu_001")).toBe(1);
+    expect(recorder).toHaveSentRequest({
+      nth: 2,
+      route: "POST_/api/v1/order/create",
+      headers: { authorization: expect.stringMatching(/^Bearer .+/) },
+      data: { reservationId, memberNo: "member_123" },
+      status: 200,
+    });
+    expect(recorder.requests[1].durationMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it("x-mock-fixture — 지정한 응답을 도메인 로직 없이 그대로 반환", async () => {
+    // given
+    const fixture = {
+      status: 429,
+      data: { status: "ERROR", errorCode: "RATE_LIMIT_EXCEEDED" },
+      headers: { "Retry-After": "60" },
+    };
+
+    // when & then
+    await expect(
+      client.post(MENU_SELECT, selectPayload, {
+        headers: { [FIXTURE_HEADER]: encodeFixture(fixture) },
+      })
+    ).rejects.toMatchObject({
+      response: {
+        status: 429,
+        data: fixture.data,
+        headers: { "retry-after": "60" },
+      },
+    });
+    expect(server.stock.get("menu_001")).toBe(3);
+  });
+
+  it("Authorization 누락 — 401 UNAUTHORIZED", async () => {
+    // given
+    const bare = axios.create({ baseURL: client.defaults.baseURL });
+
+    // when & then
+    await expect(
+      bare.post(MENU_SELECT, selectPayload, {
+        headers: { "x-skip-auth": true },
+      })
+    ).rejects.toMatchObject({
+      response: { status: 401, data: { errorCode: "UNAUTHORIZED" } },
+    });
+  });
+
+  it("Content-Type 오류 — 400 INVALID_REQUEST", async () => {
+    // when & then
+    await expect(
+      client.post(
+        MENU_SELECT,
+        "menuId=menu_001&quantity=2&shopId=shop_001&memberNo=member_123",
+        { headers: { "Content-Type": "application/x-www-form-urlencoded" } }
+      )
+    ).rejects.toMatchObject({
+      response: { status: 400, data: { errorCode: "INVALID_REQUEST" } },
+    });
+  });
+
+  it("재고보다 많은 수량 — 409 INSUFFICIENT_INGREDIENTS", async () => {
+    // when & then
+    await expect(
+      client.post(MENU_SELECT, { ...selectPayload, quantity: 4 })
+    ).rejects.toMatchObject({
+      response: {
+        status: 409,
+        data: { errorCode: "INSUFFICIENT_INGREDIENTS" },
+      },
+    });
+  });
+
+  it("예약 후 다른 주문으로 재고 소진 — 409 INGREDIENTS_EXHAUSTED", async () => {
+    // given
+    const first = await reserve();
+    const second = await reserve();
+    await client.post(ORDER_CREATE, {
+      reservationId: first,
+      memberNo: "member_123",
+    });
+
+    // when & then
+    await expect(
+      client.post(ORDER_CREATE, {
+        reservationId: second,
+        memberNo: "member_123",
+      })
+    ).rejects.toMatchObject({
+      response: { status: 409, data: { errorCode: "INGREDIENTS_EXHAUSTED" } },
+    });
+  });
+
+  it("reservationId 재사용 — 409 DUPLICATE_ORDER", async () => {
+    // given
+    const payload = { reservationId: await reserve(), memberNo: "member_123" };
+    await client.post(ORDER_CREATE, payload);
+
+    // when & then
+    await expect(client.post(ORDER_CREATE, payload)).rejects.toMatchObject({
+      response: { status: 409, data: { errorCode: "DUPLICATE_ORDER" } },
+    });
+  });
+
+  it("예약 5분 경과 — 422 RESERVATION_EXPIRED", async () => {
+    // given
+    const reservationId = await reserve();
+    clock.advance({ minutes: 5, ms: 1 });
+
+    // when & then
+    await expect(
+      client.post(ORDER_CREATE, { reservationId, memberNo: "member_123" })
+    ).rejects.toMatchObject({
+      response: { status: 422, data: { errorCode: "RESERVATION_EXPIRED" } },
+    });
+  });
+
+  it("멱등 — 동일키/동일바디는 재생, 동일키/다른바디는 409 IDEMP_CONFLICT", async () => {
+    // given
+    const headers = { "x-idempotency-key": "idempotency-key-12345" };
+
+    // when
+    const res1 = await client.post(MENU_SELECT, selectPayload, { headers });
+    const res2 = await client.post(MENU_SELECT, selectPayload, { headers });
+
+    // then
+    expect(res2.data).toEqual(res1.data);
+    expect(server.reservations.size).toBe(1);
+    await expect(
+      client.post(MENU_SELECT, { ...selectPayload, quantity: 1 }, { headers })
+    ).rejects.toMatchObject({
+      response: { status: 409, data: { errorCode: "IDEMP_CONFLICT" } },
+    });
+    expect(server.reservations.size).toBe(1);
+  });
+
+  it("요청 한도 초과 — 429 + Retry-After(초)", async () => {
+    // given
+    for (let i = 0; i < 5; i++) await reserve();
+    clock.advance({ seconds: 15 });
+
+    // when & then
+    await expect(client.post(MENU_SELECT, selectPayload)).rejects.toMatchObject(
+      {
+        response: {
+          status: 429,
+          data: { errorCode: "RATE_LIMIT_EXCEEDED" },
+          headers: { "retry-after": "45" },
+        },
+      }
+    );
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, expect, it } from "vitest";
+
+import apiSpec from "../data/api-spec.json";
+import type { JsonSchema, SpecDocument } from "../utils/api-spec";
+import {
+  exportJsonSchemas,
+  exportOpenApi,
+  JSON_SCHEMA_DIALECT,
+} from "../utils/openapi-export";
+import { importOpenApi } from "../utils/openapi-import";
+import { compileJsonSchema } from "../utils/spec-schema";
+
+const MENU_SELECT = "POST_/api/v1/menu/select";
+const ORDER_CREATE = "POST_/api/v1/order/create";
+const spec = apiSpec as unknown as SpecDocument;
+
+/** 문서 안의 모든 $ref 값 */
+const refsOf = (node: unknown): string[] => {
+  if (!node || typeof node !== "object") return [];
+  return Object.entries(node).flatMap(([k, v]) =>
+    k === "$ref" && typeof v === "string" ? [v] : refsOf(v)
+  );
+};
+
+/** 단독 스키마 → 레포 JSON Schema 부분집합 컴파일러로 검증 */
+const compile = (file: Record<string, unknown>) => {
+  const { $schema, $id, title, ...schema } = file;
+  return compileJsonSchema(schema as JsonSchema);
+};
+
+describe("openapi-export", () => {
+  it("OpenAPI 3.1 — 헤더 파라미터, 미디어 타입 스키마/예시, 상태별 errorCode enum", () => {
+    // given
+    const withHeader = structuredClone(spec);
+    withHeader[ORDER_CREATE].requestHeaders.order.push("x-trace-id");
+    withHeader[ORDER_CREATE].requestHeaders.byName["x-trace-id"] = {
+      required: true,
+      description: "추적 ID",
+    };
+
+    // when
+    const doc = exportOpenApi(withHeader, { title: "Order API" });
+
+    // then
+    const menu = doc.paths!["/api/v1/menu/select"].post;
+    const order = doc.paths!["/api/v1/order/create"].post;
+    expect(doc).toMatchObject({
+      openapi: "3.1.0",
+      info: { title: "Order API", version: "1.0.0" },
+      jsonSchemaDialect: JSON_SCHEMA_DIALECT,
+      components: {
+        securitySchemes: {
+          bearer: {
+            type: "http",
+            scheme: "bearer",
+            "x-auth-strategy": "bearer",
+          },
+        },
+      },
+    });
+    expect(menu).toMatchObject({
+      operationId: MENU_SELECT,
+      summary: "메뉴 선택 API",
+      security: [{ bearer: [] }],
+      requestBody: {
+        content: {
+          "application/json;charset=UTF-8": {
+            example: spec[MENU_SELECT].requestBodySchema!.example,
+          },
+        },
+      },
+    });
+    expect(menu.parameters).toBeUndefined();
+    expect(order.parameters).toEqual([
+      {
+        name: "x-trace-id",
+        in: "header",
+        required: true,
+        description: "추적 ID",
+        schema: { type: "string" },
+      },
+    ]);
+    expect(Object.keys(order.responses)).toEqual([
+      "200",
+      "400",
+      "401",
+      "403",
+      "404",
+      "409",
+      "422",
+      "429",
+    ]);
+    expect(
+      order.responses["409"].content["application/json"].schema.allOf[1]
+    ).toEqual({
+      required: ["errorCode"],
+      properties: {
+        errorCode: {
+          enum: ["INGREDIENTS_EXHAUSTED", "DUPLICATE_ORDER", "IDEMP_CONFLICT"],
+        },
+      },
+    });
+    expect(order.responses["409"].content["application/json"].example).toEqual(
+      spec[ORDER_CREATE].responseBodySchema.examples!.failure
+    );
+    for (const ref of refsOf(doc)) {
+      expect(ref).toBe("#/components/schemas/ErrorResponse");
+    }
+    expect(doc.components!.schemas.ErrorResponse).toBeDefined();
+  });
+
+  it("왕복 — 내보낸 문서를 openapi-import 로 다시 가져오면 api-spec.json 과 같다", () => {
+    // when
+    const imported = importOpenApi(exportOpenApi(spec));
+
+    // then
+    expect(imported).toEqual(apiSpec);
+  });
+
+  it("엔드포인트별 JSON Schema — 단독 검증 가능, error 는 선언된 errorCode 만 허용", () => {
+    // when
+    const schemas = exportJsonSchemas(spec)[MENU_SELECT];
+
+    // then
+    expect(schemas.request).toMatchObject({
+      $schema: JSON_SCHEMA_DIALECT,
+      $id: "POST_api_v1_menu_select.request.schema.json",
+      title: "POST /api/v1/menu/select request",
+    });
+    expect(refsOf(schemas)).toEqual([]);
+    const { example } = spec[MENU_SELECT].requestBodySchema!;
+    const { examples } = spec[MENU_SELECT].responseBodySchema;
+    expect(compile(schemas.request!).safeParse(example).success).toBe(true);
+    expect(
+      compile(schemas.request!).safeParse({
+        ...(example as object),
+        quantity: 0,
+      }).success
+    ).toBe(false);
+    expect(compile(schemas.response).safeParse(examples!.success).success).toBe(
+      true
+    );
+    expect(compile(schemas.error!).safeParse(examples!.failure).success).toBe(
+      true
+    );
+    expect(
+      compile(schemas.error!).safeParse({
+        ...(examples!.failure as object),
+        errorCode: "INVALID_RESERVATION",
+      }).success
+    ).toBe(false);
+  });
+});
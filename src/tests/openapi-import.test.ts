@@ -0,0 +1,319 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+
+import apiSpec from "../data/api-spec.json";
+import type { SpecDocument } from "../utils/api-spec";
+import {
+  importOpenApi,
+  mergeSpec,
+  parseOpenApi,
+} from "../utils/openapi-import";
+
+const MENU_SELECT = "POST_/api/v1/menu/select";
+const MENU_YAML = readFileSync(
+  new URL("../data/openapi/menu.openapi.yaml", import.meta.url),
+  "utf8"
+);
+
+/** OpenAPI 3.0 JSON: nullable, allOf, exclusiveMinimum, 응답 스키마의 errorCode enum, apiKey */
+const ORDER_JSON = JSON.stringify({
+  openapi: "3.0.3",
+  info: { title: "Order API", version: "1.0.0" },
+  components: {
+    securitySchemes: {
+      key: { type: "apiKey", in: "header", name: "x-api-key" },
+    },
+    parameters: {
+      TraceId: {
+        name: "x-trace-id",
+        in: "header",
+        required: true,
+        description: "추적 ID",
+        schema: { type: "string" },
+      },
+    },
+    schemas: {
+      Order: {
+        type: "object",
+        required: ["orderNo"],
+        properties: {
+          orderNo: { type: "string", pattern: "^[A-Z0-9]{8}$" },
+          memo: { type: "string", nullable: true },
+          page: { type: "integer", minimum: 0, exclusiveMinimum: true },
+        },
+      },
+    },
+  },
+  paths: {
+    "/api/v1/order/{orderNo}": {
+      parameters: [{ $ref: "#/components/parameters/TraceId" }],
+      get: {
+        description: "주문 조회",
+        security: [{ key: [] }],
+        responses: {
+          "200": {
+            description: "OK",
+            content: {
+              "application/json": {
+                schema: { $ref: "#/components/schemas/Order" },
+                examples: { basic: { value: { orderNo: "R7X9K2M8" } } },
+              },
+            },
+          },
+          "404": {
+            description: "주문 없음",
+            content: {
+              "application/json": {
+                schema: {
+                  type: "object",
+                  properties: {
+                    errorCode: { type: "string", enum: ["ORDER_NOT_FOUND"] },
+                  },
+                },
+              },
+            },
+          },
+          default: { description: "그 외" },
+        },
+      },
+    },
+  },
+});
+
+describe("openapi-import", () => {
+  it("3.1 YAML — $ref/components/상태별 응답/x-error-codes 를 api-spec 항목으로", () => {
+    // given
+    const doc = parseOpenApi(MENU_YAML);
+
+    // when
+    const imported = importOpenApi(doc);
+
+    // then
+    expect(Object.keys(imported)).toEqual([MENU_SELECT]);
+    expect(imported[MENU_SELECT]).toEqual(apiSpec[MENU_SELECT]);
+  });
+
+  it("3.0 JSON — nullable·allOf·exclusiveMinimum, 헤더 파라미터, 응답 스키마 errorCode enum", () => {
+    // when
+    const imported = importOpenApi(parseOpenApi(ORDER_JSON));
+
+    // then
+    expect(imported["GET_/api/v1/order/{orderNo}"]).toEqual({
+      description: "주문 조회",
+      restfulMethod: "GET",
+      restfulUrl: "/api/v1/order/{orderNo}",
+      auth: "apiKey",
+      requestHeaders: {
+        order: ["x-trace-id"],
+        byName: {
+          "x-trace-id": { required: true, description: "추적 ID" },
+        },
+      },
+      responseBodySchema: {
+        type: "object",
+        required: ["orderNo"],
+        properties: {
+          orderNo: { type: "string", pattern: "^[A-Z0-9]{8}$" },
+          memo: { type: "string" },
+          page: { type: "integer", minimum: 1 },
+        },
+        examples: { success: { orderNo: "R7X9K2M8" } },
+      },
+      errorCodes: [
+        {
+          ErrorCode: "ORDER_NOT_FOUND",
+          HttpStatus: 404,
+          Description: "주문 없음",
+        },
+      ],
+    });
+  });
+
+  it("병합 — 손으로 쓴 description 유지, 상태·스키마는 가져온 값, 새 코드/엔드포인트 추가", () => {
+    // given
+    const existing = structuredClone(apiSpec) as unknown as SpecDocument;
+    const changed = MENU_YAML.replace(
+      "summary: 메뉴 선택 API",
+      "summary: Select menu"
+    )
+      .replace("description: 재료 부족", "description: Out of stock")
+      .replace(
+        "x-error-codes: [MENU_NOT_FOUND]",
+        "x-error-codes: [MENU_NOT_FOUND, SHOP_CLOSED]"
+      )
+      .replace("maximum: 99", "maximum: 50")
+      .replace(
+        "- code: INSUFFICIENT_INGREDIENTS",
+        "- code: INSUFFICIENT_STOCK"
+      );
+    Object.assign(existing[MENU_SELECT].errorCodes[3], {
+      HttpStatus: 410,
+      Description: "메뉴 없음",
+    });
+
+    // when
+    const merged = mergeSpec(existing, {
+      ...importOpenApi(parseOpenApi(changed)),
+      ...importOpenApi(parseOpenApi(ORDER_JSON)),
+    });
+
+    // then
+    const menu = merged[MENU_SELECT];
+    expect(Object.keys(merged)).toEqual([
+      ...Object.keys(apiSpec),
+      "GET_/api/v1/order/{orderNo}",
+    ]);
+    expect(menu.description).toBe("메뉴 선택 API");
+    expect(menu.auth).toBe("bearer");
+    expect(menu.requestBodySchema?.properties?.quantity).toEqual({
+      type: "integer",
+      minimum: 1,
+      maximum: 50,
+      description: "주문 수량",
+    });
+    expect(menu.errorCodes).toEqual(
+      expect.arrayContaining([
+        {
+          ErrorCode: "MENU_NOT_FOUND",
+          HttpStatus: 404,
+          Description: "메뉴 없음",
+        },
+        {
+          ErrorCode: "SHOP_CLOSED",
+          HttpStatus: 404,
+          Description: "존재하지 않는 메뉴",
+        },
+        {
+          ErrorCode: "INSUFFICIENT_STOCK",
+          HttpStatus: 409,
+          Description: "Out of stock",
+        },
+      ])
+    );
+    expect(menu.errorCodes.map((e) => e.HttpStatus)).toEqual(
+      [...menu.errorCodes.map((e) => e.HttpStatus)].sort((a, b) => a - b)
+    );
+    expect(merged["POST_/api/v1/order/create"]).toEqual(
+      apiSpec["POST_/api/v1/order/create"]
+    );
+  });
+
+  it("병합 — 상류에서 지운 ErrorCode 는 빠지고, 남는 코드는 손으로 쓴 Description 유지", () => {
+    // given
+    const existing = structuredClone(apiSpec) as unknown as SpecDocument;
+    existing[MENU_SELECT].errorCodes[4].Description = "주문 수량만큼 재료 없음";
+    const removed = MENU_YAML.replace(
+      "            - code: IDEMP_CONFLICT\n              description: Idempotency-Key 충돌\n",
+      ""
+    );
+
+    // when
+    const merged = mergeSpec(existing, importOpenApi(parseOpenApi(removed)));
+
+    // then
+    expect(merged[MENU_SELECT].errorCodes).toEqual([
+      {
+        ErrorCode: "INVALID_REQUEST",
+        HttpStatus: 400,
+        Description: "잘못된 요청",
+      },
+      { ErrorCode: "UNAUTHORIZED", HttpStatus: 401, Description: "인증 실패" },
+      { ErrorCode: "FORBIDDEN", HttpStatus: 403, Description: "권한 부족" },
+      {
+        ErrorCode: "MENU_NOT_FOUND",
+        HttpStatus: 404,
+        Description: "존재하지 않는 메뉴",
+      },
+      {
+        ErrorCode: "INSUFFICIENT_INGREDIENTS",
+        HttpStatus: 409,
+        Description: "주문 수량만큼 재료 없음",
+      },
+      {
+        ErrorCode: "RATE_LIMIT_EXCEEDED",
+        HttpStatus: 429,
+        Description: "요청 한도 초과",
+      },
+    ]);
+  });
+
+  it("병합 — 상류에서 지운 필드는 스키마·required·예시에서 모두 빠지고 설명만 유지", () => {
+    // given
+    const existing = structuredClone(apiSpec) as unknown as SpecDocument;
+    const removed = MENU_YAML.replace(
+      "required: [menuId, quantity, shopId, memberNo]",
+      "required: [menuId, quantity, memberNo]"
+    )
+      .replace(
+        "        shopId: { type: string, minLength: 1, description: 가게 ID }\n",
+        ""
+      )
+      .replace("              shopId: shop_001\n", "")
+      .replace(
+        "menuId: { type: string, minLength: 1, description: 메뉴 ID }",
+        "menuId: { type: string, minLength: 1, description: Menu ID }"
+      )
+      .replace("        menuId: { type: string }\n", "")
+      .replace("                  menuId: menu_001\n", "")
+      .replace(
+        "required: [reservationId, reservationExpiresAt, menuId, quantity]",
+        "required: [reservationId, reservationExpiresAt, quantity]"
+      );
+
+    // when
+    const merged = mergeSpec(existing, importOpenApi(parseOpenApi(removed)));
+
+    // then
+    const { requestBodySchema, responseBodySchema } = merged[MENU_SELECT];
+    expect(requestBodySchema?.required).toEqual([
+      "menuId",
+      "quantity",
+      "memberNo",
+    ]);
+    expect(Object.keys(requestBodySchema?.properties ?? {})).toEqual([
+      "menuId",
+      "quantity",
+      "memberNo",
+    ]);
+    expect(requestBodySchema?.properties?.menuId.description).toBe("메뉴 ID");
+    expect(requestBodySchema?.example).not.toHaveProperty("shopId");
+    const data = responseBodySchema.properties?.data;
+    expect(Object.keys(data?.properties ?? {})).not.toContain("menuId");
+    expect(data?.properties?.reservationId.description).toBe("메뉴 예약 ID");
+    expect(
+      (responseBodySchema.examples?.success as { data: object }).data
+    ).not.toHaveProperty("menuId");
+  });
+
+  it("지원하지 않는 문서 — Swagger 2.0, 외부/순환 $ref 는 이유와 함께 실패", () => {
+    // given
+    const withRef = (ref: string) =>
+      JSON.stringify({
+        openapi: "3.1.0",
+        paths: {
+          "/a": { post: { responses: { "200": { $ref: ref } } } },
+        },
+        components: {
+          responses: { Loop: { $ref: "#/components/responses/Loop" } },
+        },
+      });
+
+    // when / then
+    expect(() => parseOpenApi('swagger: "2.0"')).toThrow(
+      "OpenAPI 3.0/3.1 문서가 아닙니다: 2.0"
+    );
+    expect(() =>
+      importOpenApi(
+        parseOpenApi(withRef("common.yaml#/components/responses/Ok"))
+      )
+    ).toThrow(
+      "외부 $ref 는 지원하지 않습니다: common.yaml#/components/responses/Ok"
+    );
+    expect(() =>
+      importOpenApi(parseOpenApi(withRef("#/components/responses/Loop")))
+    ).toThrow("순환 $ref 는 지원하지 않습니다");
+    expect(() =>
+      importOpenApi(parseOpenApi(withRef("#/components/responses/Missing")))
+    ).toThrow("$ref 대상을 찾을 수 없습니다: #/components/responses/Missing");
+  });
+});
@@ -1,20 +1,43 @@
 import "dotenv/config";
 import axios from "axios";
-import { beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
-import { z } from "zod";
+import { beforeAll, beforeEach, describe, expect, it } from "vitest";
 
 import apiSpec from "../data/api-spec.json";
+import { createApiClient } from "../utils/api-client";
+import { hasPrincipal } from "../utils/axios-bearer-auth";
 import {
+  advanceMockServerClock,
+  type Duration,
+  FakeClock,
+  resetMockServerClock,
+} from "../utils/clock";
+import { createErrorFactory } from "../utils/error-fixtures";
+import { flow } from "../utils/flow";
+import { generateIdempotencyKey } from "../utils/idempotency";
+import {
+  installMockAdapter,
   mockSuccess,
   mockError,
   mockNetworkError,
 } from "../utils/mock-helpers";
-
-const spec = apiSpec["POST_/api/v1/order/create"];
+import { negativeCases } from "../utils/request-cases";
+import { setupRequestRecorder } from "../utils/request-recorder";
+import { buildSpecSchemas } from "../utils/spec-schema";
+import { validateSpecRequest } from "../utils/spec-validator";
+import { isLiveTarget, isMockServerEnabled } from "../utils/test-target";
+import { assertDuration, assertMonotonic } from "../utils/time-rules";
+
+const SPEC_KEY = "POST_/api/v1/order/create" as const;
+const spec = apiSpec[SPEC_KEY];
 const baseURL = process.env.API_URL;
 
-vi.mock("axios");
-const mockedAxios = vi.mocked(axios, true);
+// TEST_TARGET=live 면 어댑터를 설치하지 않아 실제 HTTP 로 API_URL 을 호출한다
+const mock = installMockAdapter(axios);
+const endpoint = mock.on(SPEC_KEY);
+const menuSelect = mock.on("POST_/api/v1/menu/select");
+// 부트스트랩의 인증/로거 인터셉터보다 먼저 설치 → 주입된 헤더까지 기록
+const recorder = setupRequestRecorder(axios);
+const client = createApiClient();
 
 beforeAll(() => {
   if (!spec) {
@@ -27,92 +50,74 @@ beforeAll(() => {
 });
 
 beforeEach(() => {
-  vi.clearAllMocks();
+  mock.reset();
+  recorder.clear();
+  clock.reset();
 });
 
 const ROUTE = `${baseURL!}${spec.restfulUrl}`;
 
-const successResponseSchema = z.object({
-  status: z.literal("SUCCESS"),
-  message: z.string(),
-  timestamp: z.string().refine((val) => !isNaN(Date.parse(val)), {
-    message: "timestamp는 유효한 ISO 8601 형식이어야 합니다",
-  }),
-  data: z.object({
-    orderNo: z.string().regex(/^[A-Z0-9]{8}$/, {
-      message: "orderNo는 8자리 영숫자여야 합니다",
-    }),
-    orderStatus: z.literal("INITIALIZING"),
-    reservationId: z.string(),
-    createdAt: z.string().refine((val) => !isNaN(Date.parse(val)), {
-      message: "createdAt는 유효한 ISO 8601 형식이어야 합니다",
-    }),
-    memberInfo: z.object({
-      memberNo: z.string(),
-    }),
-  }),
-});
-
-const buildErrorResponseFromCode = (errorCode: string) => {
-  const errorDef = spec.errorCodes.find((e) => e.ErrorCode === errorCode);
-  if (!errorDef) {
-    throw new Error(`API 스펙에 ${errorCode} 에러 정의가 필요합니다.`);
-  }
-
-  return {
-    status: "ERROR" as const,
-    message: errorDef.Description,
-    errorCode: errorDef.ErrorCode,
-    timestamp: "2025-08-07T12:30:00.123Z",
-  };
-};
-
-const VALIDATION_ERRORS = {
-  RESERVATION_ID_REQUIRED: "reservationId는 필수값입니다",
-  MEMBER_NO_REQUIRED: "memberNo는 필수값입니다",
-} as const;
-
-const validateOrderCreateRequest = (payload: {
-  reservationId?: string;
-  memberNo?: string;
-}): void => {
-  if (!payload.reservationId) {
-    throw new Error(VALIDATION_ERRORS.RESERVATION_ID_REQUIRED);
-  }
-  if (!payload.memberNo) {
-    throw new Error(VALIDATION_ERRORS.MEMBER_NO_REQUIRED);
-  }
+const { response: responseSchema } = buildSpecSchemas(SPEC_KEY);
+
+// 에러 응답 고정값: 스펙 errorCodes 기반 + 고정 시계
+const clock = new FakeClock("2025-08-07T12:30:00.123Z");
+const errors = createErrorFactory(SPEC_KEY, { now: clock.now });
+
+// live 의 시계 제어 호출은 기록기·인증 인터셉터가 없는 인스턴스로 보낸다
+const clockHttp = axios.create({ adapter: "http" });
+
+/** mock 은 FakeClock, live(로컬 목 서버)는 /__mock/clock 으로 시계를 앞당긴다 */
+const advanceClock = async (by: Duration) =>
+  isLiveTarget()
+    ? advanceMockServerClock(baseURL!, by, clockHttp)
+    : clock.advance(by);
+
+// live 모드는 서버가 만든 본문(timestamp·message 가 다름) → status·errorCode 만 비교
+const expectedError = (body: { status: string; errorCode?: string }) =>
+  isLiveTarget() ? { status: body.status, errorCode: body.errorCode } : body;
+
+/** live 모드는 menu/select 로 실제 예약을 만들어 reservationId 를 바꾼다 (기록은 비움) */
+const withReservation = async <
+  T extends { reservationId: string; memberNo: string }
+>(
+  payload: T
+): Promise<T> => {
+  if (!isLiveTarget()) return payload;
+  const reserved = await client.call("POST_/api/v1/menu/select", {
+    menuId: "menu_001",
+    quantity: 1,
+    shopId: "shop_001",
+    memberNo: payload.memberNo,
+  });
+  recorder.clear();
+  return { ...payload, reservationId: reserved.data.data.reservationId };
 };
 
 describe("POST /api/v1/order/create", () => {
   describe("검증", () => {
-    it.each([
-      {
-        field: "reservationId",
-        payload: {
-          memberNo: "member_123",
-        },
-      },
-      {
-        field: "memberNo",
-        payload: {
-          reservationId: "RSV_A7K9M2X8",
-        },
-      },
-    ])("OC | PRE | 검증 | 필수값($field) 누락 — 요청 차단", ({ payload }) => {
-      // when & then
-      expect(() => validateOrderCreateRequest(payload)).toThrow();
-      expect(mockedAxios.post).not.toHaveBeenCalled();
-    });
+    // requestBodySchema 에서 생성 → 스펙에 필드가 추가되면 케이스도 자동 추가
+    it.each(negativeCases(SPEC_KEY))(
+      "OC | PRE | 검증 | 스키마 위반($label) — 요청 차단",
+      ({ payload, pointer, keyword }) => {
+        // when
+        const violations = validateSpecRequest(SPEC_KEY, payload);
+
+        // then
+        expect(violations).toEqual([
+          { pointer, keyword, message: expect.any(String) },
+        ]);
+        expect(recorder.count).toBe(0);
+      }
+    );
   });
 
   describe("성공", () => {
     it("OC | 200 | 성공 | 주문 생성 성공", async () => {
       // given
-      const payload = {
+      const payload = await withReservation({
         reservationId: "RSV_A7K9M2X8",
         memberNo: "member_123",
-      };
+      });
       const successResponse = {
         status: "SUCCESS",
         message: "주문이 성공적으로 생성되었습니다",
@@ -127,38 +132,44 @@ describe("POST /api/v1/order/create", () => {
           },
         },
       };
-      mockSuccess(mockedAxios.post, successResponse);
+      mockSuccess(endpoint, successResponse);
 
       // when
-      expect(() => validateOrderCreateRequest(payload)).not.toThrow();
-      const response = await axios.post(ROUTE, payload);
+      expect(validateSpecRequest(SPEC_KEY, payload)).toEqual([]);
+      const response = await client.call(SPEC_KEY, payload);
 
       // then
-      expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+      expect(recorder.count).toBe(1);
+      expect(recorder).toHaveSentRequest({
+        route: SPEC_KEY,
+        headers: {
+          Authorization: expect.stringMatching(/^Bearer .+/),
+          "Content-Type": "application/json;charset=UTF-8",
+        },
+      });
       expect(response.status).toBe(200);
-      expect(response.data).toEqual(successResponse);
+      expect(response.data).toMatchObject({
+        status: "SUCCESS",
+        data: {
+          reservationId: payload.reservationId,
+          memberInfo: { memberNo: payload.memberNo },
+        },
+      });
 
-      const validatedData = successResponseSchema.parse(response.data);
-      expect(validatedData.data.orderNo).toMatch(/^[A-Z0-9]{8}$/);
-      expect(validatedData.data.orderStatus).toBe("INITIALIZING");
+      expect(() => responseSchema.parse(response.data)).not.toThrow();
+      expect(response.data.status).toBe("SUCCESS");
+      expect(response.data.data.orderNo).toMatch(/^[A-Z0-9]{8}$/);
+      expect(response.data.data.orderStatus).toBe("INITIALIZING");
 
-      const timestamp = new Date(response.data.timestamp);
-      const createdAt = new Date(response.data.data.createdAt);
-      const diffSeconds = Math.abs(
-        (createdAt.getTime() - timestamp.getTime()) / 1000
+      assertDuration(
+        ["timestamp", response.data.timestamp],
+        ["createdAt", response.data.data.createdAt],
+        0
       );
-      expect(diffSeconds).toBeLessThanOrEqual(1.5);
     });
 
     it("OC | 200 | 성공 | menu-select → order-create — 연속 호출 성공", async () => {
       // given
-      const menuSelectSpec = apiSpec["POST_/api/v1/menu/select"];
-      const menuSelectPayload = {
-        menuId: "menu_001",
-        quantity: 2,
-        shopId: "shop_001",
-        memberNo: "member_123",
-      };
       const menuSelectResponse = {
         status: "SUCCESS",
         message: "메뉴 예약이 완료되었습니다",
@@ -170,20 +181,6 @@ describe("POST /api/v1/order/create", () => {
           quantity: 2,
         },
       };
-      mockSuccess(mockedAxios.post, menuSelectResponse);
-
-      // when
-      const menuSelectResult = await axios.post(
-        `${baseURL}${menuSelectSpec.restfulUrl}`,
-        menuSelectPayload
-      );
-      const reservationId = menuSelectResult.data.data.reservationId;
-
-      // given
-      const orderCreatePayload = {
-        reservationId,
-        memberNo: menuSelectPayload.memberNo,
-      };
       const orderCreateResponse = {
         status: "SUCCESS",
         message: "주문이 성공적으로 생성되었습니다",
@@ -191,32 +188,66 @@ describe("POST /api/v1/order/create", () => {
         data: {
           orderNo: "R7X9K2M8",
           orderStatus: "INITIALIZING",
-          reservationId,
+          reservationId: "RSV_A7K9M2X8",
           createdAt: "2025-08-07T12:30:00.123Z",
           memberInfo: {
             memberNo: "member_123",
           },
         },
       };
-      mockSuccess(mockedAxios.post, orderCreateResponse);
+      mockSuccess(menuSelect, menuSelectResponse);
+      mockSuccess(endpoint, orderCreateResponse);
+
+      const lifecycle = flow("menu-select → order-create", {
+        memberNo: "member_123",
+      })
+        .step("POST_/api/v1/menu/select", {
+          body: {
+            menuId: "menu_001",
+            quantity: 2,
+            shopId: "shop_001",
+            memberNo: "{{memberNo}}",
+          },
+          extract: { reservationId: "$.data.reservationId" },
+        })
+        .step(SPEC_KEY, {
+          body: {
+            reservationId: "{{reservationId}}",
+            memberNo: "{{memberNo}}",
+          },
+          expect: { equals: { "$.data.reservationId": "{{reservationId}}" } },
+        });
 
       // when
-      const orderCreateResult = await axios.post(ROUTE, orderCreatePayload);
+      const result = await lifecycle.run({ client });
 
       // then
-      expect(mockedAxios.post).toHaveBeenCalledTimes(2);
-      expect(menuSelectResult.data.data.reservationId).toBe(reservationId);
-      expect(orderCreateResult.status).toBe(200);
-      expect(orderCreateResult.data.data.reservationId).toBe(reservationId);
+      expect(recorder.count).toBe(2);
+      expect(result.vars.reservationId).toBe(
+        result.steps[0].data.data.reservationId
+      );
+      expect(recorder).toHaveSentRequest({
+        nth: 2,
+        route: SPEC_KEY,
+        data: {
+          reservationId: result.vars.reservationId,
+          memberNo: "member_123",
+        },
+      });
+      expect(result.steps[1].status).toBe(200);
+      assertMonotonic(
+        ["menu-select timestamp", result.steps[0].data.timestamp],
+        ["createdAt", result.steps[1].data.data.createdAt]
+      );
     });
 
     it("OC | 200 | 성공 | 멱등 (동일키/동일바디) — 동일 orderNo 반환", async () => {
-      // given
-      const payload = {
+      // given — live 는 실행마다 예약이 달라 키도 새로 만든다
+      const payload = await withReservation({
         reservationId: "RSV_A7K9M2X8",
         memberNo: "member_123",
-      };
-      const idempotencyKey = "idempotency-key-12345";
+      });
+      const idempotencyKey = generateIdempotencyKey();
       const headers = {
         "x-idempotency-key": idempotencyKey,
       };
@@ -234,39 +265,32 @@ describe("POST /api/v1/order/create", () => {
           },
         },
       };
-      mockSuccess(mockedAxios.post, successResponse, true);
+      mockSuccess(endpoint, successResponse, true);
 
       // when
-      const response1 = await axios.post(ROUTE, payload, { headers });
-      const response2 = await axios.post(ROUTE, payload, { headers });
+      const response1 = await client.call(SPEC_KEY, payload, { headers });
+      const response2 = await client.call(SPEC_KEY, payload, { headers });
 
       // then
-      expect(mockedAxios.post).toHaveBeenCalledTimes(2);
-      expect(mockedAxios.post).toHaveBeenNthCalledWith(
-        1,
-        ROUTE,
-        payload,
-        expect.objectContaining({
-          headers: expect.objectContaining({
-            "x-idempotency-key": idempotencyKey,
-          }),
-        })
-      );
-      expect(mockedAxios.post).toHaveBeenNthCalledWith(
-        2,
-        ROUTE,
-        payload,
-        expect.objectContaining({
-          headers: expect.objectContaining({
-            "x-idempotency-key": idempotencyKey,
-          }),
-        })
-      );
+      expect(recorder.count).toBe(2);
+      expect(recorder).toHaveSentRequest({
+        nth: 1,
+        route: SPEC_KEY,
+        data: payload,
+        headers: { "x-idempotency-key": idempotencyKey },
+      });
+      expect(recorder).toHaveSentRequest({
+        nth: 2,
+        route: SPEC_KEY,
+        data: payload,
+        headers: { "x-idempotency-key": idempotencyKey },
+      });
       expect(response1.data.data.orderNo).toBe(response2.data.data.orderNo);
-      expect(response1.data.data.orderNo).toBe("R7X9K2M8");
+      expect(response1.data.data.orderNo).toMatch(/^[A-Z0-9]{8}$/);
     });
   });
 
+  // 서버 상태로 재현할 수 없는 실패(만료 토큰·권한·재고·예약 만료·레이트리밋)는 fixture 전용 → live 에서 건너뜀
   describe("실패", () => {
     it("OC | 400 | 실패 | Content-Type 오류", async () => {
       // given
@@ -274,8 +298,8 @@ describe("POST /api/v1/order/create", () => {
       const headers = {
         "Content-Type": "application/x-www-form-urlencoded",
       };
-      const errorResponse = buildErrorResponseFromCode("INVALID_REQUEST");
-      mockError(mockedAxios.post, 400, errorResponse);
+      const errorResponse = errors.build("INVALID_REQUEST");
+      mockError(endpoint, 400, errorResponse);
 
       // when & then
       await expect(
@@ -284,83 +308,96 @@ describe("POST /api/v1/order/create", () => {
         })
       ).rejects.toMatchObject({
         isAxiosError: true,
-        response: { status: 400, data: errorResponse },
+        response: { status: 400, data: expectedError(errorResponse) },
       });
-      expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+      expect(recorder.count).toBe(1);
     });
 
+    it.each(negativeCases(SPEC_KEY))(
+      "OC | 400 | 실패 | 스키마 위반($label)",
+      async ({ payload }) => {
+        // given
+        const errorResponse = errors.build("INVALID_REQUEST");
+        mockError(endpoint, 400, errorResponse);
+
+        // when & then — PRE 게이트를 건너뛰고 대상 서버가 본문만으로 400 을 내는지 확인
+        await expect(
+          client.callRaw(SPEC_KEY, payload, { skipValidation: true })
+        ).rejects.toMatchObject({
+          isAxiosError: true,
+          response: { status: 400, data: expectedError(errorResponse) },
+        });
+        expect(recorder).toHaveSentRequest({
+          route: SPEC_KEY,
+          data: payload,
+          status: 400,
+        });
+      }
+    );
+
     it("OC | 401 | 실패 | 토큰 누락", async () => {
       // given
       const payload = {
         reservationId: "RSV_A7K9M2X8",
         memberNo: "member_123",
       };
-      const headers = { "x-skip-auth": true };
-      const errorResponse = buildErrorResponseFromCode("UNAUTHORIZED");
-      mockError(mockedAxios.post, 401, errorResponse);
+      const errorResponse = errors.build("UNAUTHORIZED");
+      mockError(endpoint, 401, errorResponse);
 
       // when & then
       await expect(
-        axios.post(ROUTE, payload, {
-          headers,
-        })
+        client.call(SPEC_KEY, payload, { skipAuth: true })
       ).rejects.toMatchObject({
         isAxiosError: true,
-        response: { status: 401, data: errorResponse },
+        response: { status: 401, data: expectedError(errorResponse) },
       });
-      expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+      expect(recorder.count).toBe(1);
     });
 
-    it("OC | 401 | 실패 | 토큰 만료", async () => {
+    it.skipIf(isLiveTarget())("OC | 401 | 실패 | 토큰 만료", async () => {
       // given
       const payload = {
         reservationId: "RSV_A7K9M2X8",
         memberNo: "member_123",
       };
-      const errorResponse = buildErrorResponseFromCode("UNAUTHORIZED");
-      mockError(mockedAxios.post, 401, errorResponse);
+      const errorResponse = errors.build("UNAUTHORIZED");
+      mockError(endpoint, 401, errorResponse);
 
       // when & then
-      await expect(axios.post(ROUTE, payload)).rejects.toMatchObject({
+      await expect(client.call(SPEC_KEY, payload)).rejects.toMatchObject({
         isAxiosError: true,
-        response: { status: 401, data: errorResponse },
+        response: { status: 401, data: expectedError(errorResponse) },
       });
-      expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+      expect(recorder.count).toBe(1);
     });
 
-    it("OC | 403 | 실패 | 권한 부족", async () => {
-      // given
-      const payload = {
-        reservationId: "RSV_A7K9M2X8",
-        memberNo: "member_123",
-      };
-      const errorResponse = buildErrorResponseFromCode("FORBIDDEN");
-      mockError(mockedAxios.post, 403, errorResponse);
-
-      // when & then
-      await expect(axios.post(ROUTE, payload)).rejects.toMatchObject({
-        isAxiosError: true,
-        response: { status: 403, data: errorResponse },
-      });
-      expect(mockedAxios.post).toHaveBeenCalledTimes(1);
-    });
-
-    it("OC | 422 | 실패 | 예약 만료 (5분 초과)", async () => {
-      // given
-      const payload = {
-        reservationId: "RSV_A7K9M2X8",
-        memberNo: "member_123",
-      };
-      const errorResponse = buildErrorResponseFromCode("RESERVATION_EXPIRED");
-      mockError(mockedAxios.post, 422, errorResponse);
-
-      // when & then
-      await expect(axios.post(ROUTE, payload)).rejects.toMatchObject({
-        isAxiosError: true,
-        response: { status: 422, data: errorResponse },
-      });
-      expect(mockedAxios.post).toHaveBeenCalledTimes(1);
-    });
+    // 배포 환경은 OAUTH_PRINCIPALS 에 noScope 주체가 있을 때만 실행
+    it.skipIf(isLiveTarget() && !hasPrincipal("noScope"))(
+      "OC | 403 | 실패 | 권한 부족",
+      async () => {
+        // given — scope 가 없는 noScope 주체로 호출
+        const payload = {
+          reservationId: "RSV_A7K9M2X8",
+          memberNo: "member_123",
+        };
+        const errorResponse = errors.build("FORBIDDEN");
+        mockError(endpoint, 403, errorResponse);
+
+        // when & then
+        await expect(
+          client.call(SPEC_KEY, payload, { principal: "noScope" })
+        ).rejects.toMatchObject({
+          isAxiosError: true,
+          response: { status: 403, data: expectedError(errorResponse) },
+        });
+        // live 는 토큰 발급 요청도 기록되므로 스펙 경로만 센다
+        expect(recorder).toHaveSentRequest({
+          route: SPEC_KEY,
+          status: 403,
+          times: 1,
+        });
+      }
+    );
 
     it("OC | 404 | 실패 | 유효하지 않은 예약", async () => {
       // given
@@ -368,45 +405,45 @@ describe("POST /api/v1/order/create", () => {
         reservationId: "unknown_reservation_id",
         memberNo: "member_123",
       };
-      const errorResponse = buildErrorResponseFromCode("INVALID_RESERVATION");
-      mockError(mockedAxios.post, 404, errorResponse);
+      const errorResponse = errors.build("INVALID_RESERVATION");
+      mockError(endpoint, 404, errorResponse);
 
       // when & then
-      await expect(axios.post(ROUTE, payload)).rejects.toMatchObject({
+      await expect(client.call(SPEC_KEY, payload)).rejects.toMatchObject({
         isAxiosError: true,
-        response: { status: 404, data: errorResponse },
+        response: { status: 404, data: expectedError(errorResponse) },
       });
-      expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+      expect(recorder.count).toBe(1);
     });
 
-    it("OC | 409 | 실패 | 예약 후 재료 소진", async () => {
+    it.skipIf(isLiveTarget())(
+      "OC | 409 | 실패 | 예약 후 재료 소진",
+      async () => {
+        // given
+        const payload = {
+          reservationId: "RSV_A7K9M2X8",
+          memberNo: "member_123",
+        };
+        const errorResponse = errors.build("INGREDIENTS_EXHAUSTED", {
+          message: "예약 후 재료가 소진되었습니다",
+        });
+        mockError(endpoint, 409, errorResponse);
+
+        // when & then
+        await expect(client.call(SPEC_KEY, payload)).rejects.toMatchObject({
+          isAxiosError: true,
+          response: { status: 409, data: expectedError(errorResponse) },
+        });
+        expect(recorder.count).toBe(1);
+      }
+    );
+
+    it("OC | 409 | 실패 | 중복 주문 - reservationId 재사용", async () => {
       // given
-      const payload = {
+      const payload = await withReservation({
         reservationId: "RSV_A7K9M2X8",
         memberNo: "member_123",
-      };
-      const errorResponse = {
-        status: "ERROR",
-        message: "예약 후 재료가 소진되었습니다",
-        errorCode: "INGREDIENTS_EXHAUSTED",
-        timestamp: "2025-08-07T12:35:00.123Z",
-      };
-      mockError(mockedAxios.post, 409, errorResponse);
-
-      // when & then
-      await expect(axios.post(ROUTE, payload)).rejects.toMatchObject({
-        isAxiosError: true,
-        response: { status: 409, data: errorResponse },
       });
-      expect(mockedAxios.post).toHaveBeenCalledTimes(1);
-    });
-
-    it("OC | 409 | 실패 | 중복 주문  - reservationId 재사용", async () => {
-      // given
-      const payload = {
-        reservationId: "RSV_A7K9M2X8",
-        memberNo: "member_123",
-      };
       const successResponse = {
         status: "SUCCESS",
         message: "주문이 성공적으로 생성되었습니다",
@@ -421,33 +458,33 @@ describe("POST /api/v1/order/create", () => {
           },
         },
       };
-      const errorResponse = buildErrorResponseFromCode("DUPLICATE_ORDER");
-      mockSuccess(mockedAxios.post, successResponse);
-      mockError(mockedAxios.post, 409, errorResponse);
+      const errorResponse = errors.build("DUPLICATE_ORDER");
+      mockSuccess(endpoint, successResponse);
+      mockError(endpoint, 409, errorResponse);
 
       // when
-      const firstResponse = await axios.post(ROUTE, payload);
-      await expect(axios.post(ROUTE, payload)).rejects.toMatchObject({
+      const firstResponse = await client.call(SPEC_KEY, payload);
+      await expect(client.call(SPEC_KEY, payload)).rejects.toMatchObject({
         isAxiosError: true,
-        response: { status: 409, data: errorResponse },
+        response: { status: 409, data: expectedError(errorResponse) },
       });
 
       // then
-      expect(mockedAxios.post).toHaveBeenCalledTimes(2);
+      expect(recorder.count).toBe(2);
       expect(firstResponse.status).toBe(200);
     });
 
     it("OC | 409 | 실패 | 멱등 (동일키/다른바디)", async () => {
       // given
-      const payload1 = {
+      const payload1 = await withReservation({
         reservationId: "RSV_A7K9M2X8",
         memberNo: "member_123",
-      };
+      });
       const payload2 = {
         reservationId: "RSV_DIFFERENT_ID",
         memberNo: "member_123",
       };
-      const idempotencyKey = "idempotency-key-12345";
+      const idempotencyKey = generateIdempotencyKey();
       const headers = {
         "x-idempotency-key": idempotencyKey,
       };
@@ -465,86 +502,132 @@ describe("POST /api/v1/order/create", () => {
           },
         },
       };
-      const errorResponse = buildErrorResponseFromCode("IDEMP_CONFLICT");
-      mockSuccess(mockedAxios.post, successResponse);
-      mockError(mockedAxios.post, 409, errorResponse, {
-        code: "ERR_BAD_RESPONSE",
-        message: "Request failed with status code 409",
-      });
+      const errorResponse = errors.build("IDEMP_CONFLICT");
+      mockSuccess(endpoint, successResponse);
+      mockError(endpoint, 409, errorResponse);
 
       // when
-      const response1 = await axios.post(ROUTE, payload1, { headers });
+      const response1 = await client.call(SPEC_KEY, payload1, { headers });
       await expect(
-        axios.post(ROUTE, payload2, {
+        client.call(SPEC_KEY, payload2, {
           headers,
         })
       ).rejects.toMatchObject({
         isAxiosError: true,
-        response: { status: 409, data: errorResponse },
+        response: { status: 409, data: expectedError(errorResponse) },
       });
 
       // then
-      expect(mockedAxios.post).toHaveBeenCalledTimes(2);
-      expect(response1.data.data.orderNo).toBe("R7X9K2M8");
+      expect(recorder.count).toBe(2);
+      expect(response1.data.data.orderNo).toMatch(/^[A-Z0-9]{8}$/);
     });
 
-    it("OC | 429 | 실패 | 요청 한도 초과 - Retry-After=60s 반환", async () => {
-      // given
-      const payload = {
-        reservationId: "RSV_A7K9M2X8",
-        memberNo: "member_123",
-      };
-      const errorResponse = buildErrorResponseFromCode("RATE_LIMIT_EXCEEDED");
-      mockError(mockedAxios.post, 429, errorResponse, {
-        headers: { "retry-after": "60" },
-      });
-
-      // when & then
-      await expect(axios.post(ROUTE, payload)).rejects.toMatchObject({
-        isAxiosError: true,
-        response: {
-          status: 429,
-          data: errorResponse,
+    // 시계 제어 경로가 없는 배포 환경만 건너뛴다
+    it.skipIf(isLiveTarget() && !isMockServerEnabled())(
+      "OC | 422 | 실패 | 예약 만료 (5분 초과)",
+      async () => {
+        // given — 예약 후 만료 시각(5분)을 1ms 넘긴다
+        mockSuccess(menuSelect, {
+          status: "SUCCESS",
+          message: "메뉴 예약이 완료되었습니다",
+          timestamp: "2025-08-07T12:30:00.123Z",
+          data: {
+            reservationId: "RSV_A7K9M2X8",
+            reservationExpiresAt: "2025-08-07T12:35:00.123Z",
+            menuId: "menu_001",
+            quantity: 1,
+          },
+        });
+        const reserved = await client.call("POST_/api/v1/menu/select", {
+          menuId: "menu_001",
+          quantity: 1,
+          shopId: "shop_001",
+          memberNo: "member_123",
+        });
+        const { reservationId, reservationExpiresAt } = reserved.data.data;
+
+        try {
+          const now = await advanceClock({ minutes: 5, ms: 1 });
+          assertMonotonic(
+            ["reservationExpiresAt", reservationExpiresAt],
+            ["now", now.toISOString()]
+          );
+          const errorResponse = errors.build("RESERVATION_EXPIRED");
+          mockError(endpoint, 422, errorResponse);
+
+          // when & then
+          await expect(
+            client.call(SPEC_KEY, { reservationId, memberNo: "member_123" })
+          ).rejects.toMatchObject({
+            isAxiosError: true,
+            response: { status: 422, data: expectedError(errorResponse) },
+          });
+          expect(recorder.count).toBe(2);
+        } finally {
+          if (isLiveTarget()) await resetMockServerClock(baseURL!, clockHttp);
+        }
+      }
+    );
+
+    it.skipIf(isLiveTarget())(
+      "OC | 429 | 실패 | 요청 한도 초과 - Retry-After=60s 반환",
+      async () => {
+        // given
+        const payload = {
+          reservationId: "RSV_A7K9M2X8",
+          memberNo: "member_123",
+        };
+        const errorResponse = errors.build("RATE_LIMIT_EXCEEDED");
+        mockError(endpoint, 429, errorResponse, {
           headers: { "retry-after": "60" },
-        },
-      });
-      expect(mockedAxios.post).toHaveBeenCalledTimes(1);
-    });
+        });
+
+        // when & then
+        await expect(client.call(SPEC_KEY, payload)).rejects.toMatchObject({
+          isAxiosError: true,
+          response: {
+            status: 429,
+            data: expectedError(errorResponse),
+            headers: { "retry-after": "60" },
+          },
+        });
+        expect(recorder.count).toBe(1);
+      }
+    );
 
-    it("OC | ERR | 실패 | 요청 타임아웃", async () => {
+    it.skipIf(isLiveTarget())("OC | ERR | 실패 | 요청 타임아웃", async () => {
       // given
       const payload = {
         reservationId: "RSV_A7K9M2X8",
         memberNo: "member_123",
       };
-      mockNetworkError(
-        mockedAxios.post,
-        "ECONNABORTED",
-        "timeout of 5000ms exceeded"
-      );
+      mockNetworkError(endpoint, "ECONNABORTED", "timeout of 5000ms exceeded");
 
       // when & then
-      await expect(axios.post(ROUTE, payload)).rejects.toMatchObject({
+      await expect(client.call(SPEC_KEY, payload)).rejects.toMatchObject({
         isAxiosError: true,
         code: "ECONNABORTED",
       });
-      expect(mockedAxios.post).toHaveBeenCalledTimes(1);
+      expect(recorder.count).toBe(1);
     });
 
-    it("OC | ERR | 실패 | 네트워크 연결 실패", async () => {
-      // given
-      const payload = {
-        reservationId: "RSV_A7K9M2X8",
-        memberNo: "member_123",
-      };
-      mockNetworkError(mockedAxios.post, "ENETUNREACH", "Network unreachable");
-
-      // when & then
-      await expect(axios.post(ROUTE, payload)).rejects.toMatchObject({
-        isAxiosError: true,
-        code: "ENETUNREACH",
-      });
-      expect(mockedAxios.post).toHaveBeenCalledTimes(1);
-    });
+    it.skipIf(isLiveTarget())(
+      "OC | ERR | 실패 | 네트워크 연결 실패",
+      async () => {
+        // given
+        const payload = {
+          reservationId: "RSV_A7K9M2X8",
+          memberNo: "member_123",
+        };
+        mockNetworkError(endpoint, "ENETUNREACH", "Network unreachable");
+
+        // when & then
+        await expect(client.call(SPEC_KEY, payload)).rejects.toMatchObject({
+          isAxiosError: true,
+          code: "ENETUNREACH",
+        });
+        expect(recorder.count).toBe(1);
+      }
+    );
   });
 });
@@ -0,0 +1,190 @@
+import { describe, expect, it } from "vitest";
+
+import type { JsonSchema } from "../utils/api-spec";
+import {
+  boundaryCases,
+  negativeCases,
+  requestBodyCases,
+  schemaCases,
+} from "../utils/request-cases";
+import { validateSchema, validateSpecRequest } from "../utils/spec-validator";
+
+const MENU_SELECT = "POST_/api/v1/menu/select" as const;
+
+describe("request-cases", () => {
+  it("menu/select — 필드별 전체 매트릭스와 라벨", () => {
+    // when
+    const cases = requestBodyCases(MENU_SELECT);
+
+    // then
+    expect(cases.map((c) => c.label)).toEqual([
+      "menuId 누락",
+      "menuId = null",
+      "menuId = 123 (string 아님)",
+      'menuId = ""',
+      "quantity 누락",
+      "quantity = null",
+      'quantity = "2" (integer 아님)',
+      "quantity = 1.5 (정수 아님)",
+      "quantity = 0 (minimum - 1)",
+      "quantity = 1 (minimum)",
+      "quantity = 100 (maximum + 1)",
+      "quantity = 99 (maximum)",
+      "shopId 누락",
+      "shopId = null",
+      "shopId = 123 (string 아님)",
+      'shopId = ""',
+      "memberNo 누락",
+      "memberNo = null",
+      "memberNo = 123 (string 아님)",
+      'memberNo = ""',
+      "허용되지 않는 필드(unexpectedField) 추가",
+    ]);
+    expect(cases.find((c) => c.label === "quantity 누락")).toEqual({
+      label: "quantity 누락",
+      kind: "required",
+      pointer: "/quantity",
+      payload: {
+        menuId: "menu_001",
+        shopId: "shop_001",
+        memberNo: "member_123",
+      },
+      keyword: "required",
+    });
+  });
+
+  it("음수 케이스 — spec-validator 가 pointer 에 keyword 하나만 보고", () => {
+    // given
+    const cases = negativeCases(MENU_SELECT);
+
+    // when
+    const reported = cases.map((c) =>
+      validateSpecRequest(MENU_SELECT, c.payload)
+    );
+
+    // then
+    expect(cases).toHaveLength(19);
+    reported.forEach((violations, i) => {
+      const { pointer, keyword } = cases[i];
+      expect(violations).toEqual([
+        { pointer, keyword, message: expect.any(String) },
+      ]);
+    });
+    expect(
+      cases
+        .filter((c) => c.kind === "required")
+        .map((c) => validateSpecRequest(MENU_SELECT, c.payload)[0].message)
+    ).toEqual([
+      "menuId는 필수값입니다",
+      "quantity는 필수값입니다",
+      "shopId는 필수값입니다",
+      "memberNo는 필수값입니다",
+    ]);
+  });
+
+  it("경계값 — minimum/maximum 자체는 통과, minLength 있는 빈 문자열은 음수 케이스", () => {
+    // when
+    const cases = boundaryCases(MENU_SELECT);
+    const emptyStrings = negativeCases(MENU_SELECT).filter(
+      (c) => c.kind === "emptyString"
+    );
+
+    // then
+    expect(cases.map((c) => c.kind)).toEqual(["minimum", "maximum"]);
+    for (const c of cases) {
+      expect(validateSpecRequest(MENU_SELECT, c.payload)).toEqual([]);
+    }
+    expect(emptyStrings.map((c) => [c.pointer, c.keyword])).toEqual([
+      ["/menuId", "minLength"],
+      ["/shopId", "minLength"],
+      ["/memberNo", "minLength"],
+    ]);
+    expect(
+      validateSpecRequest(MENU_SELECT, emptyStrings[0].payload)[0].message
+    ).toBe("menuId는 1자 이상이어야 합니다");
+  });
+
+  it("중첩 객체·enum·pattern — 경로 라벨과 빈 문자열 keyword", () => {
+    // given
+    const schema: JsonSchema = {
+      type: "object",
+      required: ["member"],
+      properties: {
+        member: {
+          type: "object",
+          additionalProperties: false,
+          required: ["grade"],
+          properties: {
+            grade: { type: "string", enum: ["VIP", "NORMAL"] },
+            code: { type: "string", pattern: "^M\\d+$" },
+            verified: { type: "boolean" },
+          },
+        },
+      },
+    };
+    const base = { member: { grade: "VIP", code: "M1", verified: true } };
+
+    // when
+    const cases = schemaCases(schema, base);
+
+    // then
+    expect(
+      cases.map(({ label, pointer, keyword }) => ({ label, pointer, keyword }))
+    ).toEqual([
+      { label: "member 누락", pointer: "/member", keyword: "required" },
+      { label: "member = null", pointer: "/member", keyword: "type" },
+      {
+        label: 'member = "object" (object 아님)',
+        pointer: "/member",
+        keyword: "type",
+      },
+      {
+        label: "member.grade 누락",
+        pointer: "/member/grade",
+        keyword: "required",
+      },
+      {
+        label: "member.grade = null",
+        pointer: "/member/grade",
+        keyword: "type",
+      },
+      {
+        label: "member.grade = 123 (string 아님)",
+        pointer: "/member/grade",
+        keyword: "type",
+      },
+      { label: 'member.grade = ""', pointer: "/member/grade", keyword: "enum" },
+      { label: "member.code = null", pointer: "/member/code", keyword: "type" },
+      {
+        label: "member.code = 123 (string 아님)",
+        pointer: "/member/code",
+        keyword: "type",
+      },
+      {
+        label: 'member.code = ""',
+        pointer: "/member/code",
+        keyword: "pattern",
+      },
+      {
+        label: "member.verified = null",
+        pointer: "/member/verified",
+        keyword: "type",
+      },
+      {
+        label: 'member.verified = "true" (boolean 아님)',
+        pointer: "/member/verified",
+        keyword: "type",
+      },
+      {
+        label: "허용되지 않는 필드(member.unexpectedField) 추가",
+        pointer: "/member/unexpectedField",
+        keyword: "additionalProperties",
+      },
+    ]);
+    for (const c of cases) {
+      expect(validateSchema(c.payload, schema)).toEqual([
+        expect.objectContaining({ pointer: c.pointer, keyword: c.keyword }),
+      ]);
+    }
+  });
+});
@@ -0,0 +1,210 @@
+import axios, { AxiosError, type InternalAxiosRequestConfig } from "axios";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+
+import { setupAuthHeader } from "../utils/axios-bearer-auth";
+import { FakeClock } from "../utils/clock";
+import { IDEMPOTENCY_HEADER } from "../utils/idempotency";
+import { HttpLogger, type LoggerTransport } from "../utils/logger";
+import { MockApiServer } from "../utils/mock-server";
+import {
+  backoffDelay,
+  parseRetryAfter,
+  setupRetry,
+  type RetryOptions,
+} from "../utils/retry";
+
+const MENU_SELECT = "/api/v1/menu/select";
+const selectPayload = {
+  menuId: "menu_001",
+  quantity: 1,
+  shopId: "shop_001",
+  memberNo: "member_123",
+};
+
+const clock = new FakeClock("2025-08-07T12:30:00.000Z");
+const server = new MockApiServer({
+  now: clock.now,
+  rateLimit: { limit: 1, windowMs: 2_000 },
+});
+let baseURL: string;
+
+beforeAll(async () => {
+  baseURL = await server.start();
+});
+
+afterAll(async () => {
+  await server.stop();
+});
+
+beforeEach(() => {
+  clock.reset();
+  server.reset();
+});
+
+const captureLogger = () => {
+  const lines: string[] = [];
+  const transport: LoggerTransport = {
+    info: (msg) => lines.push(msg),
+    error: () => {},
+  };
+  const logger = new HttpLogger(transport, () => "INFO");
+  const retries = () =>
+    lines.map((line) => JSON.parse(line)).filter((e) => e.type === "RETRY");
+  return { logger, retries };
+};
+
+/** 대기 대신 FakeClock 을 전진시키고 요청한 지연을 기록 */
+const retryClient = (options: RetryOptions = {}) => {
+  const delays: number[] = [];
+  const http = axios.create({ baseURL });
+  setupAuthHeader(http, "mock-server-token");
+  setupRetry(http, {
+    sleep: async (ms) => {
+      delays.push(ms);
+      clock.advance(ms);
+    },
+    now: clock.now,
+    logger: captureLogger().logger,
+    ...options,
+  });
+  return { http, delays };
+};
+
+/** 응답 없이 code 로 실패하다가 failures 회 이후 200 */
+const flakyAdapter = (code: string, failures: number) => {
+  const seen: string[] = [];
+  const adapter = async (config: InternalAxiosRequestConfig) => {
+    seen.push(String(config.url));
+    if (seen.length <= failures) {
+      throw new AxiosError("network down", code, config, {});
+    }
+    return { data: {}, status: 200, statusText: "OK", headers: {}, config };
+  };
+  return { adapter, seen };
+};
+
+describe("retry", () => {
+  it("Retry-After — 초/HTTP-date/과거 시각/해석 불가", () => {
+    // given
+    const now = () => new Date("2025-08-07T12:30:00.000Z");
+
+    // when & then
+    expect(parseRetryAfter("3", now)).toBe(3_000);
+    expect(parseRetryAfter("Thu, 07 Aug 2025 12:30:05 GMT", now)).toBe(5_000);
+    expect(parseRetryAfter("Thu, 07 Aug 2025 12:29:00 GMT", now)).toBe(0);
+    expect(parseRetryAfter("soon", now)).toBeUndefined();
+    expect(parseRetryAfter(undefined, now)).toBeUndefined();
+  });
+
+  it("지수 백오프 — 지터 범위 [d/2, d), 상한 적용", () => {
+    // given
+    const policy = { baseDelayMs: 100, maxDelayMs: 1_000 };
+
+    // when & then
+    expect([1, 2, 3].map((n) => backoffDelay(n, policy, () => 0))).toEqual([
+      50, 100, 200,
+    ]);
+    expect(backoffDelay(3, policy, () => 0.999)).toBe(399);
+    expect(backoffDelay(10, policy, () => 0)).toBe(500);
+  });
+
+  it("429 — Retry-After 만큼 기다렸다 멱등성 키가 있는 POST 를 재시도, 시도 횟수 로그", async () => {
+    // given
+    const { logger, retries } = captureLogger();
+    const { http, delays } = retryClient({ logger });
+    await http.post(MENU_SELECT, selectPayload, {
+      headers: { [IDEMPOTENCY_HEADER]: "idem-retry-1" },
+    });
+
+    // when
+    const res = await http.post(MENU_SELECT, selectPayload, {
+      headers: { [IDEMPOTENCY_HEADER]: "idem-retry-2" },
+    });
+
+    // then
+    expect(res.status).toBe(200);
+    expect(delays).toEqual([2_000]);
+    expect(retries()).toMatchObject([
+      {
+        method: "POST",
+        attempt: "2/3",
+        delayMs: 2_000,
+        message: "HTTP 429",
+      },
+    ]);
+  });
+
+  it("429 — 멱등성 키 없는 POST 는 재시도하지 않음", async () => {
+    // given
+    const { http, delays } = retryClient();
+    await http.post(MENU_SELECT, selectPayload);
+
+    // when & then
+    await expect(http.post(MENU_SELECT, selectPayload)).rejects.toMatchObject({
+      response: { status: 429, data: { errorCode: "RATE_LIMIT_EXCEEDED" } },
+    });
+    expect(delays).toEqual([]);
+  });
+
+  it("스펙별 설정 — false 면 재시도 안 함, Retry-After 가 maxDelayMs 보다 길면 앞당기지 않고 실패", async () => {
+    // given
+    const disabled = retryClient({
+      specs: { "POST_/api/v1/menu/select": false },
+    });
+    const capped = retryClient({
+      specs: { "POST_/api/v1/menu/select": { maxDelayMs: 500, retries: 1 } },
+    });
+    const waiting = retryClient({
+      specs: { "POST_/api/v1/menu/select": { maxDelayMs: 2_000, retries: 1 } },
+    });
+    const headers = { [IDEMPOTENCY_HEADER]: "idem-retry-3" };
+    await disabled.http.post(MENU_SELECT, selectPayload);
+
+    // when
+    const rejected = disabled.http.post(MENU_SELECT, selectPayload, {
+      headers,
+    });
+
+    // then
+    await expect(rejected).rejects.toMatchObject({
+      response: { status: 429 },
+    });
+    expect(disabled.delays).toEqual([]);
+    await expect(
+      capped.http.post(MENU_SELECT, selectPayload, { headers })
+    ).rejects.toMatchObject({
+      response: { status: 429, headers: { "retry-after": "2" } },
+    });
+    expect(capped.delays).toEqual([]);
+    const res = await waiting.http.post(MENU_SELECT, selectPayload, {
+      headers,
+    });
+    expect(res.status).toBe(200);
+    expect(waiting.delays).toEqual([2_000]);
+  });
+
+  it.each(["ECONNABORTED", "ENETUNREACH"])(
+    "네트워크 오류(%s) — 백오프 후 재시도, 한도 초과 시 마지막 오류",
+    async (code) => {
+      // given
+      const ok = flakyAdapter(code, 2);
+      const exhausted = flakyAdapter(code, 5);
+      const { http, delays } = retryClient({
+        policy: { baseDelayMs: 100 },
+        random: () => 0.5,
+      });
+
+      // when
+      const res = await http.get("/any", { adapter: ok.adapter });
+
+      // then
+      expect(res.status).toBe(200);
+      expect(ok.seen).toHaveLength(3);
+      expect(delays).toEqual([75, 150]);
+      await expect(
+        http.get("/any", { adapter: exhausted.adapter })
+      ).rejects.toMatchObject({ code });
+      expect(exhausted.seen).toHaveLength(3);
+    }
+  );
+});
@@ -0,0 +1,54 @@
+import { mkdirSync, writeFileSync } from "node:fs";
+import { join, relative } from "node:path";
+import type { Reporter, TestModule } from "vitest/node";
+
+import {
+  buildCoverageReport,
+  renderCoverageMarkdown,
+  type CoveredTest,
+} from "../utils/spec-coverage";
+
+const OUT_DIR = "reports/spec-coverage";
+
+/**
+ * 스펙 ID × HTTP × ErrorCode 커버리지 매트릭스 (npm run test:spec-coverage)
+ * 선언된 ErrorCode 중 한 번도 닿지 않은 것이 있으면 실패 처리
+ */
+export default class SpecCoverageReporter implements Reporter {
+  onTestRunEnd(
+    testModules: ReadonlyArray<TestModule>,
+    _errors: unknown,
+    reason: string
+  ) {
+    if (reason === "interrupted") return;
+
+    const tests: CoveredTest[] = testModules.flatMap((mod) =>
+      [...mod.children.allTests()].map((test) => ({
+        file: relative(process.cwd(), mod.moduleId),
+        name: test.fullName,
+        hits: test.meta().specCoverage ?? [],
+      }))
+    );
+    const report = buildCoverageReport(tests);
+
+    mkdirSync(OUT_DIR, { recursive: true });
+    writeFileSync(
+      join(OUT_DIR, "spec-coverage.json"),
+      JSON.stringify(report, null, 2)
+    );
+    writeFileSync(
+      join(OUT_DIR, "spec-coverage.md"),
+      renderCoverageMarkdown(report)
+    );
+
+    if (report.uncovered.length) {
+      console.error(
+        `\n[spec-coverage] 테스트가 없는 ErrorCode ${report.uncovered.length}건:\n` +
+          report.uncovered
+            .map((u) => `  - ${u.route} ${u.status} ${u.errorCode}`)
+            .join("\n")
+      );
+      process.exitCode = 1;
+    }
+  }
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  buildCoverageReport,
+  renderCoverageMarkdown,
+} from "../utils/spec-coverage";
+
+describe("spec-coverage", () => {
+  it("선언된 ErrorCode 중 테스트가 없는 조합을 uncovered 로 보고", () => {
+    // given
+    const tests = [
+      {
+        file: "src/tests/order-create.test.ts",
+        name: "OC | 409 | 실패 | 중복 주문",
+        hits: [
+          {
+            route: "POST_/api/v1/order/create" as const,
+            status: 409,
+            errorCode: "DUPLICATE_ORDER",
+          },
+        ],
+      },
+    ];
+
+    // when
+    const report = buildCoverageReport(tests);
+
+    // then
+    expect(report.rows).toContainEqual({
+      route: "POST_/api/v1/order/create",
+      status: 409,
+      errorCode: "DUPLICATE_ORDER",
+      declared: true,
+      tests: ["src/tests/order-create.test.ts > OC | 409 | 실패 | 중복 주문"],
+    });
+    expect(report.uncovered).toContainEqual({
+      route: "POST_/api/v1/order/create",
+      status: 422,
+      errorCode: "RESERVATION_EXPIRED",
+    });
+    expect(report.uncovered).not.toContainEqual(
+      expect.objectContaining({ errorCode: "DUPLICATE_ORDER" })
+    );
+  });
+
+  it("스펙에 없는 상태/ErrorCode 조합 — declared=false 행으로 표시", () => {
+    // given
+    const tests = [
+      {
+        file: "a.test.ts",
+        name: "MS | 404 | 실패 | 잘못된 매핑",
+        hits: [
+          {
+            route: "POST_/api/v1/menu/select" as const,
+            status: 404,
+            errorCode: "INSUFFICIENT_INGREDIENTS",
+          },
+        ],
+      },
+    ];
+
+    // when
+    const report = buildCoverageReport(tests);
+    const markdown = renderCoverageMarkdown(report);
+
+    // then
+    expect(report.rows).toContainEqual(
+      expect.objectContaining({ status: 404, declared: false })
+    );
+    expect(markdown).toContain(
+      "| 404 | INSUFFICIENT_INGREDIENTS | ⚠️ | 1 | a.test.ts > MS \\| 404 \\| 실패 \\| 잘못된 매핑 |"
+    );
+    expect(markdown).toContain("## 미커버 ErrorCode");
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+
+import apiSpec from "../data/api-spec.json";
+import { formatSpecViolation, lintSpec } from "../utils/spec-lint";
+
+const MENU_SELECT = "POST_/api/v1/menu/select";
+const ORDER_CREATE = "POST_/api/v1/order/create";
+
+const clone = () => structuredClone(apiSpec) as Record<string, any>;
+
+const lint = (spec: Record<string, unknown>) =>
+  lintSpec(spec).map(({ key, pointer, rule }) => ({ key, pointer, rule }));
+
+describe("spec-lint", () => {
+  it("src/data/api-spec.json — 위반 없음", () => {
+    // when & then
+    expect(lintSpec(apiSpec).map(formatSpecViolation)).toEqual([]);
+  });
+
+  it("예시/봉투 — ERROR 예시는 에러 봉투로 검사, 미선언 errorCode, success 의 data 누락, 엔드포인트마다 다른 data 필수 여부", () => {
+    // given
+    const spec = clone();
+    const menuResponse = spec[MENU_SELECT].responseBodySchema;
+    const orderExamples = spec[ORDER_CREATE].responseBodySchema.examples;
+    menuResponse.required = menuResponse.required.filter(
+      (f: string) => f !== "data"
+    );
+    menuResponse.examples.failure.errorCode = "OUT_OF_STOCK";
+    delete orderExamples.success.data;
+    delete orderExamples.failure.timestamp;
+
+    // when
+    const violations = lint(spec);
+
+    // then
+    expect(violations).toEqual([
+      {
+        key: MENU_SELECT,
+        pointer: "/responseBodySchema/examples/failure/errorCode",
+        rule: "example",
+      },
+      {
+        key: ORDER_CREATE,
+        pointer: "/responseBodySchema/examples/success/data",
+        rule: "example",
+      },
+      {
+        key: ORDER_CREATE,
+        pointer: "/responseBodySchema/examples/failure/timestamp",
+        rule: "example",
+      },
+      {
+        key: ORDER_CREATE,
+        pointer: "/responseBodySchema/required",
+        rule: "envelope",
+      },
+    ]);
+    expect(lintSpec(spec).map((v) => v.message)).toContain(
+      "errorCode OUT_OF_STOCK 가 errorCodes 에 선언되지 않았습니다"
+    );
+  });
+
+  it("메타 스키마/키/헤더 — 구조 위반, 지원하지 않는 키워드, 키 불일치", () => {
+    // given
+    const spec = clone();
+    const entry = spec[ORDER_CREATE];
+    entry.restfulMethod = "FETCH";
+    entry.requestHeaders.order.push("x-trace-id");
+    entry.requestBodySchema.properties.memberNo.oneOf = [{ type: "string" }];
+    entry.errorCodes.push({ ErrorCode: "teapot", HttpStatus: 418 });
+    spec["POST_/api/v1/orders"] = spec[MENU_SELECT];
+
+    // when
+    const violations = lint(spec);
+
+    // then
+    expect(violations).toEqual(
+      expect.arrayContaining([
+        { key: ORDER_CREATE, pointer: "/restfulMethod", rule: "meta-schema" },
+        {
+          key: ORDER_CREATE,
+          pointer: "/errorCodes/9/ErrorCode",
+          rule: "meta-schema",
+        },
+        {
+          key: ORDER_CREATE,
+          pointer: "/errorCodes/9/Description",
+          rule: "meta-schema",
+        },
+        {
+          key: ORDER_CREATE,
+          pointer: "/requestBodySchema",
+          rule: "meta-schema",
+        },
+        { key: ORDER_CREATE, pointer: "", rule: "key" },
+        {
+          key: ORDER_CREATE,
+          pointer: "/requestHeaders/order",
+          rule: "headers",
+        },
+        { key: "POST_/api/v1/orders", pointer: "", rule: "key" },
+      ])
+    );
+    expect(lintSpec(spec).map(formatSpecViolation)).toContain(
+      "POST_/api/v1/orders# [key] 키는 restfulMethod_restfulUrl(POST_/api/v1/menu/select)이어야 합니다"
+    );
+  });
+
+  it("ErrorCode — 중복 선언, 엔드포인트 간 상태 불일치(409 vs 422), 에러 모델과 다른 상태", () => {
+    // given
+    const spec = clone();
+    const menuCodes = spec[MENU_SELECT].errorCodes;
+    const orderCodes = spec[ORDER_CREATE].errorCodes;
+    menuCodes.push({ ...menuCodes[0] });
+    orderCodes.find(
+      (e: any) => e.ErrorCode === "IDEMP_CONFLICT"
+    ).HttpStatus = 422;
+    orderCodes.push({
+      ErrorCode: "PAYMENT_NOT_FOUND",
+      HttpStatus: 400,
+      Description: "결제 없음",
+    });
+
+    // when
+    const violations = lintSpec(spec);
+
+    // then
+    expect(violations.map(formatSpecViolation)).toEqual([
+      `${MENU_SELECT}#/errorCodes/7 [error-code-duplicate] ErrorCode INVALID_REQUEST 가 중복 선언되었습니다 (errorCodes/0)`,
+      `${ORDER_CREATE}#/errorCodes/6/HttpStatus [error-code-status] IDEMP_CONFLICT 는 에러 모델상 409 이어야 합니다 (현재 422)`,
+      `${ORDER_CREATE}#/errorCodes/9/HttpStatus [error-code-status] PAYMENT_NOT_FOUND 는 에러 모델상 404 이어야 합니다 (현재 400)`,
+      `${ORDER_CREATE}#/errorCodes/6/HttpStatus [error-code-status] IDEMP_CONFLICT 가 ${MENU_SELECT} 에서는 409 인데 여기서는 422 입니다`,
+    ]);
+  });
+});
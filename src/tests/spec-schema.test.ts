@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+
+import { getSpec, specKeys } from "../utils/api-spec";
+import {
+  buildSpecSchemas,
+  compileJsonSchema,
+  renderSchemaType,
+} from "../utils/spec-schema";
+
+describe("spec-schema", () => {
+  it.each(specKeys)("%s — 스펙 예제가 컴파일된 스키마를 통과", (key) => {
+    // given
+    const spec = getSpec(key);
+    const { request, response } = buildSpecSchemas(key);
+
+    // when & then
+    expect(() => request.parse(spec.requestBodySchema.example)).not.toThrow();
+    expect(() =>
+      response.parse(spec.responseBodySchema.examples.success)
+    ).not.toThrow();
+  });
+
+  it("additionalProperties=false — 중첩 객체(memberInfo)의 미선언 필드 거부", () => {
+    // given
+    const { response } = buildSpecSchemas("POST_/api/v1/order/create");
+    const success = getSpec("POST_/api/v1/order/create").responseBodySchema
+      .examples.success;
+    const body = {
+      ...success,
+      data: {
+        ...success.data,
+        memberInfo: { ...success.data.memberInfo, grade: "VIP" },
+      },
+    };
+
+    // when
+    const result = response.safeParse(body);
+
+    // then
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0]).toMatchObject({
+      code: "unrecognized_keys",
+      path: ["data", "memberInfo"],
+    });
+  });
+
+  it.each([
+    { label: "pattern 위반", patch: { orderNo: "abc" }, path: "orderNo" },
+    { label: "enum 위반", patch: { orderStatus: "DONE" }, path: "orderStatus" },
+    {
+      label: "date-time 위반",
+      patch: { createdAt: "2025-08-07 12:30" },
+      path: "createdAt",
+    },
+  ])("$label — 응답 거부", ({ patch, path }) => {
+    // given
+    const { response } = buildSpecSchemas("POST_/api/v1/order/create");
+    const success = getSpec("POST_/api/v1/order/create").responseBodySchema
+      .examples.success;
+
+    // when
+    const result = response.safeParse({
+      ...success,
+      data: { ...success.data, ...patch },
+    });
+
+    // then
+    expect(result.success).toBe(false);
+    expect(result.error?.issues[0].path).toEqual(["data", path]);
+  });
+
+  it("minimum/maximum/integer — 범위 밖 수량 거부", () => {
+    // given
+    const { request } = buildSpecSchemas("POST_/api/v1/menu/select");
+    const example = getSpec("POST_/api/v1/menu/select").requestBodySchema
+      .example;
+
+    // when & then
+    for (const quantity of [0, 100, 2.5]) {
+      expect(request.safeParse({ ...example, quantity }).success).toBe(false);
+    }
+    expect(request.safeParse({ ...example, quantity: 99 }).success).toBe(true);
+  });
+
+  it("지원하지 않는 키워드 — 컴파일 단계에서 실패", () => {
+    // when & then
+    expect(() =>
+      compileJsonSchema({ type: "string", maxLength: 8 } as never)
+    ).toThrow("지원하지 않는 JSON Schema 키워드입니다: #/maxLength");
+  });
+
+  it("타입 생성 — required/선택 필드, enum/const 리터럴, 배열, additionalProperties, 설명 주석", () => {
+    // given
+    const schema = {
+      type: "object",
+      required: ["status", "items"],
+      properties: {
+        status: { type: "string", enum: ["SUCCESS", "ERROR"] },
+        items: {
+          type: "array",
+          items: {
+            type: "object",
+            additionalProperties: false,
+            required: ["qty"],
+            properties: { qty: { type: "integer", description: "수량" } },
+          },
+        },
+        "x-trace": { const: "t-1" },
+      },
+    } as const;
+
+    // when
+    const rendered = renderSchemaType(structuredClone(schema) as never);
+
+    // then
+    expect(rendered).toBe(
+      [
+        "{",
+        '  status: "SUCCESS" | "ERROR";',
+        "  items: Array<{",
+        "    /** 수량 */",
+        "    qty: number;",
+        "  }>;",
+        '  "x-trace"?: "t-1";',
+        "  [key: string]: unknown;",
+        "}",
+      ].join("\n")
+    );
+  });
+});
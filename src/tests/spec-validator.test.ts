@@ -0,0 +1,170 @@
+import { describe, expect, it } from "vitest";
+
+import { getSpec, type JsonSchema } from "../utils/api-spec";
+import {
+  assertSpecRequest,
+  SpecValidationError,
+  validateSchema,
+  validateSpecRequest,
+} from "../utils/spec-validator";
+
+const MENU_SELECT = "POST_/api/v1/menu/select" as const;
+const example = getSpec(MENU_SELECT).requestBodySchema.example;
+
+describe("spec-validator", () => {
+  it("en 로케일 — 키워드별 메시지, 루트 타입 오류는 request body", () => {
+    // given
+    const payload = { ...example, menuId: "", quantity: 0, coupon: "X" };
+
+    // when
+    const violations = validateSpecRequest(MENU_SELECT, payload, {
+      locale: "en",
+    });
+
+    // then
+    expect(violations).toEqual([
+      {
+        pointer: "/menuId",
+        keyword: "minLength",
+        message: "menuId must be at least 1 characters",
+      },
+      {
+        pointer: "/quantity",
+        keyword: "minimum",
+        message: "quantity must be >= 1",
+      },
+      {
+        pointer: "/coupon",
+        keyword: "additionalProperties",
+        message: "coupon is not an allowed property",
+      },
+    ]);
+    expect(validateSpecRequest(MENU_SELECT, [], { locale: "en" })).toEqual([
+      {
+        pointer: "",
+        keyword: "type",
+        message: "request body must be an object",
+      },
+    ]);
+  });
+
+  it("중첩 pointer — 배열 인덱스·중첩 객체 경로, 타입 오류 아래로는 내려가지 않음", () => {
+    // given
+    const schema: JsonSchema = {
+      type: "object",
+      properties: {
+        orders: {
+          type: "array",
+          items: {
+            type: "object",
+            required: ["sku"],
+            properties: {
+              sku: { type: "string", pattern: "^[A-Z]+$" },
+              option: {
+                type: "object",
+                properties: { size: { type: "string", enum: ["S", "M"] } },
+              },
+            },
+          },
+        },
+      },
+    };
+    const value = {
+      orders: [{ option: { size: "XL" } }, { sku: "abc", option: "M" }],
+    };
+
+    // when
+    const violations = validateSchema(value, schema);
+
+    // then
+    expect(violations).toEqual([
+      {
+        pointer: "/orders/0/sku",
+        keyword: "required",
+        message: "sku는 필수값입니다",
+      },
+      {
+        pointer: "/orders/0/option/size",
+        keyword: "enum",
+        message: "size는 S, M 중 하나여야 합니다",
+      },
+      {
+        pointer: "/orders/1/sku",
+        keyword: "pattern",
+        message: "sku는 ^[A-Z]+$ 형식이어야 합니다",
+      },
+      {
+        pointer: "/orders/1/option",
+        keyword: "type",
+        message: "option는 객체이어야 합니다",
+      },
+    ]);
+  });
+
+  it("~ · / 이스케이프 — pointer 는 RFC 6901(~0, ~1), 메시지는 원래 필드명", () => {
+    // given
+    const schema: JsonSchema = {
+      type: "object",
+      additionalProperties: false,
+      required: ["a/b"],
+      properties: {
+        "a/b": { type: "string" },
+        "m~n": {
+          type: "object",
+          properties: { "~/": { type: "integer" } },
+        },
+      },
+    };
+
+    // when
+    const violations = validateSchema(
+      { "m~n": { "~/": 1.5 }, "x/y~z": true },
+      schema
+    );
+
+    // then
+    expect(violations).toEqual([
+      {
+        pointer: "/a~1b",
+        keyword: "required",
+        message: "a/b는 필수값입니다",
+      },
+      {
+        pointer: "/m~0n/~0~1",
+        keyword: "type",
+        message: "~/는 정수이어야 합니다",
+      },
+      {
+        pointer: "/x~1y~0z",
+        keyword: "additionalProperties",
+        message: "x/y~z는 허용되지 않는 필드입니다",
+      },
+    ]);
+  });
+
+  it("PRE 게이트 — 빈 문자열 id 는 minLength 로 차단, SpecValidationError 에 키와 위반 목록", () => {
+    // given
+    const payload = { ...example, shopId: "", memberNo: "" };
+
+    // when
+    let error: unknown;
+    try {
+      assertSpecRequest(MENU_SELECT, payload);
+    } catch (e) {
+      error = e;
+    }
+
+    // then
+    expect(error).toBeInstanceOf(SpecValidationError);
+    expect(error).toMatchObject({
+      key: MENU_SELECT,
+      message:
+        "shopId는 1자 이상이어야 합니다, memberNo는 1자 이상이어야 합니다",
+      violations: [
+        { pointer: "/shopId", keyword: "minLength" },
+        { pointer: "/memberNo", keyword: "minLength" },
+      ],
+    });
+    expect(() => assertSpecRequest(MENU_SELECT, example)).not.toThrow();
+  });
+});
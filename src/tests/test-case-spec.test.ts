@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+
+import {
+  buildTestCaseSections,
+  mergeSummaries,
+  parseTestName,
+  readPurposes,
+  renderTestCaseSpec,
+} from "../utils/test-case-spec";
+
+const SUITE = "POST /api/v1/menu/select";
+const FILE = "src/tests/menu-select.test.ts";
+
+describe("test-case-spec", () => {
+  it("테스트 이름 파싱 — PREFIX | TYPE | CATEGORY | SUMMARY", () => {
+    // when & then
+    expect(parseTestName("MS | 409 | 실패 | 재료 부족")).toEqual({
+      prefix: "MS",
+      type: "409",
+      category: "실패",
+      summary: "재료 부족",
+    });
+    expect(parseTestName("menu-select → order-create")).toBeUndefined();
+  });
+
+  it("it.each 로 펼쳐진 요약 — 공통 앞/뒤를 남기고 한 줄로 합침", () => {
+    // when & then
+    expect(
+      mergeSummaries([
+        "필수값('menuId') 누락 — 요청 차단",
+        "필수값('shopId') 누락 — 요청 차단",
+      ])
+    ).toBe("필수값(menuId/shopId) 누락 — 요청 차단");
+    expect(
+      mergeSummaries(["quantity = 0 — 요청 차단", "quantity = 100 — 요청 차단"])
+    ).toBe("quantity = 0/100 — 요청 차단");
+    expect(
+      mergeSummaries(
+        ["a", "b", "c", "d", "e", "f"].map((f) => `${f} 누락 — 요청 차단`)
+      )
+    ).toBe("a/…/f (6건) 누락 — 요청 차단");
+  });
+
+  it("괄호 짝 — 공통 뒤가 괄호를 가르면 줄이고, 안 되면 이름 전체를 나열", () => {
+    // when & then
+    expect(
+      mergeSummaries([
+        "경계값('quantity = 1 (minimum)') — 통과",
+        "경계값('quantity = 99 (maximum)') — 통과",
+      ])
+    ).toBe("경계값(quantity = 1 (minimum)/99 (maximum)) — 통과");
+    expect(mergeSummaries(["a (x) b", "c (y) b"])).toBe("a (x)/c (y) b");
+    expect(mergeSummaries(["(a b) c", "(a d c)"])).toBe("(a b) c/(a d c)");
+  });
+
+  it("문서 재생성 — ID/위치 부여, 목적 열은 (프리픽스, 유형, 요약)으로 유지", () => {
+    // given
+    const tests = [
+      {
+        suite: SUITE,
+        name: "MS | 401 | 실패 | 토큰 누락",
+        file: FILE,
+        line: 30,
+      },
+      { suite: SUITE, name: "MS | PRE | 검증 | a 누락", file: FILE, line: 10 },
+      { suite: SUITE, name: "MS | PRE | 검증 | b 누락", file: FILE, line: 10 },
+    ];
+    const previous = renderTestCaseSpec(
+      buildTestCaseSections(tests).map((section) => ({
+        ...section,
+        rows: section.rows.map((r) => ({ ...r, purpose: `${r.id} 목적` })),
+      }))
+    );
+
+    // when
+    const sections = buildTestCaseSections(
+      [{ ...tests[0], line: 40 }, ...tests.slice(1)],
+      readPurposes(previous)
+    );
+
+    // then
+    expect(sections).toEqual([
+      {
+        title: SUITE,
+        rows: [
+          expect.objectContaining({
+            id: "MS1",
+            type: "PRE",
+            http: "-",
+            summary: "a/b 누락",
+            purpose: "MS1 목적",
+          }),
+          expect.objectContaining({
+            id: "MS2",
+            http: "401",
+            purpose: "MS2 목적",
+            line: 40,
+          }),
+        ],
+      },
+    ]);
+    expect(renderTestCaseSpec(sections)).toContain(
+      "[menu-select.test.ts:40](../src/tests/menu-select.test.ts#L40)"
+    );
+  });
+});
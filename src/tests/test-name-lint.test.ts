@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+
+import { lintTestNames } from "../utils/test-name-lint";
+
+const FILE = "src/tests/sample.test.ts";
+
+const lint = (source: string) =>
+  lintTestNames([{ file: FILE, source }]).map(({ line, rule }) => ({
+    line,
+    rule,
+  }));
+
+describe("test-name-lint", () => {
+  it("규칙을 지킨 엔드포인트 테스트 — 위반 없음, 유틸리티 스위트는 검사 제외", () => {
+    // given
+    const source = `
+describe("POST /api/v1/menu/select", () => {
+  describe("검증", () => {
+    it.each([{ field: "menuId" }])("MS | PRE | 검증 | 필수값($field) 누락", () => {});
+  });
+  describe("성공", () => {
+    it("MS | 200 | 성공 | 메뉴 예약 성공", () => {});
+  });
+  describe("실패", () => {
+    it("MS | 404 | 실패 | 존재하지 않는 메뉴", () => {
+      mockError(mockedAxios.post, 404, body);
+    });
+    it.skipIf(isLiveTarget())("MS | ERR | 실패 | 요청 타임아웃", () => {});
+  });
+});
+describe("spec-schema", () => {
+  it("자유 형식 제목", () => {});
+});
+describe("mock-server", () => {
+  it("Authorization 누락 — 401 UNAUTHORIZED", () => {});
+});`;
+
+    // when & then
+    expect(lint(source)).toEqual([]);
+  });
+
+  it("섹션 순서/실패 정렬/형식/HTTP 불일치 — 파일:라인으로 보고", () => {
+    // given
+    const source = `describe("POST /api/v1/order/create", () => {
+  describe("실패", () => {
+    it("OC | 422 | 실패 | 예약 만료", () => {});
+    it("OC | 404 | 실패 | 유효하지 않은 예약", () => {
+      mockError(mockedAxios.post, 409, body);
+    });
+    it("OC | 409 | 실패 | 중복 주문  - 재사용", () => {});
+    it("MS | 429 | 성공 | 한도 초과", () => {});
+  });
+  describe("성공", () => {});
+});`;
+
+    // when & then
+    expect(lint(source)).toEqual([
+      { line: 4, rule: "failure-order" },
+      { line: 5, rule: "mock-status" },
+      { line: 7, rule: "title-format" },
+      { line: 8, rule: "prefix" },
+      { line: 8, rule: "category" },
+      { line: 10, rule: "section-order" },
+    ]);
+  });
+
+  it("엔드포인트 간 프리픽스 중복 — 에러", () => {
+    // given
+    const source = `
+describe("POST /api/v1/menu/select", () => {
+  describe("성공", () => { it("MS | 200 | 성공 | a", () => {}); });
+});
+describe("POST /api/v1/order/create", () => {
+  describe("성공", () => { it("MS | 200 | 성공 | b", () => {}); });
+});`;
+
+    // when & then
+    expect(lint(source)).toEqual([{ line: 5, rule: "prefix" }]);
+  });
+});
@@ -1,5 +1,27 @@
-import { installAxiosAuthAutoWrap } from "../utils/axios-bearer-auth";
-import { installLoggerAutoWrap } from "../utils/logger";
+import {
+  installAxiosAuthAutoWrap,
+  registerPrincipals,
+} from "../utils/axios-bearer-auth";
+import { installLogArtifacts, installLoggerAutoWrap } from "../utils/logger";
+import { DEFAULT_CLIENTS } from "../utils/mock-server";
+import { installRecorderMatchers } from "../utils/recorder-matchers";
+import { installSpecCoverage } from "../utils/spec-coverage";
+import { isLiveTarget } from "../utils/test-target";
+import { staticToken } from "../utils/token-provider";
 
 installAxiosAuthAutoWrap();
+// mock 모드는 발급 서버가 없어 이름 있는 주체를 고정 토큰으로 대신한다
+if (!isLiveTarget()) {
+  registerPrincipals(
+    Object.fromEntries(
+      Object.keys(DEFAULT_CLIENTS).map((name) => [
+        name,
+        staticToken(`${name}-token`),
+      ])
+    )
+  );
+}
 installLoggerAutoWrap();
+installLogArtifacts();
+installRecorderMatchers();
+installSpecCoverage();
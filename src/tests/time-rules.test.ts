@@ -0,0 +1,151 @@
+import axios from "axios";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+
+import { setupAuthHeader } from "../utils/axios-bearer-auth";
+import {
+  advanceMockServerClock,
+  FakeClock,
+  resetMockServerClock,
+} from "../utils/clock";
+import { createErrorFactory } from "../utils/error-fixtures";
+import { MockApiServer } from "../utils/mock-server";
+import {
+  assertClockSkew,
+  assertDuration,
+  assertMonotonic,
+  parseRfc3339,
+} from "../utils/time-rules";
+
+const MENU_SELECT = "/api/v1/menu/select";
+const ORDER_CREATE = "/api/v1/order/create";
+
+const server = new MockApiServer();
+let baseURL: string;
+const client = axios.create();
+setupAuthHeader(client, "mock-server-token");
+
+beforeAll(async () => {
+  baseURL = await server.start();
+});
+
+afterAll(async () => {
+  await server.stop();
+});
+
+beforeEach(() => {
+  server.reset();
+});
+
+describe("time-rules", () => {
+  it.each([
+    "2025-08-07 12:30:00",
+    "2025-08-07T12:30:00",
+    "2025-13-07T12:30:00Z",
+    1754569800,
+  ])("RFC 3339 아님(%s) — 에러", (value) => {
+    // when & then
+    expect(() => parseRfc3339(value, "createdAt")).toThrow("createdAt");
+  });
+
+  it("기간 — 5분 ±1.5s 허용, 초과 시 필드명과 실제 값", () => {
+    // given
+    const timestamp = ["timestamp", "2025-08-07T12:30:00.123Z"] as const;
+
+    // when & then
+    expect(
+      assertDuration(
+        timestamp,
+        ["reservationExpiresAt", "2025-08-07T21:35:01.000+09:00"],
+        { minutes: 5 }
+      )
+    ).toBe(300_877);
+    expect(() =>
+      assertDuration(
+        timestamp,
+        ["reservationExpiresAt", "2025-08-07T12:35:02.000Z"],
+        { minutes: 5 }
+      )
+    ).toThrow(
+      "reservationExpiresAt - timestamp = 301.877s, 기대 300.000s ±1.500s"
+    );
+  });
+
+  it("로컬 시계 오차 / 단조 증가", () => {
+    // given
+    const clock = new FakeClock("2025-08-07T12:30:00.000Z");
+
+    // when & then
+    expect(
+      assertClockSkew(["timestamp", "2025-08-07T12:30:01.000Z"], {
+        now: clock.now,
+      })
+    ).toBe(1000);
+    clock.advance({ seconds: 3 });
+    expect(() =>
+      assertClockSkew(["timestamp", "2025-08-07T12:30:01.000Z"], {
+        now: clock.now,
+      })
+    ).toThrow("로컬 시계와 -2.000s 차이");
+    expect(() =>
+      assertMonotonic(
+        ["menu-select timestamp", "2025-08-07T12:30:00.123Z"],
+        ["createdAt", "2025-08-07T12:29:59.999Z"]
+      )
+    ).toThrow(
+      "createdAt(2025-08-07T12:29:59.999Z) 이(가) menu-select timestamp"
+    );
+  });
+
+  it("FakeClock — 에러 픽스처 timestamp 가 시계를 따른다", () => {
+    // given
+    const clock = new FakeClock("2025-08-07T12:30:00.123Z");
+    const errors = createErrorFactory("POST_/api/v1/order/create", {
+      now: clock.now,
+    });
+
+    // when
+    clock.advance({ minutes: 5, ms: 1 });
+
+    // then
+    expect(errors.build("RESERVATION_EXPIRED").timestamp).toBe(
+      "2025-08-07T12:35:00.124Z"
+    );
+  });
+
+  it("목 서버 시계 경과 — 예약 만료 422 RESERVATION_EXPIRED, DELETE 로 원복", async () => {
+    // given
+    const select = await client.post(`${baseURL}${MENU_SELECT}`, {
+      menuId: "menu_001",
+      quantity: 1,
+      shopId: "shop_001",
+      memberNo: "member_123",
+    });
+    const { reservationId, reservationExpiresAt } = select.data.data;
+
+    // when
+    const serverNow = await advanceMockServerClock(baseURL, {
+      minutes: 5,
+      ms: 1,
+    });
+
+    // then
+    assertMonotonic(
+      ["reservationExpiresAt", reservationExpiresAt],
+      ["server now", serverNow.toISOString()]
+    );
+    await expect(
+      client.post(`${baseURL}${ORDER_CREATE}`, {
+        reservationId,
+        memberNo: "member_123",
+      })
+    ).rejects.toMatchObject({
+      response: { status: 422, data: { errorCode: "RESERVATION_EXPIRED" } },
+    });
+    await resetMockServerClock(baseURL);
+    const order = await client.post(`${baseURL}${ORDER_CREATE}`, {
+      reservationId,
+      memberNo: "member_123",
+    });
+    expect(order.status).toBe(200);
+  });
+});
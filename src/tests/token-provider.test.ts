@@ -0,0 +1,191 @@
+import axios, { type AxiosInstance } from "axios";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+
+import { createApiClient } from "../utils/api-client";
+import { setupAuthHeader } from "../utils/axios-bearer-auth";
+import { MockApiServer, TOKEN_PATH } from "../utils/mock-server";
+import { setupRequestRecorder } from "../utils/request-recorder";
+import {
+  cachedToken,
+  clientCredentials,
+  decodeJwtExp,
+  type Principals,
+} from "../utils/token-provider";
+
+const MENU_SELECT = "/api/v1/menu/select";
+const MENU_SELECT_KEY = "POST_/api/v1/menu/select";
+const payload = {
+  menuId: "menu_001",
+  quantity: 1,
+  shopId: "shop_001",
+  memberNo: "member_123",
+};
+
+const jwt = (exp: number) =>
+  ["header", JSON.stringify({ exp })]
+    .map((part) => Buffer.from(part).toString("base64url"))
+    .concat("sig")
+    .join(".");
+
+let now = new Date("2025-08-07T12:30:00.000Z");
+const server = new MockApiServer({ now: () => now, tokenTtlMs: 60_000 });
+let baseURL: string;
+let principals: Principals;
+
+const principal = (clientId: string, clientSecret: string) =>
+  clientCredentials({
+    tokenUrl: `${baseURL}${TOKEN_PATH}`,
+    clientId,
+    clientSecret,
+    // 공급자 시계는 고정 → 서버 시계만 흘러 "서버 기준 만료"를 재현
+    now: () => new Date("2025-08-07T12:30:00.000Z").getTime(),
+  });
+
+beforeAll(async () => {
+  baseURL = await server.start();
+});
+
+afterAll(async () => {
+  await server.stop();
+});
+
+beforeEach(() => {
+  now = new Date("2025-08-07T12:30:00.000Z");
+  server.reset();
+  principals = {
+    member: principal("member", "member-secret"),
+    shopOwner: principal("shopOwner", "shop-owner-secret"),
+    noScope: principal("noScope", "no-scope-secret"),
+  };
+});
+
+const authedClient = (): [
+  AxiosInstance,
+  ReturnType<typeof setupRequestRecorder>
+] => {
+  const client = axios.create({ baseURL });
+  const recorder = setupRequestRecorder(client);
+  setupAuthHeader(client, principals.member, principals);
+  return [client, recorder];
+};
+
+describe("token-provider", () => {
+  it("JWT exp — 만료 30초 전부터 선제 갱신", async () => {
+    // given
+    let clock = 1_000_000;
+    let issued = 0;
+    const provider = cachedToken(
+      () => ({ token: jwt(Math.floor(clock / 1000) + 60 + issued++) }),
+      { now: () => clock }
+    );
+
+    // when
+    const first = await provider.getToken();
+    clock += 20_000;
+    const cached = await provider.getToken();
+    clock += 15_000;
+    const renewed = await provider.getToken();
+
+    // then
+    expect(decodeJwtExp(first!)).toBe(1_060_000);
+    expect(cached).toBe(first);
+    expect(renewed).not.toBe(first);
+    expect(issued).toBe(2);
+  });
+
+  it("client_credentials principal — 권한 차이로 200 / 403 FORBIDDEN", async () => {
+    // given
+    const [client] = authedClient();
+
+    // when
+    const ok = await client.post(MENU_SELECT, payload);
+
+    // then
+    expect(ok.status).toBe(200);
+    for (const name of ["noScope", "shopOwner"]) {
+      await expect(
+        client.post(MENU_SELECT, payload, {
+          headers: { "x-auth-principal": name },
+        })
+      ).rejects.toMatchObject({
+        response: { status: 403, data: { errorCode: "FORBIDDEN" } },
+      });
+    }
+  });
+
+  it("서버 기준 토큰 만료 401 — 새 토큰으로 1회 재시도", async () => {
+    // given
+    const [client, recorder] = authedClient();
+    await client.post(MENU_SELECT, payload);
+    now = new Date(now.getTime() + 2 * 60_000);
+
+    // when
+    const response = await client.post(MENU_SELECT, payload);
+
+    // then
+    expect(response.status).toBe(200);
+    expect(recorder.requests.map((r) => r.status)).toEqual([200, 401, 200]);
+    expect(recorder.requests[2].headers.Authorization).not.toBe(
+      recorder.requests[1].headers.Authorization
+    );
+  });
+
+  it("api-client — 서버 기준 만료된 JWT 는 401 후 갱신 토큰으로 1회 재시도", async () => {
+    // given
+    const [http, recorder] = authedClient();
+    const api = createApiClient({ baseURL, http });
+    await api.call(MENU_SELECT_KEY, payload);
+    now = new Date(now.getTime() + 2 * 60_000);
+
+    // when
+    const response = await api.call(MENU_SELECT_KEY, payload);
+
+    // then
+    expect(response.status).toBe(200);
+    expect(recorder.requests.map((r) => r.status)).toEqual([200, 401, 200]);
+    const [first, stale, renewed] = recorder.requests.map(
+      (r) => r.headers.Authorization
+    );
+    expect(stale).toBe(first);
+    expect(renewed).not.toBe(stale);
+  });
+
+  it("api-client — 공급자 시계로 exp 임박이면 요청 전에 갱신 (401 없음)", async () => {
+    // given
+    let clock = new Date("2025-08-07T12:30:00.000Z").getTime();
+    const member = clientCredentials({
+      tokenUrl: `${baseURL}${TOKEN_PATH}`,
+      clientId: "member",
+      clientSecret: "member-secret",
+      now: () => clock,
+    });
+    const http = axios.create({ baseURL });
+    const recorder = setupRequestRecorder(http);
+    setupAuthHeader(http, member);
+    const api = createApiClient({ baseURL, http });
+    await api.call(MENU_SELECT_KEY, payload);
+    clock += 45_000;
+    now = new Date(clock);
+
+    // when
+    await api.call(MENU_SELECT_KEY, payload);
+
+    // then
+    expect(recorder.requests.map((r) => r.status)).toEqual([200, 200]);
+    expect(recorder.requests[1].headers.Authorization).not.toBe(
+      recorder.requests[0].headers.Authorization
+    );
+  });
+
+  it("등록되지 않은 principal — 에러", async () => {
+    // given
+    const [client] = authedClient();
+
+    // when & then
+    await expect(
+      client.post(MENU_SELECT, payload, {
+        headers: { "x-auth-principal": "admin" },
+      })
+    ).rejects.toThrow("등록되지 않은 principal 입니다: admin");
+  });
+});
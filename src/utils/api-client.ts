@@ -0,0 +1,150 @@
+import axios, { type AxiosInstance, type AxiosResponse } from "axios";
+
+import type { SpecBodyTypes } from "../data/api-spec.types";
+import { getSpec, type ApiSpec, type SpecKey } from "./api-spec";
+import { AUTH_STRATEGY_HEADER, BEARER } from "./auth-strategies";
+import { generateIdempotencyKey, IDEMPOTENCY_HEADER } from "./idempotency";
+import { assertSpecRequest } from "./spec-validator";
+import { PRINCIPAL_HEADER } from "./token-provider";
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Types
+ *  - 본문/응답 타입은 requestBodySchema / responseBodySchema 에서 생성한
+ *    src/data/api-spec.types.d.ts (npm run spec:types, zod 검증기와 같은 규칙)
+ * ────────────────────────────────────────────────────────────────────────── */
+export type RequestBody<K extends SpecKey> = SpecBodyTypes[K]["request"];
+export type ResponseBody<K extends SpecKey> = SpecBodyTypes[K]["response"];
+/** 2xx 응답 본문: 봉투 스키마에서 status SUCCESS, data 포함인 경우 (실패는 AxiosError 로 던져진다) */
+export type SuccessResponse<K extends SpecKey> = ResponseBody<K> & {
+  status: "SUCCESS";
+} & Required<Pick<ResponseBody<K>, Extract<keyof ResponseBody<K>, "data">>>;
+
+export interface CallOptions {
+  /** x-idempotency-key 헤더. true 면 키 자동 생성 */
+  idempotencyKey?: string | true;
+  /** 스펙 헤더 규칙보다 우선 적용 (Content-Type 오류 등 음성 케이스용) */
+  headers?: Record<string, string>;
+  /** Authorization 생략 (토큰 누락 케이스). 래퍼 자동 주입도 x-skip-auth 로 차단 */
+  skipAuth?: boolean;
+  /** PRE 게이트(스펙 요청 검증) 생략 */
+  skipValidation?: boolean;
+  /** 이름 있는 주체로 호출 (예: member / noScope). 토큰은 인증 래퍼가 주입 */
+  principal?: string;
+  /** 인증 전략 이름 (apiKey / basic / cookie / hmac 등). 생략 시 스펙 auth 필드 */
+  auth?: string;
+}
+
+type HttpMethod = "get" | "post" | "put" | "patch" | "delete";
+type HttpClient = Pick<AxiosInstance, HttpMethod>;
+
+export interface ApiClientOptions {
+  baseURL?: string;
+  http?: HttpClient;
+}
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Headers (requestHeaders.byName 규칙)
+ *  - Authorization 값은 넣지 않는다. 인증 래퍼(setupAuthHeader)가 TokenProvider 로
+ *    채우고 만료 전 갱신·401 재시도까지 맡는다. 여기서는 x-skip-auth /
+ *    x-auth-principal / x-auth-strategy 힌트만 남긴다
+ * ────────────────────────────────────────────────────────────────────────── */
+interface HeaderRule {
+  required?: boolean;
+  const?: string;
+}
+
+export const buildSpecHeaders = (
+  key: SpecKey,
+  ctx: {
+    hasBody: boolean;
+    skipAuth?: boolean;
+    principal?: string;
+    auth?: string;
+  }
+) => {
+  const spec = getSpec(key) as ApiSpec[SpecKey] & { auth?: string };
+  const { order, byName } = spec.requestHeaders;
+  const rules = byName as Record<string, HeaderRule>;
+  const headers: Record<string, string | boolean> = {};
+
+  for (const name of order) {
+    const rule = rules[name] ?? {};
+    if (name.toLowerCase() === "authorization") {
+      if (ctx.skipAuth) {
+        headers["x-skip-auth"] = true;
+        continue;
+      }
+      if (ctx.auth) headers[AUTH_STRATEGY_HEADER] = ctx.auth;
+      const bearer = (ctx.auth ?? spec.auth ?? BEARER) === BEARER;
+      if (bearer && ctx.principal) headers[PRINCIPAL_HEADER] = ctx.principal;
+      continue;
+    }
+    if (rule.const !== undefined) {
+      if (name.toLowerCase() === "content-type" && !ctx.hasBody) continue;
+      headers[name] = rule.const;
+      continue;
+    }
+    if (rule.required) {
+      throw new Error(
+        `${key} 요청에 값을 정할 수 없는 필수 헤더입니다: ${name}`
+      );
+    }
+  }
+  return headers;
+};
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Public API
+ * ────────────────────────────────────────────────────────────────────────── */
+export const createApiClient = ({
+  baseURL = process.env.API_URL,
+  http = axios,
+}: ApiClientOptions = {}) => {
+  const urlOf = (key: SpecKey) => `${baseURL ?? ""}${getSpec(key).restfulUrl}`;
+
+  /**
+   * 본문 타입을 컴파일 시점에 정할 수 없을 때 (flow 템플릿, 스키마 위반 본문).
+   * PRE 게이트는 call 과 같이 options(skipValidation)를 따른다
+   */
+  const callRaw = async <K extends SpecKey>(
+    key: K,
+    body: unknown,
+    options: CallOptions = {}
+  ): Promise<AxiosResponse<SuccessResponse<K>>> => {
+    const spec = getSpec(key);
+    const method = spec.restfulMethod.toLowerCase() as HttpMethod;
+    const hasBody = ["post", "put", "patch"].includes(method);
+    if (hasBody && !options.skipValidation) assertSpecRequest(key, body);
+
+    const headers = {
+      ...buildSpecHeaders(key, {
+        hasBody,
+        skipAuth: options.skipAuth,
+        principal: options.principal,
+        auth: options.auth,
+      }),
+      ...(options.idempotencyKey
+        ? {
+            [IDEMPOTENCY_HEADER]:
+              options.idempotencyKey === true
+                ? generateIdempotencyKey()
+                : options.idempotencyKey,
+          }
+        : {}),
+      ...options.headers,
+    };
+
+    const url = urlOf(key);
+    return hasBody
+      ? http[method as "post" | "put" | "patch"](url, body, { headers })
+      : http[method as "get" | "delete"](url, { headers });
+  };
+
+  const call = <K extends SpecKey>(
+    key: K,
+    body: RequestBody<K>,
+    options: CallOptions = {}
+  ) => callRaw(key, body, options);
+
+  return { call, callRaw, urlOf };
+};
@@ -0,0 +1,86 @@
+import apiSpec from "../data/api-spec.json";
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Types
+ * ────────────────────────────────────────────────────────────────────────── */
+export type ApiSpec = typeof apiSpec;
+export type SpecKey = keyof ApiSpec;
+export type SpecEntry = ApiSpec[SpecKey];
+export type SpecErrorCode = SpecEntry["errorCodes"][number];
+
+/** api-spec.json 에서 사용하는 JSON Schema 부분집합 */
+export interface JsonSchema {
+  type?: "object" | "array" | "string" | "integer" | "number" | "boolean";
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: unknown[];
+  const?: unknown;
+  pattern?: string;
+  minLength?: number;
+  format?: string;
+  minimum?: number;
+  maximum?: number;
+  example?: unknown;
+  examples?: Record<string, unknown>;
+}
+
+export interface SpecHeaderRule {
+  required?: boolean;
+  const?: string;
+  description?: string;
+}
+
+/** api-spec.json 항목 구조 (JSON import 타입과 달리 임의 문서용: OpenAPI 가져오기 등) */
+export interface SpecDocumentEntry {
+  description: string;
+  restfulMethod: string;
+  restfulUrl: string;
+  auth?: string;
+  requestHeaders: { order: string[]; byName: Record<string, SpecHeaderRule> };
+  requestBodySchema?: JsonSchema;
+  responseBodySchema: JsonSchema;
+  errorCodes: Array<{
+    ErrorCode: string;
+    HttpStatus: number;
+    Description: string;
+  }>;
+}
+
+export type SpecDocument = Record<string, SpecDocumentEntry>;
+
+/**
+ * 표준 에러 봉투 (error-fixtures / 목 서버와 같은 모양).
+ * responseBodySchema 는 2xx 본문이라 examples.failure 는 이 스키마로 검사한다
+ */
+export const ERROR_RESPONSE_SCHEMA: JsonSchema = {
+  type: "object",
+  required: ["status", "message", "timestamp"],
+  properties: {
+    status: { type: "string", const: "ERROR" },
+    message: { type: "string" },
+    errorCode: { type: "string" },
+    timestamp: { type: "string", format: "date-time" },
+  },
+};
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Lookup
+ * ────────────────────────────────────────────────────────────────────────── */
+export const specKeys = Object.keys(apiSpec) as SpecKey[];
+
+export const getSpec = <K extends SpecKey>(key: K): ApiSpec[K] => {
+  const spec = apiSpec[key];
+  if (!spec) {
+    throw new Error(`API 스펙에 ${key} 정의가 필요합니다.`);
+  }
+  return spec;
+};
+
+export const getRequestBodySchema = (key: SpecKey) =>
+  getSpec(key).requestBodySchema as JsonSchema;
+
+export const getResponseBodySchema = (key: SpecKey) =>
+  getSpec(key).responseBodySchema as JsonSchema;
@@ -0,0 +1,237 @@
+import { createHash, createHmac, randomUUID } from "node:crypto";
+
+import { getSpec } from "./api-spec";
+import { resolveRoute } from "./request-recorder";
+import { requiredEnv } from "./token-provider";
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Types
+ * ────────────────────────────────────────────────────────────────────────── */
+/** 전략이 수정하는 요청 사본. 인증 래퍼가 axios 설정에 되돌려 쓴다 */
+export interface AuthRequest {
+  method: string;
+  /** baseURL 을 합친 URL (params 제외) */
+  url: string;
+  headers: Record<string, unknown>;
+  params: Record<string, unknown>;
+  data?: unknown;
+}
+
+export type AuthStrategy = (req: AuthRequest) => void | Promise<void>;
+
+/** 고정값 또는 호출 시점에 읽는 값 (환경변수는 매번 다시 읽음) */
+type Lazy<T> = T | (() => T);
+
+export interface HmacOptions {
+  keyId: Lazy<string>;
+  secret: Lazy<string>;
+  now?: () => number;
+  nonce?: () => string;
+}
+
+/** 요청 헤더로 전략을 고른다. 인증 래퍼가 해석 후 제거한다 */
+export const AUTH_STRATEGY_HEADER = "x-auth-strategy";
+
+/** Bearer 는 principal·401 재시도 때문에 인증 래퍼가 직접 처리 (레지스트리에 없음) */
+export const BEARER = "bearer";
+
+export const HMAC_HEADERS = {
+  keyId: "x-key-id",
+  timestamp: "x-timestamp",
+  nonce: "x-nonce",
+  signature: "x-signature",
+} as const;
+
+const read = <T>(value: Lazy<T>) =>
+  typeof value === "function" ? (value as () => T)() : value;
+
+const setHeader = (
+  headers: Record<string, unknown>,
+  name: string,
+  value: string
+) => {
+  const existing = Object.keys(headers).find(
+    (k) => k.toLowerCase() === name.toLowerCase()
+  );
+  headers[existing ?? name] = value;
+};
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Strategies
+ * ────────────────────────────────────────────────────────────────────────── */
+export const apiKeyAuth =
+  ({
+    in: location,
+    name,
+    value,
+  }: {
+    in: "header" | "query";
+    name: string;
+    value: Lazy<string>;
+  }): AuthStrategy =>
+  (req) => {
+    if (location === "query") req.params[name] = read(value);
+    else setHeader(req.headers, name, read(value));
+  };
+
+/** HTTP Basic (RFC 7617) */
+export const basicAuth =
+  ({
+    username,
+    password,
+  }: {
+    username: Lazy<string>;
+    password: Lazy<string>;
+  }): AuthStrategy =>
+  (req) => {
+    const encoded = Buffer.from(`${read(username)}:${read(password)}`).toString(
+      "base64"
+    );
+    setHeader(req.headers, "Authorization", `Basic ${encoded}`);
+  };
+
+/** "name=value" 세션 쿠키. 기존 Cookie 헤더가 있으면 덧붙인다 */
+export const cookieAuth =
+  ({ cookie }: { cookie: Lazy<string> }): AuthStrategy =>
+  (req) => {
+    const key = Object.keys(req.headers).find(
+      (k) => k.toLowerCase() === "cookie"
+    );
+    const current = key ? String(req.headers[key]) : "";
+    setHeader(
+      req.headers,
+      "Cookie",
+      current ? `${current}; ${read(cookie)}` : read(cookie)
+    );
+  };
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * HMAC-SHA256 서명
+ *  - 정규 문자열: METHOD \n 경로?정렬된쿼리 \n timestamp(epoch 초) \n nonce \n sha256(본문)
+ *  - 본문은 axios 기본 변환과 같게 JSON.stringify (문자열은 그대로, 없으면 "")
+ * ────────────────────────────────────────────────────────────────────────── */
+const bodyText = (data: unknown) =>
+  data === undefined || data === null
+    ? ""
+    : typeof data === "string"
+    ? data
+    : JSON.stringify(data);
+
+export const hmacCanonical = (
+  req: Pick<AuthRequest, "method" | "url" | "params" | "data">,
+  timestamp: string,
+  nonce: string
+) => {
+  const url = new URL(req.url, "http://localhost");
+  for (const [k, v] of Object.entries(req.params)) {
+    if (v !== undefined) url.searchParams.append(k, String(v));
+  }
+  url.searchParams.sort();
+  return [
+    req.method.toUpperCase(),
+    `${url.pathname}${url.search}`,
+    timestamp,
+    nonce,
+    createHash("sha256").update(bodyText(req.data)).digest("hex"),
+  ].join("\n");
+};
+
+export const signHmac = (secret: string, canonical: string) =>
+  createHmac("sha256", secret).update(canonical).digest("hex");
+
+export const hmacAuth =
+  ({
+    keyId,
+    secret,
+    now = () => Date.now(),
+    nonce = randomUUID,
+  }: HmacOptions): AuthStrategy =>
+  (req) => {
+    const timestamp = String(Math.floor(now() / 1000));
+    const once = nonce();
+    setHeader(req.headers, HMAC_HEADERS.keyId, read(keyId));
+    setHeader(req.headers, HMAC_HEADERS.timestamp, timestamp);
+    setHeader(req.headers, HMAC_HEADERS.nonce, once);
+    setHeader(
+      req.headers,
+      HMAC_HEADERS.signature,
+      signHmac(read(secret), hmacCanonical(req, timestamp, once))
+    );
+  };
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Registry
+ *  - 기본 전략은 ENV 에서 값을 읽는다 (apply 시점, 코드에서 덮어쓰지 않음)
+ *    apiKey / apiKeyQuery: API_KEY (+ API_KEY_HEADER, API_KEY_QUERY)
+ *    basic: BASIC_AUTH_USER, BASIC_AUTH_PASSWORD
+ *    cookie: SESSION_COOKIE ("name=value")
+ *    hmac: HMAC_KEY_ID, HMAC_SECRET
+ * ────────────────────────────────────────────────────────────────────────── */
+const registry = new Map<string, AuthStrategy>([
+  [
+    "apiKey",
+    (req) =>
+      apiKeyAuth({
+        in: "header",
+        name: process.env.API_KEY_HEADER || "x-api-key",
+        value: () => requiredEnv("API_KEY"),
+      })(req),
+  ],
+  [
+    "apiKeyQuery",
+    (req) =>
+      apiKeyAuth({
+        in: "query",
+        name: process.env.API_KEY_QUERY || "api_key",
+        value: () => requiredEnv("API_KEY"),
+      })(req),
+  ],
+  [
+    "basic",
+    basicAuth({
+      username: () => requiredEnv("BASIC_AUTH_USER"),
+      password: () => requiredEnv("BASIC_AUTH_PASSWORD"),
+    }),
+  ],
+  ["cookie", cookieAuth({ cookie: () => requiredEnv("SESSION_COOKIE") })],
+  [
+    "hmac",
+    hmacAuth({
+      keyId: () => requiredEnv("HMAC_KEY_ID"),
+      secret: () => requiredEnv("HMAC_SECRET"),
+    }),
+  ],
+]);
+
+/** 전략 등록(같은 이름이면 교체). 반환 함수로 등록 이전 상태 복원 */
+export const registerAuthStrategy = (name: string, strategy: AuthStrategy) => {
+  if (name === BEARER) {
+    throw new Error(
+      `${BEARER} 전략은 인증 래퍼가 처리하므로 등록할 수 없습니다.`
+    );
+  }
+  const previous = registry.get(name);
+  registry.set(name, strategy);
+  return () => {
+    if (previous) registry.set(name, previous);
+    else registry.delete(name);
+  };
+};
+
+export const getAuthStrategy = (name: string) => {
+  const strategy = registry.get(name);
+  if (!strategy) throw new Error(`등록되지 않은 인증 전략입니다: ${name}`);
+  return strategy;
+};
+
+/** 호출별 지정 > 스펙 auth 필드 > bearer */
+export const authStrategyOf = (
+  method: string,
+  url: string,
+  explicit?: string
+): string => {
+  if (explicit) return explicit;
+  const route = resolveRoute(method, url);
+  const auth = route ? (getSpec(route) as { auth?: string }).auth : undefined;
+  return auth ?? BEARER;
+};
@@ -1,120 +1,159 @@
-import type { AxiosInstance, AxiosRequestConfig } from "axios";
+import type { AxiosInstance } from "axios";
+
+import {
+  AUTH_STRATEGY_HEADER,
+  authStrategyOf,
+  BEARER,
+  getAuthStrategy,
+} from "./auth-strategies";
+import {
+  PRINCIPAL_HEADER,
+  principalsFromEnv,
+  resolveProvider,
+  staticToken,
+  tokenProviderFromEnv,
+  type Principals,
+  type TokenProvider,
+} from "./token-provider";
+
+type TokenSource = string | TokenProvider | undefined;
+
+const AUTH_STATE = "__authState";
+const AUTH_INTERCEPTOR = "__authInterceptor";
+
+// ENV 기반 기본 공급자는 1회만 생성 (토큰 캐시 공유)
+let envAuth: { provider: TokenProvider; principals: Principals } | undefined;
+const getEnvAuth = () =>
+  (envAuth ??= {
+    provider: tokenProviderFromEnv(),
+    principals: principalsFromEnv(),
+  });
+
+const asProvider = (token: TokenSource) =>
+  typeof token === "object" ? token : staticToken(token);
+
+const headerValue = (headers: any, name: string) =>
+  headers?.[name] ?? headers?.[name.toLowerCase()];
+
+const isSkipAuth = (headers: any) =>
+  headers?.["x-skip-auth"] === true || headers?.["x-skip-auth"] === "true";
+
+const hasAuthorization = (headers: any) =>
+  !!headers?.Authorization || !!headers?.authorization;
+
+/** principal/전략 선택 헤더는 서버로 보내지 않는다 */
+const withoutAuthHints = (headers: any) => {
+  const {
+    [PRINCIPAL_HEADER]: _principal,
+    [AUTH_STRATEGY_HEADER]: _strategy,
+    ...rest
+  } = { ...(headers ?? {}) };
+  return rest as Record<string, unknown>;
+};
+
+const joinUrl = (baseURL: string | undefined, url = "") =>
+  !baseURL || /^[a-z][a-z\d+.-]*:\/\//i.test(url)
+    ? url
+    : `${baseURL.replace(/\/+$/, "")}/${url.replace(/^\/+/, "")}`;
+
+/** bearer 가 아닌 전략 적용. 적용했으면 갱신된 headers/params 반환 */
+const applyStrategy = async (
+  name: string,
+  req: { method: string; url: string; data?: unknown },
+  headers: Record<string, unknown>,
+  params: unknown
+) => {
+  if (name === BEARER) return undefined;
+  const authReq = {
+    ...req,
+    headers,
+    params: { ...((params as Record<string, unknown>) ?? {}) },
+  };
+  await getAuthStrategy(name)(authReq);
+  return { headers: authReq.headers, params: authReq.params };
+};
 
-const getToken = () => process.env.ACCESS_TOKEN;
+/** 401 이면 토큰을 갱신해 1회 재시도. 갱신 토큰이 같으면 재시도하지 않음 */
+const refreshedToken = async (
+  err: any,
+  provider: TokenProvider,
+  used?: string
+) => {
+  if (err?.response?.status !== 401 || !used || !provider.refresh) return;
+  const next = await provider.refresh();
+  return next && next !== used ? next : undefined;
+};
 
 export const setupAuthHeader = (
   axiosInstance: AxiosInstance,
-  token = getToken()
+  token: TokenSource = getEnvAuth().provider,
+  principals: Principals = getEnvAuth().principals
 ) => {
   if (!token) return;
-  axiosInstance.interceptors.request.use((cfg) => {
-    const hasAuth =
-      !!(cfg.headers as any)?.Authorization ||
-      !!(cfg.headers as any)?.authorization;
-    if (!hasAuth) {
-      cfg.headers = {
-        ...(cfg.headers as any),
-        Authorization: `Bearer ${token}`,
-      };
+  const fallback = asProvider(token);
+  // 자동 설치(installAxiosAuthAutoWrap)가 중복 설치하지 않도록 표시
+  (axiosInstance as any)[AUTH_INTERCEPTOR] = true;
+
+  axiosInstance.interceptors.request.use(async (cfg) => {
+    const principal = headerValue(cfg.headers, PRINCIPAL_HEADER);
+    const strategy = headerValue(cfg.headers, AUTH_STRATEGY_HEADER);
+    const headers = withoutAuthHints(cfg.headers);
+    cfg.headers = headers as any;
+    if (hasAuthorization(headers) || isSkipAuth(headers)) return cfg;
+
+    const method = cfg.method ?? "get";
+    const url = joinUrl(cfg.baseURL, cfg.url);
+    const applied = await applyStrategy(
+      authStrategyOf(method, url, strategy),
+      { method, url, data: cfg.data },
+      headers,
+      cfg.params
+    );
+    if (applied) {
+      cfg.headers = applied.headers as any;
+      cfg.params = applied.params;
+      return cfg;
     }
+
+    const provider = resolveProvider(fallback, principals, principal);
+    const value = await provider.getToken();
+    if (value) headers.Authorization = `Bearer ${value}`;
+    (cfg as any)[AUTH_STATE] = { provider, token: value };
     return cfg;
   });
-};
 
-const wrapTargetMethods = (target: any, token: string) => {
-  const wrap = (name: "post" | "get" | "put" | "delete" | "patch") => {
-    const fn = target[name];
-    if (!fn || typeof fn !== "function" || (fn as any).__authWrapped) return;
-
-    const wrapped = new Proxy(fn, {
-      apply(orig, thisArg, args: [string, any?, AxiosRequestConfig?]) {
-        const [url, data, cfg] = args;
-        const hasAuth =
-          !!cfg?.headers?.Authorization || !!cfg?.headers?.authorization;
-        const skip =
-          cfg?.headers?.["x-skip-auth"] === true ||
-          cfg?.headers?.["x-skip-auth"] === "true";
-
-        const nextCfg: AxiosRequestConfig =
-          skip || hasAuth
-            ? { ...(cfg ?? {}) }
-            : {
-                ...(cfg ?? {}),
-                headers: {
-                  ...(cfg?.headers ?? {}),
-                  Authorization: `Bearer ${token}`,
-                },
-              };
-
-        return orig.apply(thisArg, [url, data, nextCfg]);
-      },
-    });
-
-    (wrapped as any).__authWrapped = true;
-    target[name] = wrapped;
-  };
-
-  ["post", "get", "put", "delete", "patch"].forEach((m) => wrap(m as any));
+  axiosInstance.interceptors.response.use(undefined, async (err) => {
+    const cfg = err?.config;
+    const state = cfg?.[AUTH_STATE];
+    if (!state || state.retried) throw err;
+    const next = await refreshedToken(err, state.provider, state.token);
+    if (!next) throw err;
+    state.retried = true;
+    cfg.headers = { ...cfg.headers, Authorization: `Bearer ${next}` };
+    return axiosInstance.request(cfg);
+  });
 };
 
-export const wrapMockedAxiosAuth = (mockedAxios: any, token = getToken()) => {
-  if (!token || !mockedAxios) return;
-
-  wrapTargetMethods(mockedAxios, token);
-
-  const origCreate = mockedAxios.create;
-  if (
-    typeof origCreate === "function" &&
-    !(origCreate as any).__authCreatePatched
-  ) {
-    const wrappedCreate = new Proxy(origCreate, {
-      apply(target, thisArg, args: any[]) {
-        const instance = target.apply(thisArg, args);
-        if (instance) wrapTargetMethods(instance, token);
-        return instance;
-      },
-    });
-    (wrappedCreate as any).__authCreatePatched = true;
-    mockedAxios.create = wrappedCreate;
+/** ENV 주체 목록에 없는 이름만 추가 (예: 발급 서버가 없는 mock 모드의 고정 토큰) */
+export const registerPrincipals = (principals: Principals) => {
+  const registered = getEnvAuth().principals;
+  for (const [name, provider] of Object.entries(principals)) {
+    registered[name] ??= provider;
   }
 };
 
-const ensureAuthWrapped = async () => {
-  const vi = (globalThis as any)?.vi;
-  if (!vi) return;
-  const mocked = vi.mocked((await import("axios")).default, true);
-  if (mocked) wrapMockedAxiosAuth(mocked);
+export const hasPrincipal = (name: string) => name in getEnvAuth().principals;
+
+/** 기본 axios 인스턴스에 인증 인터셉터를 1회 설치 (MockAdapter/실제 http 공통) */
+const ensureAuthInstalled = async () => {
+  const axios = (await import("axios")).default;
+  if (!(axios as any)[AUTH_INTERCEPTOR]) setupAuthHeader(axios);
 };
 
 export const installAxiosAuthAutoWrap = () => {
-  const vi = (globalThis as any)?.vi;
   const beforeAll = (globalThis as any)?.beforeAll;
-  const beforeEach = (globalThis as any)?.beforeEach;
-  if (!vi || !beforeAll || !beforeEach) return;
-
-  beforeAll(async () => {
-    await ensureAuthWrapped();
-    queueMicrotask(() => {
-      void ensureAuthWrapped();
-    });
-  });
-
-  beforeEach(async () => {
-    await ensureAuthWrapped();
-  });
-
-  const _clear = vi.clearAllMocks?.bind(vi);
-  if (_clear && !(vi as any).__authPatchedClear) {
-    (vi as any).__authPatchedClear = true;
-    vi.clearAllMocks = function () {
-      const r = _clear();
-      void ensureAuthWrapped();
-      queueMicrotask(() => {
-        void ensureAuthWrapped();
-      });
-      return r;
-    };
-  }
+  if (!beforeAll) return;
+  beforeAll(ensureAuthInstalled);
 };
 
 const AUTH_AUTOWRAP =
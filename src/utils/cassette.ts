@@ -0,0 +1,336 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { STATUS_CODES } from "node:http";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { isDeepStrictEqual } from "node:util";
+import axios, {
+  AxiosError,
+  AxiosHeaders,
+  type AxiosAdapter,
+  type AxiosInstance,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig,
+} from "axios";
+
+import type { Clock } from "./clock";
+import { REDACTED, redactHeaders } from "./logger";
+import { settle } from "./mock-adapter";
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Types
+ * ────────────────────────────────────────────────────────────────────────── */
+/**
+ * none: 재생만 (기록 없으면 ERR_CASSETTE_UNMATCHED) — CI 오프라인 실행
+ * new: 기록 있으면 재생, 없으면 실제 호출 후 추가
+ * all: 기존 기록을 버리고 모든 요청을 다시 녹화
+ */
+export type RecordMode = "none" | "new" | "all";
+
+/**
+ * strict: method + 경로 + 쿼리 + 본문 일치, 기록 순서대로 1회씩 소비
+ * lenient: method + 경로만 비교, 모두 소비되면 마지막 일치 기록 재사용
+ */
+export type MatchMode = "strict" | "lenient";
+
+export interface CassetteRequest {
+  method: string;
+  /**
+   * 경로 + 쿼리 (origin 제외 → 녹화한 서버와 재생 대상이 달라도 일치).
+   * 자격 증명 쿼리(API_KEY_QUERY 등)는 값을 마스킹해 저장·비교
+   */
+  url: string;
+  headers: Record<string, unknown>;
+  body?: unknown;
+}
+
+export interface CassetteResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, unknown>;
+  body?: unknown;
+}
+
+export interface Interaction {
+  recordedAt: string;
+  request: CassetteRequest;
+  response: CassetteResponse;
+}
+
+/** fixtures 디렉터리의 <name>.json */
+export interface CassetteFile {
+  name: string;
+  interactions: Interaction[];
+}
+
+export interface CassetteOptions {
+  /** 기본: VCR_RECORD → none */
+  record?: RecordMode;
+  match?: MatchMode;
+  /** 기본: src/data/cassettes */
+  dir?: string;
+  /** 녹화 시 실제 전송에 쓰는 어댑터 (기본: axios 기본 어댑터) */
+  inner?: AxiosAdapter;
+  now?: Clock;
+}
+
+const RECORD_MODES: RecordMode[] = ["none", "new", "all"];
+
+/** 값을 마스킹할 쿼리 파라미터 (소문자). apiKeyQuery 전략의 API_KEY_QUERY 를 더한다 */
+const SENSITIVE_QUERY_PARAMS = ["api_key", "access_token", "client_secret"];
+
+/** 녹화하지 않는 응답 헤더 (소문자): 홉 간 헤더(RFC 9110 §7.6.1)와 실행마다 바뀌는 값 */
+const UNRECORDED_RESPONSE_HEADERS = new Set([
+  "connection",
+  "keep-alive",
+  "proxy-connection",
+  "transfer-encoding",
+  "te",
+  "trailer",
+  "upgrade",
+  "date",
+  "age",
+]);
+
+export const DEFAULT_CASSETTE_DIR = fileURLToPath(
+  new URL("../data/cassettes", import.meta.url)
+);
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Utils
+ * ────────────────────────────────────────────────────────────────────────── */
+const recordModeFromEnv = (): RecordMode => {
+  const raw = (process.env.VCR_RECORD ?? "").trim().toLowerCase();
+  if (raw === "") return "none";
+  if (!RECORD_MODES.includes(raw as RecordMode)) {
+    throw new Error(`VCR_RECORD는 none|new|all 중 하나여야 합니다: ${raw}`);
+  }
+  return raw as RecordMode;
+};
+
+const plainHeaders = (headers: any): Record<string, unknown> =>
+  typeof headers?.toJSON === "function" ? headers.toJSON() : { ...headers };
+
+const recordableHeaders = (headers: Record<string, unknown>) =>
+  Object.fromEntries(
+    Object.entries(headers).filter(
+      ([name]) => !UNRECORDED_RESPONSE_HEADERS.has(name.toLowerCase())
+    )
+  );
+
+const parseBody = (data: unknown) => {
+  if (typeof data !== "string") return data;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+};
+
+const isSensitiveQuery = (name: string) =>
+  [...SENSITIVE_QUERY_PARAMS, process.env.API_KEY_QUERY || "api_key"].some(
+    (sensitive) => sensitive.toLowerCase() === name.toLowerCase()
+  );
+
+/** 자격 증명 쿼리 값을 마스킹한 경로 + 쿼리 */
+const redactUrl = (url: string) => {
+  const parsed = new URL(url, "http://cassette.local");
+  const names = [...new Set(parsed.searchParams.keys())];
+  for (const name of names.filter(isSensitiveQuery)) {
+    parsed.searchParams.set(name, REDACTED);
+  }
+  return `${parsed.pathname}${parsed.search}`;
+};
+
+/** params 까지 붙인 최종 URL 의 경로 + 쿼리 (마스킹 후) */
+const pathOf = (config: InternalAxiosRequestConfig) =>
+  redactUrl(axios.getUri(config));
+
+/** 쿼리 순서 무관 비교용. 마스킹 전에 녹화된 카세트도 같은 규칙으로 비교 */
+const splitUrl = (url: string) => {
+  const parsed = new URL(redactUrl(url), "http://cassette.local");
+  parsed.searchParams.sort();
+  return { path: parsed.pathname, query: parsed.search };
+};
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Cassette
+ *  - 실제 axios 인스턴스에 꽂는 어댑터라 인증/로거/레코더/재시도 인터셉터가 그대로 동작
+ *  - 요청·응답 헤더는 로거와 같은 규칙(redactHeaders)으로, 자격 증명 쿼리는
+ *    SENSITIVE_QUERY_PARAMS 로 항상 마스킹 후 저장
+ *  - 녹화할 때마다 파일에 바로 기록 (테스트가 중간에 실패해도 녹화분 유지)
+ * ────────────────────────────────────────────────────────────────────────── */
+export class Cassette {
+  readonly path: string;
+  readonly record: RecordMode;
+  readonly match: MatchMode;
+  private readonly inner: AxiosAdapter;
+  private readonly now: Clock;
+  private readonly interactions: Interaction[];
+  private readonly used = new Set<number>();
+
+  constructor(
+    readonly name: string,
+    {
+      record = recordModeFromEnv(),
+      match = "strict",
+      dir = DEFAULT_CASSETTE_DIR,
+      inner = axios.getAdapter(axios.defaults.adapter),
+      now = () => new Date(),
+    }: CassetteOptions = {}
+  ) {
+    this.path = join(dir, `${name}.json`);
+    this.record = record;
+    this.match = match;
+    this.inner = inner;
+    this.now = now;
+    this.interactions = record === "all" ? [] : this.load();
+  }
+
+  /** 재생되지 않은 기록 수 (strict 재생 후 0 이면 녹화 당시 호출을 모두 재현) */
+  get pending() {
+    return this.interactions.length - this.used.size;
+  }
+
+  private load(): Interaction[] {
+    if (!existsSync(this.path)) return [];
+    const file = JSON.parse(readFileSync(this.path, "utf8")) as CassetteFile;
+    return file.interactions ?? [];
+  }
+
+  private save() {
+    const file: CassetteFile = {
+      name: this.name,
+      interactions: this.interactions,
+    };
+    mkdirSync(dirname(this.path), { recursive: true });
+    writeFileSync(this.path, `${JSON.stringify(file, null, 2)}\n`);
+  }
+
+  private matches(recorded: CassetteRequest, req: CassetteRequest) {
+    if (recorded.method !== req.method) return false;
+    const a = splitUrl(recorded.url);
+    const b = splitUrl(req.url);
+    if (a.path !== b.path) return false;
+    if (this.match === "lenient") return true;
+    return a.query === b.query && isDeepStrictEqual(recorded.body, req.body);
+  }
+
+  /** 아직 쓰지 않은 첫 일치 기록 (lenient 는 다 쓰였으면 마지막 일치 재사용) */
+  private find(req: CassetteRequest) {
+    let reusable: Interaction | undefined;
+    for (const [i, interaction] of this.interactions.entries()) {
+      if (!this.matches(interaction.request, req)) continue;
+      if (!this.used.has(i)) {
+        this.used.add(i);
+        return interaction;
+      }
+      reusable = interaction;
+    }
+    return this.match === "lenient" ? reusable : undefined;
+  }
+
+  private append(req: CassetteRequest, res: AxiosResponse) {
+    this.interactions.push({
+      recordedAt: this.now().toISOString(),
+      request: req,
+      response: {
+        status: res.status,
+        statusText: res.statusText || (STATUS_CODES[res.status] ?? ""),
+        headers: redactHeaders(
+          recordableHeaders(plainHeaders(res.headers)),
+          false
+        ),
+        ...(res.data !== undefined &&
+          res.data !== "" && { body: parseBody(res.data) }),
+      },
+    });
+    this.used.add(this.interactions.length - 1);
+    this.save();
+  }
+
+  /** 실제 호출. 4xx/5xx 응답도 녹화하고 원래 에러를 그대로 던진다 (네트워크 오류는 녹화 안 함) */
+  private async recordFrom(
+    config: InternalAxiosRequestConfig,
+    req: CassetteRequest
+  ) {
+    try {
+      const res = await this.inner(config);
+      this.append(req, res);
+      return res;
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response) {
+        this.append(req, error.response);
+      }
+      throw error;
+    }
+  }
+
+  readonly adapter: AxiosAdapter = async (config) => {
+    const req: CassetteRequest = {
+      method: (config.method ?? "get").toUpperCase(),
+      url: pathOf(config),
+      headers: redactHeaders(plainHeaders(config.headers), false),
+      ...(config.data !== undefined && { body: parseBody(config.data) }),
+    };
+    if (this.record === "all") return this.recordFrom(config, req);
+
+    const hit = this.find(req);
+    if (hit) {
+      const { status, statusText, headers, body } = hit.response;
+      return settle(
+        {
+          status,
+          statusText,
+          headers: new AxiosHeaders(headers as Record<string, string>),
+          // 응답 본문은 JSON 문자열로 넘겨 transformResponse 가 파싱 (실제 http 어댑터와 동일)
+          data:
+            body === undefined
+              ? ""
+              : typeof body === "string"
+              ? body
+              : JSON.stringify(body),
+          config,
+          request: { ...req, cassette: this.name },
+        },
+        config
+      );
+    }
+    if (this.record === "none") {
+      throw new AxiosError(
+        `카세트 ${this.name} 에 일치하는 기록이 없습니다 (VCR_RECORD=none): ${req.method} ${req.url}`,
+        "ERR_CASSETTE_UNMATCHED",
+        config,
+        req
+      );
+    }
+    return this.recordFrom(config, req);
+  };
+
+  /** 인스턴스 기본 어댑터 교체. 원복 함수 반환 */
+  install(axiosInstance: AxiosInstance) {
+    const previous = axiosInstance.defaults.adapter;
+    axiosInstance.defaults.adapter = this.adapter;
+    return () => {
+      axiosInstance.defaults.adapter = previous;
+    };
+  }
+}
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Public API
+ * ────────────────────────────────────────────────────────────────────────── */
+/** 카세트를 열어 인스턴스에 꽂는다. 녹화 시 기존 어댑터로 실제 호출 */
+export const useCassette = (
+  axiosInstance: AxiosInstance,
+  name: string,
+  options: Omit<CassetteOptions, "inner"> = {}
+) => {
+  const cassette = new Cassette(name, {
+    ...options,
+    inner: axios.getAdapter(
+      axiosInstance.defaults.adapter ?? axios.defaults.adapter
+    ),
+  });
+  const eject = cassette.install(axiosInstance);
+  return { cassette, eject };
+};
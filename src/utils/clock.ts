@@ -0,0 +1,76 @@
+import axios from "axios";
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Types
+ * ────────────────────────────────────────────────────────────────────────── */
+export type Clock = () => Date;
+
+/** ms 숫자 또는 단위별 합 (예: { minutes: 5, ms: 1 }) */
+export type Duration =
+  | number
+  | { minutes?: number; seconds?: number; ms?: number };
+
+/** 목 서버 시계 제어 경로 (POST { advanceMs } / DELETE 로 원복) */
+export const MOCK_CLOCK_PATH = "/__mock/clock";
+
+export const toMs = (duration: Duration) =>
+  typeof duration === "number"
+    ? duration
+    : (duration.minutes ?? 0) * 60_000 +
+      (duration.seconds ?? 0) * 1000 +
+      (duration.ms ?? 0);
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * FakeClock
+ *  - createErrorFactory / MockApiServer / HttpLogger 의 now 로 주입
+ * ────────────────────────────────────────────────────────────────────────── */
+export class FakeClock {
+  private current: number;
+
+  constructor(private readonly start: Date | string | number = Date.now()) {
+    this.current = new Date(start).getTime();
+  }
+
+  readonly now: Clock = () => new Date(this.current);
+
+  advance(by: Duration) {
+    this.current += toMs(by);
+    return this.now();
+  }
+
+  set(at: Date | string | number) {
+    this.current = new Date(at).getTime();
+    return this.now();
+  }
+
+  /** 생성 시각으로 되돌림 */
+  reset() {
+    return this.set(this.start);
+  }
+}
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * 원격 목 서버 시계 (TEST_TARGET=live + MOCK_SERVER=true)
+ *  - globalSetup 의 목 서버는 다른 프로세스라 FakeClock 을 주입할 수 없음
+ * ────────────────────────────────────────────────────────────────────────── */
+export const advanceMockServerClock = async (
+  baseURL: string,
+  by: Duration,
+  http: { post: typeof axios.post } = axios
+) => {
+  const res = await http.post(
+    `${baseURL}${MOCK_CLOCK_PATH}`,
+    { advanceMs: toMs(by) },
+    { headers: { "x-skip-auth": "true" } }
+  );
+  return new Date(res.data.now);
+};
+
+export const resetMockServerClock = async (
+  baseURL: string,
+  http: { delete: typeof axios.delete } = axios
+) => {
+  await http.delete(`${baseURL}${MOCK_CLOCK_PATH}`, {
+    headers: { "x-skip-auth": "true" },
+  });
+};
@@ -0,0 +1,109 @@
+import { getSpec, type SpecKey } from "./api-spec";
+import type { Clock } from "./clock";
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Types
+ * ────────────────────────────────────────────────────────────────────────── */
+export type { Clock };
+
+export interface ErrorEnvelope {
+  status: "ERROR";
+  message: string;
+  errorCode?: string;
+  timestamp: string;
+}
+
+export interface ErrorOverrides {
+  /** 기본값: errorCodes[].Description */
+  message?: string;
+  /** 기본값: 주입된 clock 기준 ISO 문자열 */
+  timestamp?: string;
+  /** examples.failure 처럼 errorCode 필드를 생략할 수 있는 서버 대비 */
+  omitErrorCode?: boolean;
+}
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Status ↔ ErrorCode consistency
+ * ────────────────────────────────────────────────────────────────────────── */
+/**
+ * 응답 본문이 해당 엔드포인트(key)의 errorCodes 와 맞는지 확인한다.
+ *  - errorCode 가 있으면 그 엔드포인트에 선언되어 있고 HttpStatus 가 같아야 한다
+ *    (예: menu/select 의 404 + INSUFFICIENT_INGREDIENTS, 422 + RESERVATION_EXPIRED 는 거부)
+ *  - errorCode 가 없으면 status 가 그 엔드포인트에 선언된 HttpStatus 중 하나여야 한다
+ */
+export const assertErrorStatus = (
+  key: SpecKey,
+  status: number,
+  data: unknown
+) => {
+  const { errorCodes } = getSpec(key);
+  const errorCode = (data as { errorCode?: unknown } | undefined)?.errorCode;
+
+  if (typeof errorCode !== "string") {
+    if (!errorCodes.some((e) => e.HttpStatus === status)) {
+      throw new Error(
+        `API 스펙(${key})에 HTTP ${status} 에러 정의가 필요합니다.`
+      );
+    }
+    return;
+  }
+
+  const statuses = errorCodes
+    .filter((e) => e.ErrorCode === errorCode)
+    .map((e) => e.HttpStatus);
+  if (!statuses.length) {
+    throw new Error(`API 스펙(${key})에 ${errorCode} 에러 정의가 필요합니다.`);
+  }
+  if (!statuses.includes(status)) {
+    throw new Error(
+      `${errorCode}는 HTTP ${statuses.join(
+        "/"
+      )}로 정의되어 있어 ${status}와 함께 쓸 수 없습니다.`
+    );
+  }
+};
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Public API
+ * ────────────────────────────────────────────────────────────────────────── */
+export const createErrorFactory = (
+  key: SpecKey,
+  { now = () => new Date() }: { now?: Clock } = {}
+) => {
+  const spec = getSpec(key);
+
+  const definitionOf = (errorCode: string) => {
+    const def = spec.errorCodes.find((e) => e.ErrorCode === errorCode);
+    if (!def) {
+      throw new Error(
+        `API 스펙(${key})에 ${errorCode} 에러 정의가 필요합니다.`
+      );
+    }
+    return def;
+  };
+
+  const build = (
+    errorCode: string,
+    overrides: ErrorOverrides = {}
+  ): ErrorEnvelope => {
+    const def = definitionOf(errorCode);
+    return {
+      status: "ERROR",
+      message: overrides.message ?? def.Description,
+      ...(overrides.omitErrorCode ? {} : { errorCode: def.ErrorCode }),
+      timestamp: overrides.timestamp ?? now().toISOString(),
+    };
+  };
+
+  /** responseBodySchema.examples.failure 를 clock 기준 timestamp 로 재구성 */
+  const example = (overrides: Omit<ErrorOverrides, "message"> = {}) => {
+    const failure = spec.responseBodySchema.examples.failure;
+    return build(failure.errorCode, { message: failure.message, ...overrides });
+  };
+
+  return {
+    build,
+    example,
+    statusOf: (errorCode: string) => definitionOf(errorCode).HttpStatus,
+  };
+};
@@ -0,0 +1,288 @@
+import { randomInt } from "node:crypto";
+import type { IncomingMessage, ServerResponse } from "node:http";
+import axios, { AxiosError, AxiosHeaders, type AxiosAdapter } from "axios";
+
+import { settle } from "./mock-adapter";
+import { matchesRoute, type RouteMatcher } from "./request-recorder";
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Types
+ * ────────────────────────────────────────────────────────────────────────── */
+export type Fault =
+  /** 응답 전 지연. 요청 timeout 보다 길면 ECONNABORTED */
+  | { type: "delay"; ms: number }
+  /** 헤더까지만 보내고 연결 끊기 (ERR_BAD_RESPONSE "stream has been aborted") */
+  | { type: "abortAfterHeaders" }
+  /** 응답 없이 소켓 종료 (ECONNRESET "socket hang up") */
+  | { type: "reset" }
+  /** 본문 앞 bytes 만 보냄 (기본: 절반) */
+  | { type: "truncate"; bytes?: number }
+  | { type: "contentType"; value: string }
+  /** JSON 대신 HTML 등 다른 본문 */
+  | { type: "nonJson"; body?: string }
+  /** 발생하면 length 번 연속 5xx (기본 503 × 1) */
+  | { type: "burst"; status?: number; length?: number };
+
+export interface FaultRule {
+  /** 스펙 ID, 경로(끝 일치) 또는 정규식. 생략하면 모든 요청 */
+  route?: RouteMatcher;
+  fault: Fault;
+  /** 발생 확률 0~1 (기본 1) */
+  probability?: number;
+  /** 최대 발생 횟수 (burst 는 시작 횟수) */
+  times?: number;
+}
+
+export interface FaultInjectorOptions {
+  /** 기본: FAULT_SEED → 없으면 무작위 (에러 메시지에 seed 를 남김) */
+  seed?: number;
+}
+
+/** 로컬 서버 미들웨어 (connect 스타일) */
+export type FaultMiddleware = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  next: () => void
+) => void;
+
+const DEFAULT_NON_JSON = "<html><body><h1>502 Bad Gateway</h1></body></html>";
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Seeded random (mulberry32)
+ * ────────────────────────────────────────────────────────────────────────── */
+export const seededRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4_294_967_296;
+  };
+};
+
+/** 환경 변수의 정수 seed. 없으면 무작위 (FAULT_SEED / FUZZ_SEED) */
+export const seedFromEnv = (name: string) => {
+  const raw = process.env[name];
+  if (raw === undefined || raw === "") return randomInt(2 ** 31);
+  const seed = Number(raw);
+  if (!Number.isInteger(seed)) {
+    throw new Error(`${name}는 정수여야 합니다: ${raw}`);
+  }
+  return seed;
+};
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * FaultInjector
+ * ────────────────────────────────────────────────────────────────────────── */
+export class FaultInjector {
+  readonly seed: number;
+  private random: () => number;
+  private state: Array<{ hits: number; burstLeft: number }>;
+
+  constructor(
+    private readonly rules: FaultRule[],
+    { seed = seedFromEnv("FAULT_SEED") }: FaultInjectorOptions = {}
+  ) {
+    this.seed = seed;
+    this.random = seededRandom(seed);
+    this.state = rules.map(() => ({ hits: 0, burstLeft: 0 }));
+  }
+
+  /** 이번 요청에 주입할 장애 (규칙 순서대로 첫 번째 발생) */
+  pick(method: string, url: string): Fault | undefined {
+    for (const [i, rule] of this.rules.entries()) {
+      if (rule.route && !matchesRoute(rule.route, method, url)) continue;
+      const state = this.state[i];
+      if (state.burstLeft > 0) {
+        state.burstLeft--;
+        return rule.fault;
+      }
+      if (rule.times !== undefined && state.hits >= rule.times) continue;
+      // 확률 1 규칙은 난수를 소비하지 않아 규칙 추가로 시퀀스가 밀리지 않음
+      const probability = rule.probability ?? 1;
+      if (probability < 1 && this.random() >= probability) continue;
+      state.hits++;
+      if (rule.fault.type === "burst") {
+        state.burstLeft = (rule.fault.length ?? 1) - 1;
+      }
+      return rule.fault;
+    }
+    return undefined;
+  }
+
+  /** 같은 seed 로 처음부터 다시 */
+  reset() {
+    this.random = seededRandom(this.seed);
+    this.state = this.rules.map(() => ({ hits: 0, burstLeft: 0 }));
+  }
+
+  /** 에러 메시지용 라벨 (재현용 seed 포함) */
+  label(fault: Fault) {
+    return `fault-injection ${fault.type} (FAULT_SEED=${this.seed})`;
+  }
+}
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Utils
+ * ────────────────────────────────────────────────────────────────────────── */
+const sleep = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const joinUrl = (baseURL?: string, url = "") =>
+  baseURL && !/^https?:\/\//.test(url)
+    ? `${baseURL.replace(/\/+$/, "")}/${url.replace(/^\/+/, "")}`
+    : url;
+
+const textOf = (data: unknown) =>
+  typeof data === "string" ? data : JSON.stringify(data) ?? "";
+
+const truncated = (text: string, bytes?: number) =>
+  Buffer.from(text)
+    .subarray(0, bytes ?? Math.floor(Buffer.byteLength(text) / 2))
+    .toString();
+
+const burstBody = (status: number, label: string) =>
+  JSON.stringify({ status: "ERROR", message: `HTTP ${status} — ${label}` });
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Public API
+ * ────────────────────────────────────────────────────────────────────────── */
+/**
+ * axios 어댑터. 실제 http 어댑터가 내는 것과 같은 code/message 로 실패시키고
+ * 본문 변형은 transformResponse(JSON 파싱) 이전 단계에서 적용
+ */
+export const createFaultAdapter = (
+  injector: FaultInjector,
+  inner: AxiosAdapter = axios.getAdapter(axios.defaults.adapter)
+): AxiosAdapter => {
+  return async (config) => {
+    const fault = injector.pick(
+      config.method ?? "get",
+      joinUrl(config.baseURL, config.url)
+    );
+    if (!fault) return inner(config);
+    const request = { fault: injector.label(fault) };
+
+    switch (fault.type) {
+      case "delay": {
+        const timeout = config.timeout ?? 0;
+        if (timeout > 0 && fault.ms >= timeout) {
+          await sleep(timeout);
+          throw new AxiosError(
+            config.timeoutErrorMessage ?? `timeout of ${timeout}ms exceeded`,
+            config.transitional?.clarifyTimeoutError
+              ? AxiosError.ETIMEDOUT
+              : AxiosError.ECONNABORTED,
+            config,
+            request
+          );
+        }
+        await sleep(fault.ms);
+        return inner(config);
+      }
+      case "reset":
+        throw new AxiosError("socket hang up", "ECONNRESET", config, request);
+      case "abortAfterHeaders":
+        throw new AxiosError(
+          "stream has been aborted",
+          AxiosError.ERR_BAD_RESPONSE,
+          config,
+          request
+        );
+      case "burst": {
+        const status = fault.status ?? 503;
+        return settle(
+          {
+            status,
+            statusText: "",
+            headers: new AxiosHeaders({ "Content-Type": "application/json" }),
+            data: burstBody(status, injector.label(fault)),
+            config,
+            request,
+          },
+          config
+        );
+      }
+    }
+
+    const res = await inner(config);
+    const headers = AxiosHeaders.from(res.headers as any);
+    switch (fault.type) {
+      case "truncate":
+        return { ...res, data: truncated(textOf(res.data), fault.bytes) };
+      case "contentType":
+        headers.set("Content-Type", fault.value);
+        return { ...res, headers };
+      case "nonJson":
+        headers.set("Content-Type", "text/html; charset=utf-8");
+        return { ...res, headers, data: fault.body ?? DEFAULT_NON_JSON };
+    }
+  };
+};
+
+/** 로컬 HTTP 서버용. 소켓 단위로 실제 장애를 만든다 (MockApiServer faults 옵션) */
+export const faultMiddleware =
+  (injector: FaultInjector): FaultMiddleware =>
+  (req, res, next) => {
+    const fault = injector.pick(req.method ?? "GET", req.url ?? "/");
+    if (!fault) return next();
+
+    const writeHead = res.writeHead.bind(res) as (...args: any[]) => void;
+    const end = res.end.bind(res) as (...args: any[]) => void;
+    const withContentType = (headers: any, value: string) => ({
+      ...Object.fromEntries(
+        Object.entries(headers ?? {}).filter(
+          ([key]) => key.toLowerCase() !== "content-type"
+        )
+      ),
+      "Content-Type": value,
+    });
+
+    switch (fault.type) {
+      case "delay":
+        setTimeout(next, fault.ms);
+        return;
+      case "reset":
+        req.socket.destroy();
+        return;
+      case "abortAfterHeaders":
+        writeHead(200, {
+          "Content-Type": "application/json",
+          "Content-Length": "1024",
+        });
+        res.write("{");
+        setImmediate(() => req.socket.destroy());
+        return;
+      case "burst": {
+        const status = fault.status ?? 503;
+        writeHead(status, { "Content-Type": "application/json" });
+        end(burstBody(status, injector.label(fault)));
+        return;
+      }
+      case "truncate":
+        res.end = ((chunk?: any) => {
+          end(truncated(textOf(chunk?.toString()), fault.bytes));
+          return res;
+        }) as typeof res.end;
+        return next();
+      case "contentType":
+        res.writeHead = ((status: number, headers?: any) => {
+          writeHead(status, withContentType(headers, fault.value));
+          return res;
+        }) as typeof res.writeHead;
+        return next();
+      case "nonJson":
+        res.writeHead = ((status: number, headers?: any) => {
+          writeHead(
+            status,
+            withContentType(headers, "text/html; charset=utf-8")
+          );
+          return res;
+        }) as typeof res.writeHead;
+        res.end = (() => {
+          end(fault.body ?? DEFAULT_NON_JSON);
+          return res;
+        }) as typeof res.end;
+        return next();
+    }
+  };
@@ -0,0 +1,289 @@
+import { readFileSync } from "node:fs";
+import { parse as parseYaml } from "yaml";
+
+import { createApiClient, type CallOptions } from "./api-client";
+import { getSpec, type SpecKey } from "./api-spec";
+import { createErrorFactory } from "./error-fixtures";
+import { HttpLogger } from "./logger";
+import { buildSpecSchemas } from "./spec-schema";
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Types
+ * ────────────────────────────────────────────────────────────────────────── */
+export type FlowVars = Record<string, unknown>;
+type Resolvable<T> = T | ((vars: FlowVars) => T);
+
+export interface StepResponse {
+  status: number;
+  data: any;
+  headers: Record<string, unknown>;
+}
+
+/** true/undefined 면 통과, false 또는 throw 면 실패 */
+export type FlowPredicate = (
+  res: StepResponse,
+  vars: FlowVars
+) => boolean | void | Promise<boolean | void>;
+
+export interface FlowExpect {
+  /** 기본: 2xx */
+  status?: number;
+  errorCode?: string;
+  /** 2xx 응답을 스펙 responseBodySchema 로 검증 (기본 true) */
+  schema?: boolean;
+  /** JSONPath → 기대값 ({{변수}} 허용) */
+  equals?: Record<string, unknown>;
+  /** TS 빌더 전용 사용자 조건 */
+  that?: FlowPredicate[];
+}
+
+export interface FlowStep {
+  name?: string;
+  spec: SpecKey;
+  /** {{변수}} 템플릿 또는 변수 → 본문 함수 */
+  body?: Resolvable<object>;
+  headers?: Resolvable<Record<string, string>>;
+  options?: Omit<CallOptions, "headers">;
+  expect?: FlowExpect;
+  /** 변수명 → JSONPath (예: $.data.reservationId) */
+  extract?: Record<string, string>;
+}
+
+export interface FlowDefinition {
+  name: string;
+  vars?: FlowVars;
+  steps: FlowStep[];
+}
+
+export interface FlowResult {
+  vars: FlowVars;
+  steps: Array<{ name: string; spec: SpecKey } & StepResponse>;
+}
+
+export interface RunFlowOptions {
+  client?: Pick<ReturnType<typeof createApiClient>, "callRaw">;
+  logger?: HttpLogger;
+  vars?: FlowVars;
+}
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * JSONPath (부분집합: $, .key, [0], ['key'])
+ * ────────────────────────────────────────────────────────────────────────── */
+const parsePath = (path: string) => {
+  if (!path.startsWith("$")) {
+    throw new Error(`JSONPath 는 $ 로 시작해야 합니다: ${path}`);
+  }
+  const tokens: Array<string | number> = [];
+  const re = /\.([A-Za-z_$][\w$]*)|\[(\d+)\]|\[(['"])(.*?)\3\]/y;
+  re.lastIndex = 1;
+  while (re.lastIndex < path.length) {
+    const at = re.lastIndex;
+    const m = re.exec(path);
+    if (!m) {
+      throw new Error(`지원하지 않는 JSONPath 입니다: ${path} (위치 ${at})`);
+    }
+    tokens.push(m[1] ?? (m[2] !== undefined ? Number(m[2]) : m[4]));
+  }
+  return tokens;
+};
+
+export const jsonPath = (value: unknown, path: string): unknown =>
+  parsePath(path).reduce<any>(
+    (cur, token) => (cur == null ? undefined : cur[token]),
+    value
+  );
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Templates ({{name}})
+ *  - 문자열 전체가 {{name}} 이면 원래 타입 유지, 일부면 문자열 치환
+ * ────────────────────────────────────────────────────────────────────────── */
+const varOf = (vars: FlowVars, name: string) => {
+  if (!(name in vars)) {
+    throw new Error(`플로우 변수 ${name} 이(가) 정의되지 않았습니다.`);
+  }
+  return vars[name];
+};
+
+export const resolveTemplate = (value: unknown, vars: FlowVars): unknown => {
+  if (typeof value === "string") {
+    const whole = /^\{\{\s*([\w.-]+)\s*\}\}$/.exec(value);
+    if (whole) return varOf(vars, whole[1]);
+    return value.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (_, name) =>
+      String(varOf(vars, name))
+    );
+  }
+  if (Array.isArray(value)) return value.map((v) => resolveTemplate(v, vars));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, resolveTemplate(v, vars)])
+    );
+  }
+  return value;
+};
+
+const resolve = <T>(value: Resolvable<T> | undefined, vars: FlowVars) =>
+  (typeof value === "function"
+    ? (value as (vars: FlowVars) => T)(vars)
+    : resolveTemplate(value, vars)) as T | undefined;
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Step execution
+ * ────────────────────────────────────────────────────────────────────────── */
+const toStepResponse = (res: any): StepResponse => ({
+  status: res.status,
+  data: res.data,
+  headers: { ...(res.headers ?? {}) },
+});
+
+const send = async (
+  client: NonNullable<RunFlowOptions["client"]>,
+  step: FlowStep,
+  vars: FlowVars
+) => {
+  try {
+    return toStepResponse(
+      await client.callRaw(step.spec, resolve(step.body, vars), {
+        ...step.options,
+        headers: resolve(step.headers, vars),
+      })
+    );
+  } catch (err: any) {
+    // HTTP 응답이 있는 실패는 기대값 검증 대상, 네트워크 오류는 그대로 실패
+    if (err?.response) return toStepResponse(err.response);
+    throw err;
+  }
+};
+
+const checkExpect = async (
+  step: FlowStep,
+  res: StepResponse,
+  vars: FlowVars
+) => {
+  const exp = step.expect ?? {};
+  const ok2xx = res.status >= 200 && res.status < 300;
+
+  if (exp.status !== undefined ? res.status !== exp.status : !ok2xx) {
+    throw new Error(
+      `HTTP ${exp.status ?? "2xx"} 기대, 실제 ${res.status} ${JSON.stringify(
+        res.data
+      )}`
+    );
+  }
+  if (exp.errorCode !== undefined) {
+    if (res.data?.errorCode !== exp.errorCode) {
+      throw new Error(
+        `errorCode ${exp.errorCode} 기대, 실제 ${res.data?.errorCode}`
+      );
+    }
+    const declared = createErrorFactory(step.spec).statusOf(exp.errorCode);
+    if (declared !== res.status) {
+      throw new Error(
+        `${exp.errorCode}는 HTTP ${declared}로 정의되어 있습니다: 실제 ${res.status}`
+      );
+    }
+  }
+  if (ok2xx && exp.schema !== false) {
+    const parsed = buildSpecSchemas(step.spec).response.safeParse(res.data);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      throw new Error(
+        `응답 스키마 위반: ${issue.path.join(".") || "(root)"} ${issue.message}`
+      );
+    }
+  }
+  for (const [path, expected] of Object.entries(exp.equals ?? {})) {
+    const actual = jsonPath(res.data, path);
+    const want = resolveTemplate(expected, vars);
+    if (JSON.stringify(actual) !== JSON.stringify(want)) {
+      throw new Error(
+        `${path} 기대 ${JSON.stringify(want)}, 실제 ${JSON.stringify(actual)}`
+      );
+    }
+  }
+  for (const [i, predicate] of (exp.that ?? []).entries()) {
+    if ((await predicate(res, vars)) === false) {
+      throw new Error(`사용자 조건 #${i + 1} 불만족`);
+    }
+  }
+};
+
+const extractVars = (step: FlowStep, res: StepResponse) =>
+  Object.fromEntries(
+    Object.entries(step.extract ?? {}).map(([name, path]) => {
+      const value = jsonPath(res.data, path);
+      if (value === undefined) {
+        throw new Error(`${path} 에서 ${name} 값을 추출할 수 없습니다.`);
+      }
+      return [name, value];
+    })
+  );
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Public API
+ * ────────────────────────────────────────────────────────────────────────── */
+export const runFlow = async (
+  definition: FlowDefinition,
+  {
+    client = createApiClient(),
+    logger = new HttpLogger(),
+    vars: initial = {},
+  }: RunFlowOptions = {}
+): Promise<FlowResult> => {
+  const vars: FlowVars = { ...definition.vars, ...initial };
+  const steps: FlowResult["steps"] = [];
+
+  for (const [i, step] of definition.steps.entries()) {
+    const name = step.name ?? step.spec;
+    const log = { flow: definition.name, index: i + 1, name, spec: step.spec };
+    let res: StepResponse | undefined;
+    try {
+      res = await send(client, step, vars);
+      await checkExpect(step, res, vars);
+      const extracted = extractVars(step, res);
+      Object.assign(vars, extracted);
+      logger.logStep({ ...log, status: res.status, extracted });
+      steps.push({ name, spec: step.spec, ...res });
+    } catch (err: any) {
+      const message = String(err?.message ?? err);
+      logger.logStep({ ...log, status: res?.status, error: message });
+      throw new Error(
+        `플로우 "${definition.name}" ${i + 1}단계(${name}) 실패: ${message}`
+      );
+    }
+  }
+  return { vars, steps };
+};
+
+export class FlowBuilder {
+  private readonly steps: FlowStep[] = [];
+
+  constructor(readonly name: string, private readonly vars: FlowVars = {}) {}
+
+  step(spec: SpecKey, def: Omit<FlowStep, "spec"> = {}) {
+    this.steps.push({ spec, ...def });
+    return this;
+  }
+
+  build(): FlowDefinition {
+    return { name: this.name, vars: { ...this.vars }, steps: [...this.steps] };
+  }
+
+  run(options?: RunFlowOptions) {
+    return runFlow(this.build(), options);
+  }
+}
+
+export const flow = (name: string, vars?: FlowVars) =>
+  new FlowBuilder(name, vars);
+
+/** YAML/JSON 플로우 정의 (JSON 은 YAML 의 부분집합이라 같은 파서 사용) */
+export const parseFlow = (text: string): FlowDefinition => {
+  const raw = parseYaml(text);
+  if (!raw || typeof raw.name !== "string" || !Array.isArray(raw.steps)) {
+    throw new Error("플로우 정의에는 name 과 steps 배열이 필요합니다.");
+  }
+  for (const step of raw.steps) getSpec(step?.spec);
+  return raw as FlowDefinition;
+};
+
+export const loadFlow = (path: string) => parseFlow(readFileSync(path, "utf8"));
@@ -0,0 +1,433 @@
+import axios, { type AxiosResponse } from "axios";
+
+import { getSpec, type JsonSchema, type SpecKey } from "./api-spec";
+import { createApiClient, type CallOptions } from "./api-client";
+import { seededRandom, seedFromEnv } from "./fault-injection";
+import { buildSpecSchemas } from "./spec-schema";
+import { SpecValidationError } from "./spec-validator";
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Types
+ * ────────────────────────────────────────────────────────────────────────── */
+export type Random = () => number;
+
+export interface Arbitrary<T> {
+  generate(random: Random): T;
+  /** 더 단순한 후보 (앞쪽일수록 작다). 비면 더 줄일 수 없음 */
+  shrink(value: T): T[];
+}
+
+export interface FuzzOptions {
+  /** 기본: FUZZ_SEED → 없으면 무작위 (실패 메시지에 seed 를 남김) */
+  seed?: number;
+  /** 기본: FUZZ_RUNS → 100 */
+  runs?: number;
+  /** 축소 중 속성 재실행 상한 (기본 500) */
+  maxShrinkAttempts?: number;
+}
+
+export interface FuzzResult {
+  seed: number;
+  runs: number;
+}
+
+export class FuzzFailure<T = unknown> extends Error {
+  constructor(
+    readonly seed: number,
+    /** 몇 번째 입력에서 실패했는지 (1부터) */
+    readonly run: number,
+    /** 축소된 최소 반례 */
+    readonly counterexample: T,
+    readonly shrinks: number,
+    readonly cause: unknown
+  ) {
+    super(
+      [
+        `속성 위반 (FUZZ_SEED=${seed}, ${run}번째 입력, 축소 ${shrinks}회)`,
+        `반례: ${JSON.stringify(counterexample)}`,
+        `원인: ${cause instanceof Error ? cause.message : String(cause)}`,
+      ].join("\n")
+    );
+    this.name = "FuzzFailure";
+  }
+}
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Utils
+ * ────────────────────────────────────────────────────────────────────────── */
+const pick = <T>(random: Random, items: readonly T[]) =>
+  items[Math.floor(random() * items.length)];
+
+const intBetween = (random: Random, min: number, max: number) =>
+  min + Math.floor(random() * (max - min + 1));
+
+const unique = <T>(values: T[], original: T) => {
+  const seen = new Set<string>([JSON.stringify(original)]);
+  return values.filter((v) => {
+    const key = JSON.stringify(v);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+const runsFromEnv = () => {
+  const runs = Number(process.env.FUZZ_RUNS ?? 100);
+  return Number.isInteger(runs) && runs > 0 ? runs : 100;
+};
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Arbitraries
+ * ────────────────────────────────────────────────────────────────────────── */
+/** 한글, 결합 문자, 이모지(ZWJ), 제로폭, RTL, 제어 문자, 짝 없는 서로게이트 */
+const UNICODE = [
+  "한",
+  "글",
+  "é",
+  "é",
+  "😀",
+  "👨‍👩‍👧",
+  "​",
+  "‮",
+  "\u0000",
+  "\n",
+  "\ud800",
+  "'",
+  '"',
+  "\\",
+  "<",
+  "%",
+];
+const ASCII = "abcdefghijklmnopqrstuvwxyz0123456789_-";
+
+/** 짧은 ASCII/유니코드 혼합, 빈 문자열, 거대 문자열(10k~100k) */
+export const strings = (): Arbitrary<string> => ({
+  generate: (random) => {
+    const roll = random();
+    if (roll < 0.1) return "";
+    if (roll < 0.2) return "x".repeat(intBetween(random, 10_000, 100_000));
+    const length = intBetween(random, 1, 16);
+    let out = "";
+    for (let i = 0; i < length; i++) {
+      out += random() < 0.4 ? pick(random, UNICODE) : pick(random, [...ASCII]);
+    }
+    return out;
+  },
+  shrink: (value) => {
+    const chars = [...value];
+    const candidates = [
+      "",
+      chars.slice(0, Math.ceil(chars.length / 2)).join(""),
+      chars.slice(Math.ceil(chars.length / 2)).join(""),
+    ];
+    if (chars.length <= 32) {
+      chars.forEach((_, i) =>
+        candidates.push([...chars.slice(0, i), ...chars.slice(i + 1)].join(""))
+      );
+      chars.forEach((ch, i) => {
+        if (ch !== "a") {
+          candidates.push(
+            [...chars.slice(0, i), "a", ...chars.slice(i + 1)].join("")
+          );
+        }
+      });
+    }
+    return unique(
+      candidates.filter((c) => c.length < value.length || c < value),
+      value
+    );
+  },
+});
+
+/** 경계값(min/max ±1, 0, ±2^31, ±MAX_SAFE_INTEGER, 1e21 등) 위주 + 범위 안팎 정수 + 소수 */
+export const numbers = (schema: JsonSchema = {}): Arbitrary<number> => {
+  const min = schema.minimum ?? -1000;
+  const max = schema.maximum ?? 1000;
+  const edges = [
+    min,
+    max,
+    min - 1,
+    max + 1,
+    0,
+    -0,
+    -1,
+    1,
+    2 ** 31 - 1,
+    2 ** 31,
+    -(2 ** 31),
+    Number.MAX_SAFE_INTEGER,
+    Number.MAX_SAFE_INTEGER + 2,
+    -Number.MAX_SAFE_INTEGER,
+    1e21,
+    0.5,
+    min + 0.5,
+  ];
+  return {
+    generate: (random) => {
+      const roll = random();
+      if (roll < 0.4) return pick(random, edges);
+      if (roll < 0.9) return intBetween(random, min, max);
+      return Math.round((min + random() * (max - min)) * 100) / 100;
+    },
+    // 0 에 가까운 쪽으로
+    shrink: (value) =>
+      unique(
+        [
+          0,
+          1,
+          Math.trunc(value),
+          Math.trunc(value / 2),
+          value - Math.sign(value),
+        ]
+          .filter((c) => Number.isFinite(c))
+          .filter(
+            (c) =>
+              Math.abs(c) < Math.abs(value) ||
+              (Number.isInteger(c) && !Number.isInteger(value))
+          ),
+        value
+      ),
+  };
+};
+
+/** 타입이 다른 값 (null/불리언/숫자/문자열/배열/객체) */
+export const anyJson = (): Arbitrary<unknown> => ({
+  generate: (random) =>
+    pick(random, [
+      null,
+      true,
+      false,
+      0,
+      -1,
+      1.5,
+      "",
+      "1",
+      [],
+      [1],
+      {},
+      { a: 1 },
+    ]),
+  shrink: (value) => (value === null ? [] : [null]),
+});
+
+export const constantFrom = <T>(values: readonly T[]): Arbitrary<T> => ({
+  generate: (random) => pick(random, values),
+  shrink: (value) => (value === values[0] ? [] : [values[0]]),
+});
+
+const matchesType = (value: unknown, schema: JsonSchema) => {
+  switch (schema.type) {
+    case "string":
+      return typeof value === "string";
+    case "integer":
+    case "number":
+      return typeof value === "number";
+    case "boolean":
+      return typeof value === "boolean";
+    case "object":
+      return !!value && typeof value === "object" && !Array.isArray(value);
+    case "array":
+      return Array.isArray(value);
+    default:
+      return true;
+  }
+};
+
+/**
+ * 필드 누락(5%), 타입 오류(5%), 추가 필드(5%)를 섞은 객체.
+ * example 값(30%)도 섞어 서버의 성공 경로까지 닿게 하고, 나머지는 스키마 타입대로
+ */
+const objects = (schema: JsonSchema): Arbitrary<Record<string, unknown>> => {
+  const props = Object.entries(schema.properties ?? {}).map(
+    ([name, prop]) => [name, prop, fromSchema(prop)] as const
+  );
+  const example = (schema.example ?? {}) as Record<string, unknown>;
+  const wrong = anyJson();
+  const extra = strings();
+
+  return {
+    generate: (random) => {
+      const out: Record<string, unknown> = {};
+      for (const [name, , arb] of props) {
+        const roll = random();
+        if (roll < 0.05) continue;
+        if (roll < 0.1) {
+          out[name] = wrong.generate(random);
+        } else if (roll < 0.4 && example[name] !== undefined) {
+          out[name] = example[name];
+        } else {
+          out[name] = arb.generate(random);
+        }
+      }
+      if (random() < 0.05) out.unexpectedField = extra.generate(random);
+      return out;
+    },
+    shrink: (value) => {
+      const candidates: Record<string, unknown>[] = [];
+      for (const key of Object.keys(value)) {
+        const { [key]: _, ...rest } = value;
+        candidates.push(rest);
+      }
+      for (const [key, current] of Object.entries(value)) {
+        const entry = props.find(([name]) => name === key);
+        const arb =
+          entry && matchesType(current, entry[1])
+            ? (entry[2] as Arbitrary<unknown>)
+            : wrong;
+        for (const smaller of arb.shrink(current)) {
+          candidates.push({ ...value, [key]: smaller });
+        }
+      }
+      return candidates;
+    },
+  };
+};
+
+const fromSchema = (schema: JsonSchema): Arbitrary<unknown> => {
+  if (schema.const !== undefined) return constantFrom([schema.const]);
+  if (schema.enum) return constantFrom(schema.enum);
+  switch (schema.type) {
+    case "object":
+      return objects(schema);
+    case "integer":
+    case "number":
+      return numbers(schema);
+    case "boolean":
+      return constantFrom([false, true]);
+    case "array": {
+      const item = fromSchema(schema.items ?? {});
+      return {
+        generate: (random) =>
+          Array.from({ length: intBetween(random, 0, 3) }, () =>
+            item.generate(random)
+          ),
+        shrink: (value: unknown[]) =>
+          value.length ? [[], value.slice(1), value.slice(0, -1)] : [],
+      } as Arbitrary<unknown>;
+    }
+    case "string":
+    default:
+      return strings();
+  }
+};
+
+/** requestBodySchema 등 JSON Schema 로부터 입력 생성기 */
+export const arbitraryFromSchema = (schema: JsonSchema) =>
+  fromSchema(schema) as Arbitrary<Record<string, unknown>>;
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Runner
+ * ────────────────────────────────────────────────────────────────────────── */
+type Property<T> = (value: T) => unknown | Promise<unknown>;
+
+/** 실패하면 { error }, 통과하면 undefined */
+const failureOf = async <T>(property: Property<T>, value: T) => {
+  try {
+    await property(value);
+    return undefined;
+  } catch (error) {
+    return { error };
+  }
+};
+
+/**
+ * 속성 기반 테스트. seed 로 입력 시퀀스가 고정되어 FUZZ_SEED 만으로 재현된다.
+ * 실패하면 더 작은 후보 중 여전히 실패하는 것으로 반복 축소해 FuzzFailure 를 던진다.
+ */
+export const fuzz = async <T>(
+  arbitrary: Arbitrary<T>,
+  property: Property<T>,
+  {
+    seed = seedFromEnv("FUZZ_SEED"),
+    runs = runsFromEnv(),
+    maxShrinkAttempts = 500,
+  }: FuzzOptions = {}
+): Promise<FuzzResult> => {
+  const random = seededRandom(seed);
+
+  for (let run = 1; run <= runs; run++) {
+    const value = arbitrary.generate(random);
+    const failed = await failureOf(property, value);
+    if (!failed) continue;
+
+    let current = value;
+    let cause = failed.error;
+    let shrinks = 0;
+    let attempts = 0;
+    let improved = true;
+    while (improved && attempts < maxShrinkAttempts) {
+      improved = false;
+      for (const candidate of arbitrary.shrink(current)) {
+        if (++attempts > maxShrinkAttempts) break;
+        const again = await failureOf(property, candidate);
+        if (!again) continue;
+        current = candidate;
+        cause = again.error;
+        shrinks++;
+        improved = true;
+        break;
+      }
+    }
+    throw new FuzzFailure(seed, run, current, shrinks, cause);
+  }
+  return { seed, runs };
+};
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Spec invariant
+ * ────────────────────────────────────────────────────────────────────────── */
+/**
+ * 응답이 스펙에 맞는지: 2xx 는 status SUCCESS + responseBodySchema,
+ * 그 외는 ERROR 봉투 + 이 엔드포인트 errorCodes 에 선언된 (HttpStatus, ErrorCode)
+ */
+export const assertSpecResponse = (key: SpecKey, status: number, data: any) => {
+  if (status >= 200 && status < 300) {
+    const parsed = buildSpecSchemas(key).response.safeParse(data);
+    if (data?.status !== "SUCCESS" || !parsed.success) {
+      throw new Error(
+        `${key} HTTP ${status} 응답이 responseBodySchema 와 다릅니다: ${JSON.stringify(
+          data
+        )}`
+      );
+    }
+    return;
+  }
+  const declared = getSpec(key).errorCodes.some(
+    (e) => e.HttpStatus === status && e.ErrorCode === data?.errorCode
+  );
+  if (!declared) {
+    throw new Error(
+      `${key} 에 선언되지 않은 응답입니다: HTTP ${status} ${JSON.stringify(
+        data?.errorCode ?? data
+      )}`
+    );
+  }
+  if (
+    data.status !== "ERROR" ||
+    typeof data.message !== "string" ||
+    typeof data.timestamp !== "string"
+  ) {
+    throw new Error(
+      `${key} 에러 응답 봉투가 표준과 다릅니다: ${JSON.stringify(data)}`
+    );
+  }
+};
+
+/**
+ * 불변식: PRE 게이트(클라이언트 검증)가 거절하거나,
+ * 서버가 스펙에 맞는 성공 또는 선언된 errorCodes 로 응답한다.
+ * skipValidation 이면 모든 입력이 서버까지 가서 서버 검증(400)을 확인한다
+ */
+export const specInvariant =
+  (key: SpecKey, client = createApiClient(), options: CallOptions = {}) =>
+  async (payload: Record<string, unknown>) => {
+    let res: AxiosResponse;
+    try {
+      res = await client.call(key, payload as any, options);
+    } catch (error) {
+      if (error instanceof SpecValidationError) return;
+      if (!axios.isAxiosError(error) || !error.response) throw error;
+      res = error.response;
+    }
+    assertSpecResponse(key, res.status, res.data);
+  };
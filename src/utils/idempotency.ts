@@ -0,0 +1,282 @@
+import { createHash, randomUUID } from "node:crypto";
+import { isDeepStrictEqual } from "node:util";
+import type { AxiosInstance, AxiosResponse } from "axios";
+
+import {
+  getRequestBodySchema,
+  getSpec,
+  specKeys,
+  type JsonSchema,
+  type SpecKey,
+} from "./api-spec";
+import { createErrorFactory } from "./error-fixtures";
+import { validateSpecRequest } from "./spec-validator";
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Types
+ * ────────────────────────────────────────────────────────────────────────── */
+export interface IdempotencyRecord {
+  bodyHash: string;
+  status: number;
+  data: unknown;
+}
+
+export interface IdempotencyCase {
+  /** it.each 라벨. 예) "POST /api/v1/menu/select" */
+  name: string;
+  specKey: SpecKey;
+  /** 스펙 requestBodySchema.example */
+  body: Record<string, unknown>;
+  /** 스키마는 통과하되 본문 해시가 달라지도록 필드 하나를 바꾼다 */
+  conflictOf: (body: Record<string, unknown>) => Record<string, unknown>;
+}
+
+export interface VerifyIdempotencyOptions {
+  specKey: SpecKey;
+  send: (
+    body: Record<string, unknown>,
+    headers: Record<string, string>
+  ) => Promise<AxiosResponse>;
+  body: Record<string, unknown>;
+  conflictBody: Record<string, unknown>;
+  key?: string;
+  /** 부수효과 관찰값 (예: 목 서버 예약 수). 충돌 요청 전후가 같아야 한다 */
+  sideEffects?: () => unknown | Promise<unknown>;
+}
+
+export const IDEMPOTENCY_HEADER = "x-idempotency-key";
+
+const MUTATING_METHODS = ["post", "put", "patch", "delete"];
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Key & body hash
+ * ────────────────────────────────────────────────────────────────────────── */
+export const generateIdempotencyKey = () => `idem-${randomUUID()}`;
+
+/** 키 순서와 무관한 직렬화 (목 서버와 같은 해시 규칙) */
+export const stableStringify = (val: unknown): string => {
+  if (Array.isArray(val)) return `[${val.map(stableStringify).join(",")}]`;
+  if (val && typeof val === "object") {
+    const entries = Object.keys(val as object)
+      .sort()
+      .map(
+        (k) =>
+          `${JSON.stringify(k)}:${stableStringify(
+            (val as Record<string, unknown>)[k]
+          )}`
+      );
+    return `{${entries.join(",")}}`;
+  }
+  return JSON.stringify(val);
+};
+
+export const hashBody = (body: unknown) =>
+  createHash("sha256").update(stableStringify(body)).digest("hex");
+
+const parseBody = (data: unknown) => {
+  if (typeof data !== "string") return data;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+};
+
+const plainHeaders = (headers: any): Record<string, unknown> =>
+  typeof headers?.toJSON === "function" ? headers.toJSON() : { ...headers };
+
+/** 헤더에서 멱등성 키 (대소문자 무관) */
+export const idempotencyKeyOf = (headers: any) => {
+  const value = Object.entries(plainHeaders(headers)).find(
+    ([name]) => name.toLowerCase() === IDEMPOTENCY_HEADER
+  )?.[1];
+  return value ? String(value) : undefined;
+};
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Store (key → bodyHash, 응답)
+ * ────────────────────────────────────────────────────────────────────────── */
+export class IdempotencyStore {
+  private readonly records = new Map<string, IdempotencyRecord>();
+
+  /** 첫 성공 응답만 기억 (재생 응답으로 덮어쓰지 않음) */
+  remember(key: string, body: unknown, response: AxiosResponse) {
+    if (this.records.has(key)) return;
+    this.records.set(key, {
+      bodyHash: hashBody(parseBody(body)),
+      status: response.status,
+      data: response.data,
+    });
+  }
+
+  get(key: string) {
+    return this.records.get(key);
+  }
+
+  get size() {
+    return this.records.size;
+  }
+
+  clear() {
+    this.records.clear();
+  }
+}
+
+/** 키 없는 변경 요청(POST/PUT/PATCH/DELETE)에 키를 붙이고 성공 응답을 기억 */
+export const setupIdempotencyKeys = (
+  axiosInstance: AxiosInstance,
+  {
+    store = new IdempotencyStore(),
+    generate = generateIdempotencyKey,
+  }: { store?: IdempotencyStore; generate?: () => string } = {}
+) => {
+  axiosInstance.interceptors.request.use((cfg) => {
+    const method = (cfg.method ?? "get").toLowerCase();
+    if (MUTATING_METHODS.includes(method) && !idempotencyKeyOf(cfg.headers)) {
+      cfg.headers = {
+        ...plainHeaders(cfg.headers),
+        [IDEMPOTENCY_HEADER]: generate(),
+      } as any;
+    }
+    return cfg;
+  });
+
+  axiosInstance.interceptors.response.use((res) => {
+    const key = idempotencyKeyOf(res.config?.headers);
+    if (key) store.remember(key, res.config?.data, res);
+    return res;
+  });
+
+  return store;
+};
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Assertions
+ * ────────────────────────────────────────────────────────────────────────── */
+/** 동일 키 + 동일 본문 → 상태·본문 깊은 동일 */
+export const assertIdempotentReplay = (
+  first: Pick<AxiosResponse, "status" | "data">,
+  replay: Pick<AxiosResponse, "status" | "data">
+) => {
+  if (
+    first.status !== replay.status ||
+    !isDeepStrictEqual(first.data, replay.data)
+  ) {
+    throw new Error(
+      `동일 키·동일 본문 재요청 응답이 첫 응답과 다릅니다: ${JSON.stringify({
+        status: first.status,
+        data: first.data,
+      })} ≠ ${JSON.stringify({ status: replay.status, data: replay.data })}`
+    );
+  }
+};
+
+/** 동일 키 + 다른 본문 → 스펙의 IDEMP_CONFLICT 상태(409) 거절 */
+export const assertIdempotencyConflict = async (
+  specKey: SpecKey,
+  request: Promise<unknown>
+) => {
+  const status = createErrorFactory(specKey).statusOf("IDEMP_CONFLICT");
+  let response: any;
+  try {
+    response = await request;
+  } catch (err: any) {
+    response = err?.response;
+    if (!response) throw err;
+  }
+  if (
+    response?.status !== status ||
+    response?.data?.errorCode !== "IDEMP_CONFLICT"
+  ) {
+    throw new Error(
+      `동일 키·다른 본문 요청은 ${status} IDEMP_CONFLICT 여야 합니다: ${
+        response?.status
+      } ${JSON.stringify(response?.data)}`
+    );
+  }
+};
+
+/** 재생(동일 응답) → 충돌(409, 부수효과 없음) 순서로 검증 */
+export const verifyIdempotency = async ({
+  specKey,
+  send,
+  body,
+  conflictBody,
+  key = generateIdempotencyKey(),
+  sideEffects,
+}: VerifyIdempotencyOptions) => {
+  const headers = { [IDEMPOTENCY_HEADER]: key };
+  const first = await send(body, headers);
+  const replay = await send(body, headers);
+  assertIdempotentReplay(first, replay);
+
+  const before = await sideEffects?.();
+  await assertIdempotencyConflict(specKey, send(conflictBody, headers));
+  const after = await sideEffects?.();
+  if (!isDeepStrictEqual(before, after)) {
+    throw new Error(
+      `IDEMP_CONFLICT 요청에 부수효과가 있습니다: ${JSON.stringify(
+        before
+      )} → ${JSON.stringify(after)}`
+    );
+  }
+  return { first, replay };
+};
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Auto-generated cases
+ *  - IDEMP_CONFLICT 를 선언한 POST 스펙 엔트리마다 1건
+ *  - 충돌 본문: 숫자/enum/불리언 필드 우선, 없으면 문자열 필드를 바꾼다
+ * ────────────────────────────────────────────────────────────────────────── */
+const alternativesOf = (schema: JsonSchema, value: unknown): unknown[] => {
+  if (schema.enum) return schema.enum.filter((v) => v !== value);
+  if (typeof value === "number") return [value + 1, value - 1];
+  if (typeof value === "boolean") return [!value];
+  if (typeof value === "string") return [`${value}_ALT`];
+  return [];
+};
+
+const isScalarVariant = (schema: JsonSchema) =>
+  !!schema.enum ||
+  ["integer", "number", "boolean"].includes(String(schema.type));
+
+const conflictBodyOf =
+  (key: SpecKey) =>
+  (body: Record<string, unknown>): Record<string, unknown> => {
+    const properties = Object.entries(
+      getRequestBodySchema(key).properties ?? {}
+    ).sort(
+      ([, a], [, b]) => Number(isScalarVariant(b)) - Number(isScalarVariant(a))
+    );
+    for (const [field, schema] of properties) {
+      if (!(field in body)) continue;
+      for (const next of alternativesOf(schema, body[field])) {
+        const candidate = { ...body, [field]: next };
+        if (!validateSpecRequest(key, candidate).length) return candidate;
+      }
+    }
+    throw new Error(
+      `${key} 본문에서 스키마를 지키며 바꿀 수 있는 필드가 없습니다.`
+    );
+  };
+
+export const idempotencyCases = (): IdempotencyCase[] =>
+  specKeys
+    .filter((key) => {
+      const spec = getSpec(key);
+      return (
+        spec.restfulMethod === "POST" &&
+        spec.errorCodes.some((e) => e.ErrorCode === "IDEMP_CONFLICT")
+      );
+    })
+    .map((key) => {
+      const spec = getSpec(key);
+      return {
+        name: `${spec.restfulMethod} ${spec.restfulUrl}`,
+        specKey: key,
+        body: {
+          ...(spec.requestBodySchema.example as Record<string, unknown>),
+        },
+        conflictOf: conflictBodyOf(key),
+      };
+    });
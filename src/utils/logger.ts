@@ -1,4 +1,14 @@
 import "dotenv/config";
+import {
+  appendFileSync,
+  existsSync,
+  mkdirSync,
+  renameSync,
+  rmSync,
+  statSync,
+  writeFileSync,
+} from "node:fs";
+import { basename, dirname, join } from "node:path";
 import type {
   AxiosInstance,
   AxiosRequestConfig,
@@ -27,6 +37,156 @@ export class ConsoleTransport implements LoggerTransport {
   }
 }
 
+/** 여러 transport 로 같은 메시지 전달 (예: 콘솔 + 파일 + 테스트별 아티팩트) */
+export class MultiTransport implements LoggerTransport {
+  constructor(readonly transports: LoggerTransport[]) {}
+  info(msg: string) {
+    for (const t of this.transports) t.info(msg);
+  }
+  error(msg: string) {
+    for (const t of this.transports) t.error(msg);
+  }
+  debug(msg: string) {
+    for (const t of this.transports) t.debug?.(msg);
+  }
+}
+
+/**
+ * JSON Lines: 이벤트 1건 = 1줄. JSON 메시지는 한 줄로 압축하고
+ * JSON 이 아닌 메시지(pretty, LOG_MAX_BODY 로 잘린 JSON)는 { level, message } 로 감싼다
+ */
+export class JsonLinesTransport implements LoggerTransport {
+  constructor(
+    private readonly inner: LoggerTransport = new ConsoleTransport()
+  ) {}
+  info(msg: string) {
+    this.inner.info(toJsonLine(msg, "INFO"));
+  }
+  error(msg: string) {
+    this.inner.error(toJsonLine(msg, "ERROR"));
+  }
+  debug(msg: string) {
+    this.inner.debug?.(toJsonLine(msg, "DEBUG"));
+  }
+}
+
+const toJsonLine = (msg: string, level: string) => {
+  try {
+    return JSON.stringify(JSON.parse(msg));
+  } catch {
+    return JSON.stringify({ level, message: msg });
+  }
+};
+
+export interface RotatingFileOptions {
+  /** 이 크기를 넘기면 회전 (기본 10MB) */
+  maxBytes?: number;
+  /** 보관할 이전 파일 수: <path>.1 (최신) ~ <path>.N (기본 5) */
+  maxFiles?: number;
+}
+
+/** 파일 append. 크기 한도를 넘기면 <path>.1, <path>.2 … 로 밀어낸다 */
+export class RotatingFileTransport implements LoggerTransport {
+  private size: number | undefined;
+  private readonly maxBytes: number;
+  private readonly maxFiles: number;
+
+  constructor(
+    readonly path: string,
+    { maxBytes = 10 * 1024 * 1024, maxFiles = 5 }: RotatingFileOptions = {}
+  ) {
+    this.maxBytes = maxBytes;
+    this.maxFiles = maxFiles;
+  }
+
+  private write(msg: string) {
+    const line = `${msg}\n`;
+    const bytes = Buffer.byteLength(line);
+    if (this.size === undefined) {
+      mkdirSync(dirname(this.path), { recursive: true });
+      this.size = existsSync(this.path) ? statSync(this.path).size : 0;
+    }
+    if (this.size > 0 && this.size + bytes > this.maxBytes) {
+      this.rotate();
+      this.size = 0;
+    }
+    appendFileSync(this.path, line);
+    this.size += bytes;
+  }
+
+  private rotate() {
+    rmSync(`${this.path}.${this.maxFiles}`, { force: true });
+    for (let i = this.maxFiles - 1; i >= 1; i--) {
+      const from = `${this.path}.${i}`;
+      if (existsSync(from)) renameSync(from, `${this.path}.${i + 1}`);
+    }
+    if (this.maxFiles > 0) {
+      renameSync(this.path, `${this.path}.1`);
+    } else {
+      rmSync(this.path, { force: true });
+    }
+  }
+
+  info(msg: string) {
+    this.write(msg);
+  }
+  error(msg: string) {
+    this.write(msg);
+  }
+  debug(msg: string) {
+    this.write(msg);
+  }
+}
+
+/** 테스트 1건의 로그 버퍼 */
+export interface TestLog {
+  file: string;
+  test: string;
+  lines: string[];
+}
+
+/**
+ * 테스트별 아티팩트: 현재 테스트의 로그를 모아 두었다가
+ * 실패한 테스트만 <dir>/<파일명>/<테스트명>.log 로 남긴다 (installLogArtifacts 가 훅 연결)
+ */
+export class ArtifactTransport implements LoggerTransport {
+  private current: TestLog | undefined;
+
+  constructor(readonly dir: string) {}
+
+  begin(file: string, test: string) {
+    this.current = { file, test, lines: [] };
+    return this.current;
+  }
+
+  /** 기록된 파일 경로 (로그가 없으면 undefined) */
+  flush(log: TestLog | undefined = this.current) {
+    if (!log?.lines.length) return undefined;
+    const path = join(
+      this.dir,
+      safeFileName(basename(log.file)),
+      `${safeFileName(log.test)}.log`
+    );
+    mkdirSync(dirname(path), { recursive: true });
+    writeFileSync(path, `${log.lines.join("\n")}\n`);
+    return path;
+  }
+
+  info(msg: string) {
+    this.current?.lines.push(msg);
+  }
+  error(msg: string) {
+    this.current?.lines.push(msg);
+  }
+  debug(msg: string) {
+    this.current?.lines.push(msg);
+  }
+}
+
+/** 경로 구분자·예약 문자 치환, 길이 제한 */
+const safeFileName = (name: string) =>
+  name.replace(/[\\/:*?"<>|\u0000-\u001f]/g, "_").slice(0, 180) || "_";
+
 /* ──────────────────────────────────────────────────────────────────────────
  * Test name injection (opt-in from bootstrap)
  * ────────────────────────────────────────────────────────────────────────── */
@@ -43,7 +203,10 @@ const getLevelDefault = (): LogLevel =>
     ? "DEBUG"
     : "INFO";
 const getFormat = () =>
-  (process.env.LOG_FORMAT ?? "json").toLowerCase() as "json" | "pretty";
+  (process.env.LOG_FORMAT ?? "json").toLowerCase() as
+    | "json"
+    | "jsonl"
+    | "pretty";
 const MAX_BODY = Number(process.env.LOG_MAX_BODY ?? 0); // 0=unlimited
 
 const maybeTruncate = (s: string) =>
@@ -73,19 +236,32 @@ const safeStringify = (val: unknown, space = 2) => {
   }
 };
 
-const redactHeaders = (headers: Record<string, any>) => {
+/** 마스킹 대상 헤더 (소문자). 로그와 카세트(cassette)가 같은 규칙을 쓴다 */
+export const SENSITIVE_HEADERS = [
+  "authorization",
+  "cookie",
+  "set-cookie",
+  "x-api-key",
+];
+export const REDACTED = "***REDACTED***";
+
+const showSensitive = () =>
+  String(process.env.LOG_SHOW_SENSITIVE ?? "false").toLowerCase() === "true";
+
+/** reveal 기본값은 LOG_SHOW_SENSITIVE. 파일로 남기는 카세트는 항상 false */
+export const redactHeaders = (
+  headers: Record<string, any>,
+  reveal = showSensitive()
+) => {
   if (!headers) return {};
-  if (
-    String(process.env.LOG_SHOW_SENSITIVE ?? "false").toLowerCase() === "true"
-  )
-    return headers;
+  if (reveal) return headers;
   const out = { ...headers };
   const lower = Object.fromEntries(
     Object.entries(out).map(([k, v]) => [k.toLowerCase(), k])
   );
-  for (const key of ["authorization", "cookie", "x-api-key"]) {
+  for (const key of SENSITIVE_HEADERS) {
     const original = lower[key];
-    if (original) out[original] = "***REDACTED***";
+    if (original) out[original] = REDACTED;
   }
   return out;
 };
@@ -97,6 +273,54 @@ const formatData = (data: unknown) => {
     return data;
   }
 };
+const envNumber = (name: string, fallback: number) => {
+  const raw = process.env[name];
+  const value = Number(raw);
+  return raw && Number.isFinite(value) ? value : fallback;
+};
+
+/** 테스트별 아티팩트 (bootstrap 훅과 LOG_TRANSPORTS=artifacts 가 공유) */
+export const logArtifacts = new ArtifactTransport(
+  process.env.LOG_ARTIFACTS_DIR || "artifacts"
+);
+
+/** 같은 경로는 인스턴스를 공유해 회전 기준 크기를 하나로 유지 */
+const fileTransports = new Map<string, RotatingFileTransport>();
+const fileTransport = (path: string) => {
+  const existing = fileTransports.get(path);
+  if (existing) return existing;
+  const created = new RotatingFileTransport(path, {
+    maxBytes: envNumber("LOG_FILE_MAX_BYTES", 10 * 1024 * 1024),
+    maxFiles: envNumber("LOG_FILE_MAX_FILES", 5),
+  });
+  fileTransports.set(path, created);
+  return created;
+};
+
+/**
+ * LOG_TRANSPORTS: console(기본) | file(LOG_FILE) | artifacts(LOG_ARTIFACTS_DIR) 쉼표 조합
+ * LOG_FORMAT=jsonl 이면 모든 출력을 JSON Lines 로 감싼다
+ */
+export const transportFromEnv = (): LoggerTransport => {
+  const transports = (process.env.LOG_TRANSPORTS || "console")
+    .split(",")
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean)
+    .map((name): LoggerTransport => {
+      if (name === "console") return new ConsoleTransport();
+      if (name === "file") {
+        return fileTransport(process.env.LOG_FILE || "reports/http.log");
+      }
+      if (name === "artifacts") return logArtifacts;
+      throw new Error(
+        `LOG_TRANSPORTS는 console|file|artifacts 조합이어야 합니다: ${name}`
+      );
+    });
+  const out =
+    transports.length === 1 ? transports[0] : new MultiTransport(transports);
+  return getFormat() === "jsonl" ? new JsonLinesTransport(out) : out;
+};
+
 const shortUrl = (u?: string) => u?.replace(/^https?:\/\/[^/]+/, "") ?? "";
 const shortTest = (t?: string) => t?.split(" > ").pop();
 
@@ -105,7 +329,7 @@ const shortTest = (t?: string) => t?.split(" > ").pop();
  * ───────────────────────────────────────────────────────── */
 export class HttpLogger {
   constructor(
-    private readonly t: LoggerTransport = new ConsoleTransport(),
+    private readonly t: LoggerTransport = transportFromEnv(),
     private readonly getLevel = getLevelDefault,
     private readonly now: () => Date = () => new Date()
   ) {}
@@ -119,14 +343,14 @@ export class HttpLogger {
   }
 
   private format(
-    type: "REQUEST" | "RESPONSE" | "ERROR",
+    type: "REQUEST" | "RESPONSE" | "ERROR" | "STEP" | "RETRY",
     info: Record<string, unknown>,
     url?: string
   ) {
     const fmt = getFormat();
     const level = this.getLevel();
 
-    if (fmt === "json") {
+    if (fmt === "json" || fmt === "jsonl") {
       const out = {
         level,
         type,
@@ -142,8 +366,14 @@ export class HttpLogger {
         code: info["code"],
         response: info["response"],
         request: info["request"],
+        flow: info["flow"],
+        step: info["step"],
+        spec: info["spec"],
+        extracted: info["extracted"],
+        attempt: info["attempt"],
+        delayMs: info["delayMs"],
       };
-      return safeStringify(out, 2);
+      return fmt === "jsonl" ? safeStringify(out, 0) : safeStringify(out, 2);
     }
 
     const status = typeof info.status === "string" ? info.status : "";
@@ -204,6 +434,48 @@ export class HttpLogger {
     this.t.debug?.(this.format("RESPONSE", info, resp.config?.url));
   }
 
+  /** 재시도 예정 (retry). 레벨과 무관하게 info 로 남긴다 */
+  logRetry(retry: {
+    method?: string;
+    url?: string;
+    /** 다음 시도 번호 (2부터) */
+    attempt: number;
+    maxAttempts: number;
+    delayMs: number;
+    reason: string;
+  }) {
+    const info = this.base({
+      method: retry.method?.toUpperCase(),
+      url: retry.url,
+      attempt: `${retry.attempt}/${retry.maxAttempts}`,
+      delayMs: retry.delayMs,
+      message: retry.reason,
+    });
+    this.t.info(this.format("RETRY", info, retry.url));
+  }
+
+  /** 플로우 단계 결과 (flow-runner) */
+  logStep(step: {
+    flow: string;
+    index: number;
+    name: string;
+    spec: string;
+    status?: number;
+    extracted?: Record<string, unknown>;
+    error?: string;
+  }) {
+    if (this.getLevel() !== "DEBUG") return;
+    const info = this.base({
+      flow: step.flow,
+      step: `${step.index}. ${step.name}`,
+      spec: step.spec,
+      status: step.status,
+      extracted: step.extracted,
+      message: step.error,
+    });
+    this.t.debug?.(this.format("STEP", info));
+  }
+
   logError(err: any, cfg?: AxiosRequestConfig) {
     if (this.getLevel() !== "DEBUG") return;
     const info: Record<string, unknown> = this.base({
@@ -255,110 +527,49 @@ export const setupAxiosLogger = (
   );
 };
 
-export const wrapMockedAxiosLogger = (
-  mockedAxios: any,
-  logger = new HttpLogger()
-) => {
-  const wrap = (name: "post" | "get" | "put" | "delete" | "patch") => {
-    const fn = mockedAxios[name];
-    if (!fn || typeof fn !== "function" || (fn as any).__isLoggerWrapped)
-      return;
-
-    const wrapped = new Proxy(fn, {
-      apply(target, thisArg, args: [string, any?, AxiosRequestConfig?]) {
-        const [url, data, cfg] = args;
-        logger.logRequest({
-          method: name,
-          url,
-          data,
-          headers: (cfg?.headers ?? {}) as any,
-        } as any);
-
-        return target
-          .apply(thisArg, args)
-          .then((res: any) => {
-            const response: AxiosResponse =
-              res && "status" in res && "data" in res
-                ? ({ ...res, config: { url } } as AxiosResponse)
-                : ({
-                    status: 200,
-                    statusText: "OK",
-                    data: res,
-                    headers: {},
-                    config: { url },
-                  } as AxiosResponse);
-            logger.logResponse(response);
-            return res;
-          })
-          .catch((err: any) => {
-            logger.logError(err, { url } as any);
-            throw err;
-          });
-      },
-    });
-
-    (wrapped as any).__isLoggerWrapped = true;
-    mockedAxios[name] = wrapped;
-  };
-
-  ["post", "get", "put", "delete", "patch"].forEach((m) => wrap(m as any));
-};
-
 /* ─────────────────────────────────────────────────────────
- * Vitest auto-wrap (unified)
+ * Vitest auto-install
+ *  - 기본 axios 인스턴스에 인터셉터 1회 설치 (MockAdapter/실제 http 공통)
  * ───────────────────────────────────────────────────────── */
-type AnyFn = (...a: any[]) => any;
+const LOGGER_INTERCEPTOR = "__loggerInterceptor";
 
-const getVitest = () => {
-  try {
-    return {
-      vi: (globalThis as any).vi,
-      beforeAll: (globalThis as any).beforeAll,
-      beforeEach: (globalThis as any).beforeEach,
-    };
-  } catch {
-    return { vi: undefined, beforeAll: undefined, beforeEach: undefined };
-  }
+const ensureLoggerInstalled = async () => {
+  const axios = (await import("axios")).default;
+  if ((axios as any)[LOGGER_INTERCEPTOR]) return;
+  (axios as any)[LOGGER_INTERCEPTOR] = true;
+  setupAxiosLogger(axios);
 };
 
-const ensureLoggerWrapped = async () => {
-  const { vi } = getVitest();
-  if (!vi) return;
-  const mocked = vi.mocked((await import("axios")).default, true);
-  const post = mocked?.post as AnyFn | undefined;
-  const already = !!(post && (post as any).__isLoggerWrapped);
-  if (!already && typeof post === "function") {
-    wrapMockedAxiosLogger(mocked);
+/** "describe > it" (파일 단위 suite 제외) */
+const testNameOf = (task: any) => {
+  const names: string[] = [];
+  for (let node = task; node && node !== task.file; node = node.suite) {
+    if (node.name) names.unshift(node.name);
   }
+  return names.join(" > ");
 };
 
-export const installLoggerAutoWrap = () => {
-  const { vi, beforeAll, beforeEach } = getVitest();
-  if (!vi || !beforeAll || !beforeEach) return;
-
-  beforeAll(async () => {
-    await ensureLoggerWrapped();
-    queueMicrotask(() => {
-      void ensureLoggerWrapped();
+/**
+ * 테스트마다 로그에 테스트명을 싣고, 실패한 테스트의 로그만
+ * artifacts/<파일>/<테스트>.log 로 남긴다 (LOG_TRANSPORTS 에 artifacts 가 있을 때만 쌓임)
+ */
+export const installLogArtifacts = (artifacts = logArtifacts) => {
+  const beforeEach = (globalThis as any)?.beforeEach;
+  if (!beforeEach) return;
+  beforeEach((ctx: any) => {
+    const test = testNameOf(ctx.task);
+    setCurrentTestName(test);
+    const log = artifacts.begin(ctx.task.file?.name ?? "unknown", test);
+    ctx.onTestFailed(() => {
+      artifacts.flush(log);
     });
   });
+};
 
-  beforeEach(async () => {
-    await ensureLoggerWrapped();
-  });
-
-  const _clear = vi.clearAllMocks?.bind(vi);
-  if (_clear && !(vi as any).__loggerPatchedClear) {
-    (vi as any).__loggerPatchedClear = true;
-    vi.clearAllMocks = function () {
-      const r = _clear();
-      void ensureLoggerWrapped();
-      queueMicrotask(() => {
-        void ensureLoggerWrapped();
-      });
-      return r;
-    };
-  }
+export const installLoggerAutoWrap = () => {
+  const beforeAll = (globalThis as any)?.beforeAll;
+  if (!beforeAll) return;
+  beforeAll(ensureLoggerInstalled);
 };
 
 const LOG_AUTOWRAP =
@@ -0,0 +1,259 @@
+import { STATUS_CODES } from "node:http";
+import { isDeepStrictEqual } from "node:util";
+import {
+  AxiosError,
+  AxiosHeaders,
+  type AxiosAdapter,
+  type AxiosInstance,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig,
+} from "axios";
+
+import { specKeys, type SpecKey } from "./api-spec";
+import {
+  matchesRoute,
+  resolveRoute,
+  type RouteMatcher,
+} from "./request-recorder";
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Types
+ * ────────────────────────────────────────────────────────────────────────── */
+/** 값 · 정규식 · 조건 함수 · expect.* 비대칭 매처 */
+export type ValueMatcher = unknown;
+
+export interface MockMatch {
+  method?: string;
+  url?: RouteMatcher;
+  /** 헤더명 대소문자 무관. 나열한 헤더만 비교 */
+  headers?: Record<string, ValueMatcher>;
+  /** JSON 본문은 파싱 후 깊은 비교 */
+  body?: ValueMatcher;
+}
+
+/** 어댑터가 받은 요청. AxiosResponse/AxiosError 의 request 로도 쓰인다 */
+export interface MockRequest {
+  method: string;
+  url: string;
+  headers: Record<string, unknown>;
+  params?: unknown;
+  body?: unknown;
+}
+
+type Outcome =
+  | {
+      kind: "reply";
+      status: number;
+      data: unknown;
+      headers?: Record<string, string>;
+    }
+  | { kind: "network"; code: string; message: string };
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Utils
+ * ────────────────────────────────────────────────────────────────────────── */
+const joinUrl = (baseURL?: string, url = "") =>
+  !baseURL || /^[a-z][a-z\d+.-]*:\/\//i.test(url)
+    ? url
+    : `${baseURL.replace(/\/+$/, "")}/${url.replace(/^\/+/, "")}`;
+
+const plainHeaders = (headers: any): Record<string, unknown> =>
+  typeof headers?.toJSON === "function" ? headers.toJSON() : { ...headers };
+
+const parseBody = (data: unknown) => {
+  if (typeof data !== "string") return data;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+};
+
+/** 스펙 ID 또는 method + 경로로 등록한 핸들러만 스펙 항목에 묶인다 */
+const specKeyOf = ({ method, url }: MockMatch): SpecKey | undefined => {
+  if (typeof url !== "string") return undefined;
+  if ((specKeys as string[]).includes(url)) return url as SpecKey;
+  return method ? resolveRoute(method, url) : undefined;
+};
+
+const matchValue = (expected: any, actual: unknown): boolean => {
+  if (typeof expected?.asymmetricMatch === "function") {
+    return expected.asymmetricMatch(actual);
+  }
+  if (expected instanceof RegExp) return expected.test(String(actual));
+  if (typeof expected === "function") return !!expected(actual);
+  return isDeepStrictEqual(expected, actual);
+};
+
+const matchHeaders = (
+  expected: Record<string, ValueMatcher>,
+  actual: Record<string, unknown>
+) => {
+  const lower = Object.fromEntries(
+    Object.entries(actual).map(([k, v]) => [k.toLowerCase(), v])
+  );
+  return Object.entries(expected).every(([name, value]) =>
+    matchValue(value, lower[name.toLowerCase()])
+  );
+};
+
+/** axios 기본 어댑터의 settle 과 같은 규칙으로 resolve/reject */
+export const settle = <T extends AxiosResponse>(
+  res: T,
+  config: InternalAxiosRequestConfig
+) => {
+  if (!config.validateStatus || config.validateStatus(res.status)) return res;
+  throw new AxiosError(
+    `Request failed with status code ${res.status}`,
+    res.status >= 500
+      ? AxiosError.ERR_BAD_RESPONSE
+      : AxiosError.ERR_BAD_REQUEST,
+    config,
+    res.request,
+    res
+  );
+};
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * MockHandler
+ *  - Once 응답을 등록 순서대로 소비한 뒤 고정 응답(reply) 반복
+ *  - 둘 다 없으면 다음 핸들러로 넘어간다
+ * ────────────────────────────────────────────────────────────────────────── */
+export class MockHandler {
+  private readonly queue: Outcome[] = [];
+  private sticky: Outcome | undefined;
+  /** mockError 가 errorCodes 를 검증할 스펙 항목 (스펙 밖 경로면 undefined) */
+  readonly specKey: SpecKey | undefined;
+
+  constructor(readonly match: MockMatch) {
+    this.specKey = specKeyOf(match);
+  }
+
+  reply(status: number, data?: unknown, headers?: Record<string, string>) {
+    this.sticky = { kind: "reply", status, data, headers };
+    return this;
+  }
+
+  replyOnce(status: number, data?: unknown, headers?: Record<string, string>) {
+    this.queue.push({ kind: "reply", status, data, headers });
+    return this;
+  }
+
+  /** 응답 없는 실패 (ECONNABORTED / ENETUNREACH 등) */
+  networkErrorOnce(code: string, message: string) {
+    this.queue.push({ kind: "network", code, message });
+    return this;
+  }
+
+  /** 아직 소비되지 않은 Once 응답 수 */
+  get pending() {
+    return this.queue.length;
+  }
+
+  matches(req: MockRequest) {
+    const { method, url, headers, body } = this.match;
+    return (
+      (!method || method.toUpperCase() === req.method) &&
+      (!url || matchesRoute(url, req.method, req.url)) &&
+      (!headers || matchHeaders(headers, req.headers)) &&
+      (body === undefined || matchValue(body, req.body))
+    );
+  }
+
+  /** 다음 응답 (Once 우선) */
+  take() {
+    return this.queue.shift() ?? this.sticky;
+  }
+
+  clear() {
+    this.queue.length = 0;
+    this.sticky = undefined;
+  }
+}
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * MockAdapter
+ *  - 실제 axios 인스턴스에 꽂는 어댑터라 인터셉터(인증/로거/레코더/재시도)가 그대로 동작
+ *  - 응답 본문은 JSON 문자열로 넘겨 transformResponse 가 파싱 (실제 http 어댑터와 동일)
+ * ────────────────────────────────────────────────────────────────────────── */
+export class MockAdapter {
+  private readonly handlers: MockHandler[] = [];
+  readonly history: MockRequest[] = [];
+
+  /** 스펙 ID/경로/정규식 또는 method·url·headers·body 조건 */
+  on(match: RouteMatcher | MockMatch) {
+    const handler = new MockHandler(
+      typeof match === "string" || match instanceof RegExp
+        ? { url: match }
+        : match
+    );
+    this.handlers.push(handler);
+    return handler;
+  }
+
+  /** 등록 순서대로 첫 번째로 응답을 가진 핸들러 */
+  private next(req: MockRequest) {
+    for (const handler of this.handlers) {
+      const outcome = handler.matches(req) ? handler.take() : undefined;
+      if (outcome) return outcome;
+    }
+    return undefined;
+  }
+
+  readonly adapter: AxiosAdapter = async (config) => {
+    const req: MockRequest = {
+      method: (config.method ?? "get").toUpperCase(),
+      url: joinUrl(config.baseURL, config.url),
+      headers: plainHeaders(config.headers),
+      ...(config.params !== undefined && { params: config.params }),
+      ...(config.data !== undefined && { body: parseBody(config.data) }),
+    };
+    this.history.push(req);
+
+    const outcome = this.next(req);
+    if (!outcome) {
+      throw new AxiosError(
+        `목 응답이 등록되지 않은 요청입니다: ${req.method} ${req.url}`,
+        "ERR_MOCK_UNMATCHED",
+        config,
+        req
+      );
+    }
+    if (outcome.kind === "network") {
+      throw new AxiosError(outcome.message, outcome.code, config, req);
+    }
+
+    const json = typeof outcome.data !== "string";
+    return settle(
+      {
+        status: outcome.status,
+        statusText: STATUS_CODES[outcome.status] ?? "",
+        headers: new AxiosHeaders({
+          "content-type": json
+            ? "application/json; charset=utf-8"
+            : "text/plain; charset=utf-8",
+          ...outcome.headers,
+        }),
+        data: json ? JSON.stringify(outcome.data) : outcome.data,
+        config,
+        request: req,
+      },
+      config
+    );
+  };
+
+  /** 인스턴스 기본 어댑터 교체. 원복 함수 반환 */
+  install(axiosInstance: AxiosInstance) {
+    const previous = axiosInstance.defaults.adapter;
+    axiosInstance.defaults.adapter = this.adapter;
+    return () => {
+      axiosInstance.defaults.adapter = previous;
+    };
+  }
+
+  /** 등록된 응답과 요청 기록 초기화 (핸들러 매칭 조건은 유지) */
+  reset() {
+    for (const handler of this.handlers) handler.clear();
+    this.history.length = 0;
+  }
+}
@@ -1,60 +1,59 @@
-import type { AxiosError } from "axios";
+import type { AxiosInstance } from "axios";
 
-type MockFunction = {
-  mockResolvedValueOnce: (value: any) => void;
-  mockResolvedValue: (value: any) => void;
-  mockRejectedValueOnce: (value: any) => void;
+import { assertErrorStatus } from "./error-fixtures";
+import { MockAdapter, type MockHandler } from "./mock-adapter";
+import { isLiveTarget } from "./test-target";
+
+/**
+ * axios 인스턴스에 MockAdapter 를 꽂는다.
+ * TEST_TARGET=live 에서는 설치하지 않아 실제 HTTP 로 API_URL 을 호출한다.
+ */
+export const installMockAdapter = (axiosInstance: AxiosInstance) => {
+  const mock = new MockAdapter();
+  if (!isLiveTarget()) mock.install(axiosInstance);
+  return mock;
 };
 
 // Mock 설정 헬퍼 함수
+// TEST_TARGET=live 에서는 모두 no-op → 서버가 실제 로직으로 응답한다
+// (서버 상태로 재현할 수 없는 케이스는 테스트에서 it.skipIf(isLiveTarget()) 로 건너뜀)
 export const mockSuccess = (
-  mockFn: MockFunction,
+  handler: MockHandler,
   data: any,
   multiple = false
 ) => {
-  const response = {
-    status: 200,
-    statusText: "OK",
-    data,
-  };
+  if (isLiveTarget()) return;
   if (multiple) {
-    mockFn.mockResolvedValue(response);
+    handler.reply(200, data);
   } else {
-    mockFn.mockResolvedValueOnce(response);
+    handler.replyOnce(200, data);
   }
 };
 
 export const mockError = (
-  mockFn: MockFunction,
+  handler: MockHandler,
   status: number,
   data: any,
   options?: {
     headers?: Record<string, string>;
-    code?: string;
-    message?: string;
   }
 ) => {
-  const error: any = {
-    isAxiosError: true,
-    response: {
-      status,
-      data,
-      ...(options?.headers && { headers: options.headers }),
-    },
-  };
-  if (options?.code) error.code = options.code;
-  if (options?.message) error.message = options.message;
-  mockFn.mockRejectedValueOnce(error as AxiosError);
+  // 모킹하는 엔드포인트에 선언되지 않은 errorCode/HttpStatus 를 섞어 쓰지 못하게 차단
+  if (!handler.specKey) {
+    throw new Error(
+      "mockError 는 스펙 ID(또는 method + 경로)로 등록한 핸들러에만 쓸 수 있습니다."
+    );
+  }
+  assertErrorStatus(handler.specKey, status, data);
+  if (isLiveTarget()) return;
+  handler.replyOnce(status, data, options?.headers);
 };
 
 export const mockNetworkError = (
-  mockFn: MockFunction,
+  handler: MockHandler,
   code: string,
   message: string
 ) => {
-  mockFn.mockRejectedValueOnce({
-    code,
-    message,
-    isAxiosError: true,
-  } as AxiosError);
+  if (isLiveTarget()) return;
+  handler.networkErrorOnce(code, message);
 };
@@ -0,0 +1,517 @@
+import { createHmac, randomBytes, randomInt } from "node:crypto";
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from "node:http";
+import type { AddressInfo } from "node:net";
+
+import { getSpec, specKeys, type SpecKey } from "./api-spec";
+import { MOCK_CLOCK_PATH, toMs, type Duration } from "./clock";
+import { createErrorFactory } from "./error-fixtures";
+import { faultMiddleware, type FaultInjector } from "./fault-injection";
+import { hashBody, IDEMPOTENCY_HEADER } from "./idempotency";
+import { validateSpecRequest } from "./spec-validator";
+import { decodeFixture, FIXTURE_HEADER } from "./test-target";
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Types
+ * ────────────────────────────────────────────────────────────────────────── */
+export type TokenState = "valid" | "expired" | "forbidden";
+
+export interface MockApiServerOptions {
+  /** 시계 (예약 만료/타임스탬프/레이트리밋 창 계산) */
+  now?: () => Date;
+  /** menuId → 남은 재료 수량. 없는 menuId는 MENU_NOT_FOUND */
+  stock?: Record<string, number>;
+  /** 토큰 → 상태. 지정하지 않으면 Bearer 토큰이면 모두 유효 */
+  tokens?: Record<string, TokenState>;
+  /** 토큰(없으면 원격 주소)당 요청 한도 */
+  rateLimit?: { limit: number; windowMs: number };
+  /** 예약 유효 시간 (기본 5분) */
+  reservationTtlMs?: number;
+  /** client_credentials 발급 클라이언트 (기본: member / shopOwner / noScope) */
+  clients?: Record<string, OAuthClient>;
+  /** 발급 토큰(JWT) 유효 시간 (기본 1시간) */
+  tokenTtlMs?: number;
+  /** 라우트별 장애 주입 (지연/소켓 리셋/본문 잘림 등) */
+  faults?: FaultInjector;
+}
+
+export interface OAuthClient {
+  secret: string;
+  scope: string[];
+}
+
+export interface Reservation {
+  reservationId: string;
+  menuId: string;
+  quantity: number;
+  shopId: string;
+  memberNo: string;
+  createdAt: Date;
+  expiresAt: Date;
+  orderNo?: string;
+}
+
+export interface MockReply {
+  status: number;
+  body: unknown;
+  headers?: Record<string, string>;
+}
+
+type Handler = (body: any) => MockReply;
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Defaults & Utils
+ * ────────────────────────────────────────────────────────────────────────── */
+const MENU_SELECT = "POST_/api/v1/menu/select" satisfies SpecKey;
+const ORDER_CREATE = "POST_/api/v1/order/create" satisfies SpecKey;
+
+const DEFAULT_STOCK: Record<string, number> = {
+  menu_001: 100,
+  menu_002: 100,
+};
+const DEFAULT_RATE_LIMIT = { limit: 100, windowMs: 60_000 };
+
+/** OAuth2 토큰 발급 스탠드인 (스펙 밖 경로) */
+export const TOKEN_PATH = "/oauth/token";
+const TOKEN_TTL_MS = 60 * 60_000;
+/** 기본 발급 클라이언트 (clientId = principal 이름) */
+export const DEFAULT_CLIENTS: Record<string, OAuthClient> = {
+  member: { secret: "member-secret", scope: ["menu:select", "order:create"] },
+  shopOwner: { secret: "shop-owner-secret", scope: ["shop:manage"] },
+  noScope: { secret: "no-scope-secret", scope: [] },
+};
+/** 발급 토큰(JWT)으로 호출 시 라우트별 필요 scope (없으면 403 FORBIDDEN) */
+const ROUTE_SCOPES: Partial<Record<SpecKey, string>> = {
+  [MENU_SELECT]: "menu:select",
+  [ORDER_CREATE]: "order:create",
+};
+const RESERVATION_TTL_MS = 5 * 60_000;
+const JSON_CONTENT_TYPE = "application/json;charset=UTF-8";
+
+const ALNUM = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
+const randomCode = (len = 8) =>
+  Array.from({ length: len }, () => ALNUM[randomInt(ALNUM.length)]).join("");
+
+const readBody = (req: IncomingMessage) =>
+  new Promise<string>((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (c: Buffer) => chunks.push(c));
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+  });
+
+const parseJson = (raw: string): any => {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+};
+
+const base64url = (val: unknown) =>
+  Buffer.from(JSON.stringify(val)).toString("base64url");
+
+const headerOf = (req: IncomingMessage, name: string) => {
+  const v = req.headers[name.toLowerCase()];
+  return Array.isArray(v) ? v[0] : v;
+};
+
+/* ─────────────────────────────────────────────────────────
+ * MockApiServer
+ * ───────────────────────────────────────────────────────── */
+export class MockApiServer {
+  readonly reservations = new Map<string, Reservation>();
+  readonly stock = new Map<string, number>();
+
+  private readonly idempotency = new Map<
+    string,
+    { hash: string; reply: MockReply }
+  >();
+  private readonly rateWindows = new Map<
+    string,
+    { start: number; count: number }
+  >();
+  private readonly routes = new Map<
+    string,
+    { key: SpecKey; handler?: Handler }
+  >();
+  private server?: Server;
+  private readonly jwtSecret = randomBytes(32);
+  private clockOffsetMs = 0;
+
+  constructor(private readonly options: MockApiServerOptions = {}) {
+    const handlers: Partial<Record<SpecKey, Handler>> = {
+      [MENU_SELECT]: (b) => this.menuSelect(b),
+      [ORDER_CREATE]: (b) => this.orderCreate(b),
+    };
+    for (const key of specKeys) {
+      const spec = getSpec(key);
+      this.routes.set(`${spec.restfulMethod} ${spec.restfulUrl}`, {
+        key,
+        handler: handlers[key],
+      });
+    }
+    this.reset();
+  }
+
+  private now() {
+    const base = this.options.now?.() ?? new Date();
+    return new Date(base.getTime() + this.clockOffsetMs);
+  }
+
+  /** 서버 시계를 앞당긴다 (예약 만료 등). reset() 시 원복 */
+  advanceClock(by: Duration) {
+    this.clockOffsetMs += toMs(by);
+    return this.now();
+  }
+
+  /* ───────────── lifecycle ───────────── */
+  async start(port = 0, host = "127.0.0.1") {
+    const faults = this.options.faults && faultMiddleware(this.options.faults);
+    const server = createServer((req, res) => {
+      const handle = () =>
+        this.handle(req, res).catch((err) => {
+          this.send(res, {
+            status: 500,
+            body: { status: "ERROR", message: String(err?.message ?? err) },
+          });
+        });
+      if (faults) faults(req, res, handle);
+      else handle();
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, host, () => resolve());
+    });
+    this.server = server;
+    const addr = server.address() as AddressInfo;
+    return `http://${host}:${addr.port}`;
+  }
+
+  async stop() {
+    const server = this.server;
+    this.server = undefined;
+    if (!server) return;
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  }
+
+  /** 상태 초기화 (시계/예약/멱등/레이트리밋/재고) */
+  reset() {
+    this.clockOffsetMs = 0;
+    this.reservations.clear();
+    this.idempotency.clear();
+    this.rateWindows.clear();
+    this.stock.clear();
+    for (const [menuId, n] of Object.entries(
+      this.options.stock ?? DEFAULT_STOCK
+    )) {
+      this.stock.set(menuId, n);
+    }
+  }
+
+  /* ───────────── envelopes ───────────── */
+  private success(key: SpecKey, data: unknown): MockReply {
+    return {
+      status: 200,
+      body: {
+        status: "SUCCESS",
+        message: getSpec(key).responseBodySchema.examples.success.message,
+        timestamp: this.now().toISOString(),
+        data,
+      },
+    };
+  }
+
+  private fail(
+    key: SpecKey,
+    errorCode: string,
+    headers?: Record<string, string>
+  ): MockReply {
+    const errors = createErrorFactory(key, { now: () => this.now() });
+    return {
+      status: errors.statusOf(errorCode),
+      body: errors.build(errorCode),
+      headers,
+    };
+  }
+
+  private send(res: ServerResponse, reply: MockReply) {
+    res.writeHead(reply.status, {
+      "Content-Type": JSON_CONTENT_TYPE,
+      ...reply.headers,
+    });
+    res.end(JSON.stringify(reply.body));
+  }
+
+  /* ───────────── pipeline ───────────── */
+  private async handle(req: IncomingMessage, res: ServerResponse) {
+    const path = new URL(req.url ?? "/", "http://localhost").pathname;
+    const route = this.routes.get(`${req.method} ${path}`);
+    const raw = await readBody(req);
+
+    // x-mock-fixture 헤더(encodeFixture)로 지정한 응답 고정값이 있으면 그대로 응답 (이 서버 전용)
+    const fixture = headerOf(req, FIXTURE_HEADER);
+    if (fixture) {
+      const { status, data, headers } = decodeFixture(fixture);
+      return this.send(res, { status, body: data, headers });
+    }
+
+    if (path === MOCK_CLOCK_PATH) return this.send(res, this.clock(req, raw));
+
+    if (req.method === "POST" && path === TOKEN_PATH) {
+      return this.send(
+        res,
+        this.issueToken(headerOf(req, "Authorization"), raw)
+      );
+    }
+
+    if (!route) {
+      return this.send(res, {
+        status: 404,
+        body: {
+          status: "ERROR",
+          message: `${req.method} ${path} 경로가 없습니다`,
+          timestamp: this.now().toISOString(),
+        },
+      });
+    }
+    if (!route.handler) {
+      return this.send(res, {
+        status: 501,
+        body: {
+          status: "ERROR",
+          message: `${route.key} 는 목 서버에 구현되어 있지 않습니다`,
+          timestamp: this.now().toISOString(),
+        },
+      });
+    }
+
+    const auth = headerOf(req, "Authorization");
+    const gate =
+      this.checkRateLimit(route.key, auth ?? req.socket.remoteAddress ?? "") ??
+      this.checkAuth(route.key, auth) ??
+      this.checkContentType(route.key, headerOf(req, "Content-Type"));
+    if (gate) return this.send(res, gate);
+
+    let body: unknown;
+    try {
+      body = JSON.parse(raw);
+    } catch {
+      return this.send(res, this.fail(route.key, "INVALID_REQUEST"));
+    }
+    if (validateSpecRequest(route.key, body).length) {
+      return this.send(res, this.fail(route.key, "INVALID_REQUEST"));
+    }
+
+    const idemKey = headerOf(req, IDEMPOTENCY_HEADER);
+    if (!idemKey) return this.send(res, route.handler(body));
+
+    const slot = `${route.key} ${idemKey}`;
+    const hash = hashBody(body);
+    const seen = this.idempotency.get(slot);
+    if (seen) {
+      return this.send(
+        res,
+        seen.hash === hash ? seen.reply : this.fail(route.key, "IDEMP_CONFLICT")
+      );
+    }
+    const reply = route.handler(body);
+    this.idempotency.set(slot, { hash, reply });
+    return this.send(res, reply);
+  }
+
+  /** POST { advanceMs } 로 앞당기고 DELETE 로 원복 (다른 프로세스의 테스트용) */
+  private clock(req: IncomingMessage, raw: string): MockReply {
+    if (req.method === "DELETE") {
+      this.clockOffsetMs = 0;
+    } else if (req.method === "POST") {
+      const advanceMs = parseJson(raw)?.advanceMs;
+      if (typeof advanceMs !== "number" || !Number.isFinite(advanceMs)) {
+        return {
+          status: 400,
+          body: { status: "ERROR", message: "advanceMs(숫자)가 필요합니다" },
+        };
+      }
+      this.advanceClock(advanceMs);
+    }
+    return { status: 200, body: { now: this.now().toISOString() } };
+  }
+
+  private checkRateLimit(key: SpecKey, client: string) {
+    const { limit, windowMs } = this.options.rateLimit ?? DEFAULT_RATE_LIMIT;
+    const now = this.now().getTime();
+    const win = this.rateWindows.get(client);
+    if (!win || now - win.start >= windowMs) {
+      this.rateWindows.set(client, { start: now, count: 1 });
+      return undefined;
+    }
+    if (++win.count <= limit) return undefined;
+    const retryAfter = Math.ceil((win.start + windowMs - now) / 1000);
+    return this.fail(key, "RATE_LIMIT_EXCEEDED", {
+      "Retry-After": String(retryAfter),
+    });
+  }
+
+  private checkAuth(key: SpecKey, auth?: string) {
+    const token = auth?.match(/^Bearer\s+(.+)$/i)?.[1];
+    if (!token) return this.fail(key, "UNAUTHORIZED");
+
+    const claims = this.verifyJwt(token);
+    if (claims) {
+      if (claims.exp * 1000 <= this.now().getTime()) {
+        return this.fail(key, "UNAUTHORIZED");
+      }
+      const needed = ROUTE_SCOPES[key];
+      if (needed && !claims.scope.split(" ").includes(needed)) {
+        return this.fail(key, "FORBIDDEN");
+      }
+      return undefined;
+    }
+    const state = this.options.tokens ? this.options.tokens[token] : "valid";
+    if (state === "forbidden") return this.fail(key, "FORBIDDEN");
+    if (state !== "valid") return this.fail(key, "UNAUTHORIZED");
+    return undefined;
+  }
+
+  /* ───────────── oauth2 (client_credentials) ───────────── */
+  private issueToken(auth: string | undefined, raw: string): MockReply {
+    const form = new URLSearchParams(raw);
+    const [id, secret] = auth?.match(/^Basic\s+(.+)$/i)
+      ? Buffer.from(auth.split(/\s+/)[1], "base64").toString().split(":")
+      : [form.get("client_id"), form.get("client_secret")];
+
+    if (form.get("grant_type") !== "client_credentials") {
+      return { status: 400, body: { error: "unsupported_grant_type" } };
+    }
+    const client = id
+      ? (this.options.clients ?? DEFAULT_CLIENTS)[id]
+      : undefined;
+    if (!client || client.secret !== secret) {
+      return { status: 401, body: { error: "invalid_client" } };
+    }
+
+    const requested = form.get("scope")?.split(" ").filter(Boolean);
+    const scope = (
+      requested
+        ? client.scope.filter((s) => requested.includes(s))
+        : client.scope
+    ).join(" ");
+    const ttlMs = this.options.tokenTtlMs ?? TOKEN_TTL_MS;
+    const iat = Math.floor(this.now().getTime() / 1000);
+    const exp = Math.floor((this.now().getTime() + ttlMs) / 1000);
+    return {
+      status: 200,
+      body: {
+        access_token: this.signJwt({
+          sub: id,
+          scope,
+          iat,
+          exp,
+          jti: randomCode(),
+        }),
+        token_type: "Bearer",
+        expires_in: Math.floor(ttlMs / 1000),
+        scope,
+      },
+    };
+  }
+
+  private signJwt(claims: Record<string, unknown>) {
+    const unsigned = `${base64url({ alg: "HS256", typ: "JWT" })}.${base64url(
+      claims
+    )}`;
+    const sig = createHmac("sha256", this.jwtSecret)
+      .update(unsigned)
+      .digest("base64url");
+    return `${unsigned}.${sig}`;
+  }
+
+  private verifyJwt(token: string) {
+    const [head, body, sig] = token.split(".");
+    if (!head || !body || !sig) return undefined;
+    const expected = createHmac("sha256", this.jwtSecret)
+      .update(`${head}.${body}`)
+      .digest("base64url");
+    if (sig !== expected) return undefined;
+    return JSON.parse(Buffer.from(body, "base64url").toString()) as {
+      exp: number;
+      scope: string;
+    };
+  }
+
+  private checkContentType(key: SpecKey, contentType?: string) {
+    return contentType?.toLowerCase().startsWith("application/json")
+      ? undefined
+      : this.fail(key, "INVALID_REQUEST");
+  }
+
+  /* ───────────── domain ───────────── */
+  private menuSelect(body: {
+    menuId: string;
+    quantity: number;
+    shopId: string;
+    memberNo: string;
+  }): MockReply {
+    const available = this.stock.get(body.menuId);
+    if (available === undefined)
+      return this.fail(MENU_SELECT, "MENU_NOT_FOUND");
+    if (available < body.quantity) {
+      return this.fail(MENU_SELECT, "INSUFFICIENT_INGREDIENTS");
+    }
+
+    const createdAt = this.now();
+    const reservation: Reservation = {
+      ...body,
+      reservationId: `RSV_${randomCode()}`,
+      createdAt,
+      expiresAt: new Date(
+        createdAt.getTime() +
+          (this.options.reservationTtlMs ?? RESERVATION_TTL_MS)
+      ),
+    };
+    this.reservations.set(reservation.reservationId, reservation);
+
+    return this.success(MENU_SELECT, {
+      reservationId: reservation.reservationId,
+      reservationExpiresAt: reservation.expiresAt.toISOString(),
+      menuId: reservation.menuId,
+      quantity: reservation.quantity,
+    });
+  }
+
+  private orderCreate(body: {
+    reservationId: string;
+    memberNo: string;
+  }): MockReply {
+    const rsv = this.reservations.get(body.reservationId);
+    if (!rsv || rsv.memberNo !== body.memberNo) {
+      return this.fail(ORDER_CREATE, "INVALID_RESERVATION");
+    }
+    if (rsv.orderNo) return this.fail(ORDER_CREATE, "DUPLICATE_ORDER");
+
+    const createdAt = this.now();
+    if (createdAt > rsv.expiresAt) {
+      return this.fail(ORDER_CREATE, "RESERVATION_EXPIRED");
+    }
+    const available = this.stock.get(rsv.menuId) ?? 0;
+    if (available < rsv.quantity) {
+      return this.fail(ORDER_CREATE, "INGREDIENTS_EXHAUSTED");
+    }
+
+    this.stock.set(rsv.menuId, available - rsv.quantity);
+    rsv.orderNo = randomCode();
+
+    return this.success(ORDER_CREATE, {
+      orderNo: rsv.orderNo,
+      orderStatus: "INITIALIZING",
+      reservationId: rsv.reservationId,
+      createdAt: createdAt.toISOString(),
+      memberInfo: { memberNo: rsv.memberNo },
+    });
+  }
+}
@@ -0,0 +1,270 @@
+import {
+  ERROR_RESPONSE_SCHEMA,
+  type JsonSchema,
+  type SpecDocument,
+  type SpecDocumentEntry,
+} from "./api-spec";
+import type { OpenApiDocument } from "./openapi-import";
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Types
+ * ────────────────────────────────────────────────────────────────────────── */
+type OpenApiNode = Record<string, any>;
+
+export interface OpenApiExportOptions {
+  title?: string;
+  version?: string;
+}
+
+/** 엔드포인트별 단독 JSON Schema (draft 2020-12) */
+export interface EndpointJsonSchemas {
+  request?: OpenApiNode;
+  response: OpenApiNode;
+  error?: OpenApiNode;
+}
+
+export const JSON_SCHEMA_DIALECT =
+  "https://json-schema.org/draft/2020-12/schema";
+
+const DEFAULT_CONTENT_TYPE = "application/json";
+
+/** OpenAPI 가 header 파라미터로 허용하지 않는 이름 (보안 스킴·미디어 타입으로 표현) */
+const RESERVED_HEADERS = ["authorization", "content-type", "accept"];
+
+/**
+ * auth-strategies 이름 → securityScheme. x-auth-strategy 로 원래 이름을 남겨
+ * openapi-import 가 그대로 되돌린다 (hmac 등 표준 스킴이 없는 전략 포함)
+ */
+const SECURITY_SCHEMES: Record<string, OpenApiNode> = {
+  bearer: { type: "http", scheme: "bearer" },
+  basic: { type: "http", scheme: "basic" },
+  apiKey: { type: "apiKey", in: "header", name: "x-api-key" },
+  apiKeyQuery: { type: "apiKey", in: "query", name: "api_key" },
+  cookie: { type: "apiKey", in: "cookie", name: "SESSION" },
+  hmac: {
+    type: "apiKey",
+    in: "header",
+    name: "x-signature",
+    description: "HMAC 서명 (x-key-id, x-timestamp, x-nonce, x-signature)",
+  },
+};
+
+const ERROR_RESPONSE = ERROR_RESPONSE_SCHEMA as OpenApiNode;
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Utils
+ * ────────────────────────────────────────────────────────────────────────── */
+/** 부분집합 → JSON Schema 2020-12: example → examples[], 응답 예시 묶음(examples 객체)은 제거 */
+const toSchema = (schema: JsonSchema): OpenApiNode => {
+  const { example, examples, properties, items, ...rest } = schema;
+  return {
+    ...rest,
+    ...(properties && {
+      properties: Object.fromEntries(
+        Object.entries(properties).map(([name, prop]) => [name, toSchema(prop)])
+      ),
+    }),
+    ...(items && { items: toSchema(items) }),
+    ...(example !== undefined && { examples: [example] }),
+  };
+};
+
+const byStatus = (errorCodes: SpecDocumentEntry["errorCodes"]) => {
+  const groups = new Map<number, SpecDocumentEntry["errorCodes"]>();
+  for (const entry of errorCodes) {
+    groups.set(entry.HttpStatus, [
+      ...(groups.get(entry.HttpStatus) ?? []),
+      entry,
+    ]);
+  }
+  return [...groups.entries()].sort(([a], [b]) => a - b);
+};
+
+/** 이 상태의 errorCode 만 허용하는 에러 봉투 */
+const errorSchemaFor = (codes: string[]): OpenApiNode => ({
+  allOf: [
+    { $ref: "#/components/schemas/ErrorResponse" },
+    {
+      required: ["errorCode"],
+      properties: { errorCode: { enum: codes } },
+    },
+  ],
+});
+
+const parametersOf = (entry: SpecDocumentEntry) =>
+  entry.requestHeaders.order
+    .filter((name) => !RESERVED_HEADERS.includes(name.toLowerCase()))
+    .map((name) => {
+      const rule = entry.requestHeaders.byName[name] ?? {};
+      return {
+        name,
+        in: "header",
+        required: rule.required === true,
+        ...(rule.description && { description: rule.description }),
+        schema: {
+          type: "string",
+          ...(rule.const !== undefined && { const: rule.const }),
+        },
+      };
+    });
+
+const contentTypeOf = (entry: SpecDocumentEntry) => {
+  const name = entry.requestHeaders.order.find(
+    (h) => h.toLowerCase() === "content-type"
+  );
+  return (
+    (name && entry.requestHeaders.byName[name]?.const) || DEFAULT_CONTENT_TYPE
+  );
+};
+
+const toOperation = (key: string, entry: SpecDocumentEntry): OpenApiNode => {
+  const { examples = {}, ...response } = entry.responseBodySchema;
+  const failure = examples.failure as { errorCode?: string } | undefined;
+  const parameters = parametersOf(entry);
+
+  const responses: Record<string, OpenApiNode> = {
+    "200": {
+      description: "성공",
+      content: {
+        [DEFAULT_CONTENT_TYPE]: {
+          schema: toSchema(response),
+          ...(examples.success !== undefined && { example: examples.success }),
+        },
+      },
+    },
+  };
+  for (const [status, entries] of byStatus(entry.errorCodes)) {
+    const codes = entries.map((e) => e.ErrorCode);
+    const example =
+      failure && codes.includes(failure.errorCode ?? "") ? failure : undefined;
+    responses[String(status)] = {
+      description: entries.map((e) => e.Description).join(" / "),
+      "x-error-codes": entries.map((e) => ({
+        code: e.ErrorCode,
+        description: e.Description,
+      })),
+      content: {
+        [DEFAULT_CONTENT_TYPE]: {
+          schema: errorSchemaFor(codes),
+          ...(example && { example }),
+        },
+      },
+    };
+  }
+
+  const body = entry.requestBodySchema;
+  return {
+    operationId: key,
+    summary: entry.description,
+    ...(entry.auth && { security: [{ [entry.auth]: [] }] }),
+    ...(parameters.length && { parameters }),
+    ...(body && {
+      requestBody: {
+        required: true,
+        content: {
+          [contentTypeOf(entry)]: {
+            schema: toSchema({ ...body, example: undefined }),
+            ...(body.example !== undefined && { example: body.example }),
+          },
+        },
+      },
+    }),
+    responses,
+  };
+};
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Public API
+ * ────────────────────────────────────────────────────────────────────────── */
+/**
+ * api-spec.json 전체 → OpenAPI 3.1 문서.
+ * requestHeaders.byName 은 header 파라미터(Authorization 은 securitySchemes, Content-Type 은 미디어 타입),
+ * 스키마/예시는 미디어 타입, errorCodes 는 상태별 응답(errorCode enum + x-error-codes)으로 옮긴다
+ */
+export const exportOpenApi = (
+  spec: SpecDocument,
+  { title = "API Spec", version = "1.0.0" }: OpenApiExportOptions = {}
+): OpenApiDocument => {
+  const paths: Record<string, OpenApiNode> = {};
+  const strategies = new Set<string>();
+
+  for (const [key, entry] of Object.entries(spec)) {
+    const method = entry.restfulMethod.toLowerCase();
+    paths[entry.restfulUrl] = {
+      ...paths[entry.restfulUrl],
+      [method]: toOperation(key, entry),
+    };
+    if (entry.auth) strategies.add(entry.auth);
+  }
+
+  const securitySchemes = Object.fromEntries(
+    [...strategies].map((name) => [
+      name,
+      {
+        ...(SECURITY_SCHEMES[name] ?? {
+          type: "apiKey",
+          in: "header",
+          name: "Authorization",
+          description: `${name} 인증 전략 (auth-strategies 에 등록)`,
+        }),
+        "x-auth-strategy": name,
+      },
+    ])
+  );
+
+  return {
+    openapi: "3.1.0",
+    info: { title, version },
+    jsonSchemaDialect: JSON_SCHEMA_DIALECT,
+    paths,
+    components: {
+      schemas: { ErrorResponse: ERROR_RESPONSE },
+      ...(strategies.size && { securitySchemes }),
+    },
+  };
+};
+
+/** "POST_/api/v1/order/{orderNo}" → "POST_api_v1_order_orderNo" (파일 이름용) */
+export const schemaFileStem = (key: string) =>
+  key
+    .replace(/[{}]/g, "")
+    .replace(/[^\w.-]+/g, "_")
+    .replace(/_+/g, "_");
+
+/**
+ * 엔드포인트별 단독 JSON Schema (외부 $ref 없이 바로 검증기에 넣을 수 있는 형태).
+ * error 는 이 엔드포인트에 선언된 errorCode 만 허용
+ */
+export const exportJsonSchemas = (
+  spec: SpecDocument
+): Record<string, EndpointJsonSchemas> =>
+  Object.fromEntries(
+    Object.entries(spec).map(([key, entry]) => {
+      const stem = schemaFileStem(key);
+      const standalone = (kind: string, schema: OpenApiNode) => ({
+        $schema: JSON_SCHEMA_DIALECT,
+        $id: `${stem}.${kind}.schema.json`,
+        title: `${entry.restfulMethod} ${entry.restfulUrl} ${kind}`,
+        ...schema,
+      });
+      const { examples, ...response } = entry.responseBodySchema;
+      const codes = [...new Set(entry.errorCodes.map((e) => e.ErrorCode))];
+      const schemas: EndpointJsonSchemas = {
+        ...(entry.requestBodySchema && {
+          request: standalone("request", toSchema(entry.requestBodySchema)),
+        }),
+        response: standalone("response", toSchema(response)),
+        ...(codes.length && {
+          error: standalone("error", {
+            ...ERROR_RESPONSE,
+            required: [...ERROR_RESPONSE.required, "errorCode"],
+            properties: {
+              ...ERROR_RESPONSE.properties,
+              errorCode: { type: "string", enum: codes },
+            },
+          }),
+        }),
+      };
+      return [key, schemas];
+    })
+  );
@@ -0,0 +1,520 @@
+import { parse as parseYaml } from "yaml";
+
+import type {
+  JsonSchema,
+  SpecDocument,
+  SpecDocumentEntry,
+  SpecHeaderRule,
+} from "./api-spec";
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Types (OpenAPI 3.0/3.1 중 가져오기에 쓰는 부분만)
+ * ────────────────────────────────────────────────────────────────────────── */
+type OpenApiNode = Record<string, any>;
+
+export interface OpenApiDocument extends OpenApiNode {
+  openapi: string;
+  paths?: Record<string, OpenApiNode>;
+  components?: OpenApiNode;
+  security?: Array<Record<string, string[]>>;
+}
+
+type SpecErrorCodeEntry = SpecDocumentEntry["errorCodes"][number];
+
+const HTTP_METHODS = ["get", "post", "put", "patch", "delete"];
+const SCHEMA_TYPES = [
+  "object",
+  "array",
+  "string",
+  "integer",
+  "number",
+  "boolean",
+];
+
+/** 병합 시 기존 값을 유지하는 손으로 쓴 설명 필드 */
+const DESCRIPTION_KEYS = new Set(["description", "Description"]);
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * $ref
+ * ────────────────────────────────────────────────────────────────────────── */
+const unescapePointer = (s: string) =>
+  s.replace(/~1/g, "/").replace(/~0/g, "~");
+
+const lookup = (doc: OpenApiDocument, ref: string) => {
+  if (!ref.startsWith("#/")) {
+    throw new Error(`외부 $ref 는 지원하지 않습니다: ${ref}`);
+  }
+  const target = ref
+    .slice(2)
+    .split("/")
+    .map(unescapePointer)
+    .reduce<any>((node, key) => node?.[key], doc);
+  if (target === undefined) {
+    throw new Error(`$ref 대상을 찾을 수 없습니다: ${ref}`);
+  }
+  return target;
+};
+
+/** 로컬 $ref 를 모두 펼친 사본. 3.1 처럼 $ref 옆 필드(description 등)는 대상 위에 덮어쓴다 */
+const deref = (
+  doc: OpenApiDocument,
+  node: unknown,
+  seen: string[] = []
+): any => {
+  if (Array.isArray(node)) return node.map((item) => deref(doc, item, seen));
+  if (!node || typeof node !== "object") return node;
+
+  const { $ref, ...siblings } = node as OpenApiNode;
+  if (typeof $ref === "string") {
+    if (seen.includes($ref)) {
+      throw new Error(
+        `순환 $ref 는 지원하지 않습니다: ${[...seen, $ref].join(" → ")}`
+      );
+    }
+    return {
+      ...deref(doc, lookup(doc, $ref), [...seen, $ref]),
+      ...deref(doc, siblings, seen),
+    };
+  }
+  return Object.fromEntries(
+    Object.entries(node).map(([k, v]) => [k, deref(doc, v, seen)])
+  );
+};
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Schema (OpenAPI Schema Object → api-spec JSON Schema 부분집합)
+ * ────────────────────────────────────────────────────────────────────────── */
+const typeOf = (schema: OpenApiNode): JsonSchema["type"] => {
+  // 3.1: ["string", "null"] → string (부분집합에 null 없음)
+  const types = [schema.type].flat().filter((t) => t && t !== "null");
+  const type = types.find((t) => SCHEMA_TYPES.includes(t));
+  if (type) return type;
+  if (schema.properties) return "object";
+  if (schema.items) return "array";
+  return undefined;
+};
+
+const toJsonSchema = (schema: OpenApiNode): JsonSchema => {
+  if (Array.isArray(schema.allOf)) {
+    const { allOf, ...rest } = schema;
+    return [...allOf, rest].map(toJsonSchema).reduce(
+      (acc, part) => ({
+        ...acc,
+        ...part,
+        ...((acc.properties || part.properties) && {
+          properties: { ...acc.properties, ...part.properties },
+        }),
+        ...((acc.required || part.required) && {
+          required: [
+            ...new Set([...(acc.required ?? []), ...(part.required ?? [])]),
+          ],
+        }),
+      }),
+      {} as JsonSchema
+    );
+  }
+
+  const out: JsonSchema = {};
+  const type = typeOf(schema);
+  if (type) out.type = type;
+  if (typeof schema.description === "string") {
+    out.description = schema.description;
+  }
+  if (Array.isArray(schema.enum)) {
+    out.enum = schema.enum.filter((v: unknown) => v !== null);
+  }
+  if (schema.const !== undefined) out.const = schema.const;
+  if (typeof schema.pattern === "string") out.pattern = schema.pattern;
+  if (typeof schema.minLength === "number") out.minLength = schema.minLength;
+  if (typeof schema.format === "string") out.format = schema.format;
+
+  // 3.0: exclusiveMinimum: true + minimum / 3.1: exclusiveMinimum: <숫자> (정수만 환산)
+  const step = type === "integer" ? 1 : 0;
+  if (typeof schema.minimum === "number") {
+    out.minimum =
+      schema.minimum + (schema.exclusiveMinimum === true ? step : 0);
+  } else if (typeof schema.exclusiveMinimum === "number" && step) {
+    out.minimum = schema.exclusiveMinimum + step;
+  }
+  if (typeof schema.maximum === "number") {
+    out.maximum =
+      schema.maximum - (schema.exclusiveMaximum === true ? step : 0);
+  } else if (typeof schema.exclusiveMaximum === "number" && step) {
+    out.maximum = schema.exclusiveMaximum - step;
+  }
+
+  if (schema.additionalProperties !== undefined) {
+    // 부분집합은 boolean 만: 스키마 객체면 허용(true)으로 본다
+    out.additionalProperties = schema.additionalProperties !== false;
+  }
+  if (Array.isArray(schema.required) && schema.required.length) {
+    out.required = [...schema.required];
+  }
+  if (schema.properties) {
+    out.properties = Object.fromEntries(
+      Object.entries(schema.properties as Record<string, OpenApiNode>).map(
+        ([name, prop]) => [name, toJsonSchema(prop)]
+      )
+    );
+  }
+  if (schema.items) out.items = toJsonSchema(schema.items);
+
+  const example =
+    schema.example ??
+    (Array.isArray(schema.examples) ? schema.examples[0] : undefined);
+  if (example !== undefined) out.example = example;
+  return out;
+};
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Operation → SpecDocumentEntry
+ * ────────────────────────────────────────────────────────────────────────── */
+/** content 에서 JSON 미디어 타입 하나 */
+const jsonMedia = (content: OpenApiNode | undefined) => {
+  const type = Object.keys(content ?? {}).find((t) => /json/i.test(t));
+  return type ? { type, media: content![type] as OpenApiNode } : undefined;
+};
+
+/** media.example → media.examples 첫 값 → schema.example */
+const exampleOf = (media: OpenApiNode) => {
+  if (media.example !== undefined) return media.example;
+  const first = Object.values(media.examples ?? {})[0] as
+    | OpenApiNode
+    | undefined;
+  if (first?.value !== undefined) return first.value;
+  return (
+    media.schema?.example ??
+    (Array.isArray(media.schema?.examples)
+      ? media.schema.examples[0]
+      : undefined)
+  );
+};
+
+/**
+ * securitySchemes → auth-strategies 이름. x-auth-strategy 가 있으면 그대로 (openapi-export 가 씀),
+ * 없으면 스킴 종류로 추론 (oauth2/openIdConnect 는 bearer)
+ */
+const authOf = (doc: OpenApiDocument, operation: OpenApiNode) => {
+  const requirements = operation.security ?? doc.security;
+  if (!requirements) return undefined;
+  const name = Object.keys(requirements[0] ?? {})[0];
+  if (!name) return undefined;
+  const scheme = doc.components?.securitySchemes?.[name] ?? {};
+  if (typeof scheme["x-auth-strategy"] === "string") {
+    return scheme["x-auth-strategy"];
+  }
+  if (scheme.type === "http") {
+    return String(scheme.scheme).toLowerCase() === "basic" ? "basic" : "bearer";
+  }
+  if (scheme.type === "apiKey") {
+    if (scheme.in === "query") return "apiKeyQuery";
+    if (scheme.in === "cookie") return "cookie";
+    return "apiKey";
+  }
+  return "bearer";
+};
+
+const AUTHORIZATION_RULES: Record<string, SpecHeaderRule> = {
+  bearer: { required: true, description: "Bearer {ACCESS_TOKEN} (필수)" },
+  basic: {
+    required: true,
+    description: "Basic {BASIC_AUTH_USER:BASIC_AUTH_PASSWORD} (필수)",
+  },
+};
+
+const headersOf = (
+  method: string,
+  operation: OpenApiNode,
+  pathItem: OpenApiNode,
+  auth: string | undefined,
+  bodyType: string | undefined
+) => {
+  const byName: Record<string, SpecHeaderRule> = {};
+  if (auth && AUTHORIZATION_RULES[auth]) {
+    byName.Authorization = { ...AUTHORIZATION_RULES[auth] };
+  }
+  // path 레벨 파라미터 위에 operation 레벨을 덮어쓴다
+  const params = [
+    ...(pathItem.parameters ?? []),
+    ...(operation.parameters ?? []),
+  ];
+  for (const param of params as OpenApiNode[]) {
+    if (param.in !== "header") continue;
+    const schema = param.schema ?? {};
+    const constant =
+      schema.const ?? (schema.enum?.length === 1 ? schema.enum[0] : undefined);
+    byName[param.name] = {
+      required: param.required === true,
+      ...(typeof constant === "string" && { const: constant }),
+      ...(param.description && { description: param.description }),
+    };
+  }
+  if (bodyType && !byName["Content-Type"]) {
+    byName["Content-Type"] = {
+      required: false,
+      const: bodyType,
+      description: `${method} 본문 있을 때 자동 설정`,
+    };
+  }
+  return { order: Object.keys(byName), byName };
+};
+
+const statusesOf = (operation: OpenApiNode) =>
+  Object.keys(operation.responses ?? {})
+    .filter((status) => /^\d{3}$/.test(status))
+    .map(Number)
+    .sort((a, b) => a - b);
+
+const toErrorCode = (
+  raw: unknown,
+  status: number,
+  fallback: string
+): SpecErrorCodeEntry => {
+  if (typeof raw === "string") {
+    return { ErrorCode: raw, HttpStatus: status, Description: fallback };
+  }
+  const entry = raw as OpenApiNode;
+  return {
+    ErrorCode: String(entry.ErrorCode ?? entry.code),
+    HttpStatus: Number(entry.HttpStatus ?? entry.status ?? status),
+    Description: String(entry.Description ?? entry.description ?? fallback),
+  };
+};
+
+/**
+ * 에러 코드 수집 순서
+ *  1) operation 의 x-error-codes: [{ code|ErrorCode, status|HttpStatus, description|Description }]
+ *  2) 응답(4xx/5xx)의 x-error-codes: ["CODE"] 또는 [{ code, description }]
+ *  3) 응답 스키마의 errorCode enum/const (설명은 응답 description)
+ */
+const errorCodesOf = (operation: OpenApiNode) => {
+  const out: SpecErrorCodeEntry[] = (operation["x-error-codes"] ?? []).map(
+    (raw: unknown) => {
+      const entry = toErrorCode(raw, NaN, "");
+      if (!Number.isInteger(entry.HttpStatus)) {
+        throw new Error(
+          `operation x-error-codes 에는 HttpStatus(status)가 필요합니다: ${entry.ErrorCode}`
+        );
+      }
+      return entry;
+    }
+  );
+  for (const status of statusesOf(operation).filter((s) => s >= 400)) {
+    const response = operation.responses[String(status)] as OpenApiNode;
+    const description = response.description ?? "";
+    const declared = response["x-error-codes"];
+    if (Array.isArray(declared)) {
+      out.push(...declared.map((raw) => toErrorCode(raw, status, description)));
+      continue;
+    }
+    const errorCode = jsonMedia(response.content)?.media.schema?.properties
+      ?.errorCode;
+    const codes =
+      errorCode?.enum ??
+      (errorCode?.const !== undefined ? [errorCode.const] : []);
+    out.push(
+      ...codes.map((code: string) => toErrorCode(code, status, description))
+    );
+  }
+
+  const seen = new Set<string>();
+  return out
+    .filter((e) => {
+      const id = `${e.HttpStatus} ${e.ErrorCode}`;
+      if (seen.has(id)) return false;
+      seen.add(id);
+      return true;
+    })
+    .sort((a, b) => a.HttpStatus - b.HttpStatus);
+};
+
+/** 첫 2xx 스키마 + examples.success, 예시가 있는 첫 4xx/5xx → examples.failure */
+const responseSchemaOf = (operation: OpenApiNode): JsonSchema => {
+  const statuses = statusesOf(operation);
+  const mediaAt = (status: number) =>
+    jsonMedia(operation.responses[String(status)].content)?.media;
+
+  const successStatus = statuses.find((s) => s >= 200 && s < 300);
+  const success =
+    successStatus === undefined ? undefined : mediaAt(successStatus);
+  const { example: schemaExample, ...schema } = success?.schema
+    ? toJsonSchema(success.schema)
+    : ({} as JsonSchema);
+
+  const examples: Record<string, unknown> = {};
+  const successExample = success ? exampleOf(success) : undefined;
+  if ((successExample ?? schemaExample) !== undefined) {
+    examples.success = successExample ?? schemaExample;
+  }
+  for (const status of statuses.filter((s) => s >= 400)) {
+    const media = mediaAt(status);
+    const failure = media ? exampleOf(media) : undefined;
+    if (failure === undefined) continue;
+    examples.failure = failure;
+    break;
+  }
+
+  return { ...schema, ...(Object.keys(examples).length && { examples }) };
+};
+
+const toEntry = (
+  doc: OpenApiDocument,
+  path: string,
+  method: string,
+  pathItem: OpenApiNode,
+  operation: OpenApiNode
+): SpecDocumentEntry => {
+  const METHOD = method.toUpperCase();
+  const auth = authOf(doc, operation);
+  const body = jsonMedia(operation.requestBody?.content);
+
+  let requestBodySchema: JsonSchema | undefined;
+  if (body?.media.schema) {
+    const { example: _, ...schema } = toJsonSchema(body.media.schema);
+    const example = exampleOf(body.media);
+    requestBodySchema = {
+      ...schema,
+      ...(example !== undefined && { example }),
+    };
+  }
+
+  return {
+    description: operation.summary ?? operation.description ?? "",
+    restfulMethod: METHOD,
+    restfulUrl: path,
+    ...(auth && { auth }),
+    requestHeaders: headersOf(METHOD, operation, pathItem, auth, body?.type),
+    ...(requestBodySchema && { requestBodySchema }),
+    responseBodySchema: responseSchemaOf(operation),
+    errorCodes: errorCodesOf(operation),
+  };
+};
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Merge
+ * ────────────────────────────────────────────────────────────────────────── */
+const isPlainObject = (v: unknown): v is Record<string, unknown> =>
+  !!v && typeof v === "object" && !Array.isArray(v);
+
+/** ErrorCode 기준 병합: 가져온 코드만 남기고(상류에서 지운 코드는 제거) 남는 코드의 설명만 옮긴다 */
+const mergeErrorCodes = (
+  existing: SpecErrorCodeEntry[],
+  incoming: SpecErrorCodeEntry[]
+) =>
+  incoming
+    .map((entry) => {
+      const current = existing.find((e) => e.ErrorCode === entry.ErrorCode);
+      return carryDescriptions(current, entry) as SpecErrorCodeEntry;
+    })
+    .sort((a, b) => a.HttpStatus - b.HttpStatus);
+
+/** 본문 스키마 위치: 병합하지 않고 가져온 구조로 교체 */
+const SCHEMA_KEYS = new Set(["requestBodySchema", "responseBodySchema"]);
+
+const hasText = (v: unknown): v is string =>
+  typeof v === "string" && !!v.trim();
+
+/**
+ * 스키마는 가져온 구조(properties·items·required·예시)로 교체하고,
+ * 같은 위치에 손으로 쓴 description 만 옮긴다 (상류에서 지운 필드는 사라짐)
+ */
+const carryDescriptions = (existing: unknown, incoming: unknown): unknown => {
+  if (!isPlainObject(existing) || !isPlainObject(incoming)) return incoming;
+
+  const out: Record<string, unknown> = {};
+  for (const [k, value] of Object.entries(incoming)) {
+    out[k] =
+      k === "example" || k === "examples"
+        ? value
+        : carryDescriptions(existing[k], value);
+  }
+  for (const k of DESCRIPTION_KEYS) {
+    if (hasText(existing[k])) out[k] = existing[k];
+  }
+  return out;
+};
+
+const mergeValue = (
+  existing: unknown,
+  incoming: unknown,
+  key = ""
+): unknown => {
+  if (
+    key === "errorCodes" &&
+    Array.isArray(existing) &&
+    Array.isArray(incoming)
+  ) {
+    return mergeErrorCodes(existing, incoming);
+  }
+  if (key === "order" && Array.isArray(existing) && Array.isArray(incoming)) {
+    return [...new Set([...existing, ...incoming])];
+  }
+  if (SCHEMA_KEYS.has(key)) return carryDescriptions(existing, incoming);
+  if (!isPlainObject(existing) || !isPlainObject(incoming)) return incoming;
+
+  const out: Record<string, unknown> = { ...existing };
+  for (const [k, value] of Object.entries(incoming)) {
+    const current = existing[k];
+    if (DESCRIPTION_KEYS.has(k) && hasText(current)) continue;
+    out[k] = k in existing ? mergeValue(current, value, k) : value;
+  }
+  return out;
+};
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Public API
+ * ────────────────────────────────────────────────────────────────────────── */
+/** YAML/JSON 텍스트 → OpenAPI 3.0/3.1 문서 (JSON 은 YAML 의 부분집합) */
+export const parseOpenApi = (text: string): OpenApiDocument => {
+  const doc = parseYaml(text);
+  const version = String(doc?.openapi ?? doc?.swagger ?? "");
+  if (!/^3\.[01]\./.test(version)) {
+    throw new Error(
+      `OpenAPI 3.0/3.1 문서가 아닙니다: ${version || "버전 없음"}`
+    );
+  }
+  return doc as OpenApiDocument;
+};
+
+/**
+ * OpenAPI paths → api-spec.json 항목. 키는 "METHOD_/path".
+ * $ref/components 를 펼치고, 2xx 스키마를 responseBodySchema 로,
+ * 4xx/5xx 응답과 x-error-codes 를 errorCodes 로 옮긴다
+ */
+export const importOpenApi = (doc: OpenApiDocument): SpecDocument => {
+  const out: SpecDocument = {};
+  for (const [path, rawItem] of Object.entries(doc.paths ?? {})) {
+    const pathItem = deref(doc, rawItem) as OpenApiNode;
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method] as OpenApiNode | undefined;
+      if (!operation) continue;
+      out[`${method.toUpperCase()}_${path}`] = toEntry(
+        doc,
+        path,
+        method,
+        pathItem,
+        operation
+      );
+    }
+  }
+  return out;
+};
+
+/**
+ * 가져온 항목을 기존 api-spec.json 에 병합.
+ * 구조(헤더·상태)는 가져온 값이 우선, 손으로 쓴 description/Description 은 유지,
+ * 본문 스키마는 가져온 구조로 교체(설명만 옮김),
+ * errorCodes 는 가져온 코드로 교체(남는 코드의 설명만 옮김), 기존에만 있는 항목/필드(auth 등)는 남긴다
+ */
+export const mergeSpec = (
+  existing: SpecDocument,
+  imported: SpecDocument
+): SpecDocument => {
+  const out: SpecDocument = { ...existing };
+  for (const [key, entry] of Object.entries(imported)) {
+    out[key] = existing[key]
+      ? (mergeValue(existing[key], entry) as SpecDocumentEntry)
+      : entry;
+  }
+  return out;
+};
@@ -0,0 +1,109 @@
+import { expect } from "vitest";
+
+import type { SpecKey } from "./api-spec";
+import type { RecordedRequest, RequestRecorder } from "./request-recorder";
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Types
+ * ────────────────────────────────────────────────────────────────────────── */
+export interface RequestExpectation {
+  route?: SpecKey;
+  method?: string;
+  url?: string | RegExp;
+  /** 부분 일치 (헤더 이름 대소문자 무시, 비대칭 매처 사용 가능) */
+  headers?: Record<string, unknown>;
+  /** 전체 일치 (비대칭 매처 사용 가능) */
+  data?: unknown;
+  status?: number;
+  /** 1부터 시작하는 요청 순번 */
+  nth?: number;
+  /** 조건에 맞는 요청 수 (지정 시 정확히 일치) */
+  times?: number;
+}
+
+interface CustomMatchers<R = unknown> {
+  toHaveSentRequest: (expected: RequestExpectation) => R;
+}
+
+declare module "vitest" {
+  interface Matchers<T = any> extends CustomMatchers<T> {}
+}
+
+type Equals = (a: unknown, b: unknown) => boolean;
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Utils
+ * ────────────────────────────────────────────────────────────────────────── */
+const headersMatch = (
+  actual: Record<string, unknown>,
+  expected: Record<string, unknown>,
+  equals: Equals
+) => {
+  const lower = Object.fromEntries(
+    Object.entries(actual).map(([k, v]) => [k.toLowerCase(), v])
+  );
+  return Object.entries(expected).every(([k, v]) =>
+    equals(lower[k.toLowerCase()], v)
+  );
+};
+
+const requestMatches = (
+  req: RecordedRequest,
+  exp: RequestExpectation,
+  equals: Equals
+) =>
+  (exp.route === undefined || req.route === exp.route) &&
+  (exp.method === undefined || req.method === exp.method.toUpperCase()) &&
+  (exp.url === undefined ||
+    (exp.url instanceof RegExp
+      ? exp.url.test(req.url)
+      : req.url === exp.url)) &&
+  (exp.headers === undefined ||
+    headersMatch(req.headers, exp.headers, equals)) &&
+  (!("data" in exp) || equals(req.data, exp.data)) &&
+  (exp.status === undefined || req.status === exp.status);
+
+const summarize = (req: RecordedRequest, i: number) =>
+  `  #${i + 1} ${req.method} ${req.url}` +
+  (req.status !== undefined ? ` → ${req.status}` : "") +
+  (req.errorCode ? ` (${req.errorCode})` : "") +
+  (req.durationMs !== undefined ? ` ${req.durationMs}ms` : "");
+
+/* ─────────────────────────────────────────────────────────
+ * Matchers
+ * ───────────────────────────────────────────────────────── */
+export const recorderMatchers = {
+  toHaveSentRequest(
+    this: { equals: Equals; isNot: boolean; utils: any },
+    received: RequestRecorder,
+    expected: RequestExpectation
+  ) {
+    const { nth, times, ...criteria } = expected;
+    const pool =
+      nth !== undefined
+        ? received.requests.slice(nth - 1, nth)
+        : received.requests;
+    const hits = pool.filter((r) => requestMatches(r, criteria, this.equals));
+    const pass = times !== undefined ? hits.length === times : hits.length > 0;
+
+    const recorded = received.requests.length
+      ? received.requests.map(summarize).join("\n")
+      : "  (없음)";
+    const where = nth !== undefined ? `${nth}번째 요청으로 ` : "";
+    const howMany =
+      times !== undefined ? ` ${times}회(실제 ${hits.length}회)` : "";
+
+    return {
+      pass,
+      message: () =>
+        `${where}${this.utils.stringify(criteria)} 요청을${howMany} ` +
+        `${
+          this.isNot ? "보내지 않았어야" : "보냈어야"
+        } 합니다.\n기록된 요청:\n${recorded}`,
+    };
+  },
+};
+
+export const installRecorderMatchers = () => {
+  expect.extend(recorderMatchers);
+};
@@ -0,0 +1,268 @@
+import {
+  getRequestBodySchema,
+  type JsonSchema,
+  type SpecKey,
+} from "./api-spec";
+import type { ValidationKeyword } from "./spec-validator";
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Types
+ * ────────────────────────────────────────────────────────────────────────── */
+export type RequestCaseKind =
+  | "required"
+  | "null"
+  | "type"
+  | "integer"
+  | "minimum"
+  | "maximum"
+  | "emptyString"
+  | "additionalProperties";
+
+export interface RequestCase {
+  /** it.each 제목용 (예: "quantity = 0 (minimum - 1)") */
+  label: string;
+  kind: RequestCaseKind;
+  /** 바꾼 필드의 RFC 6901 JSON pointer */
+  pointer: string;
+  payload: Record<string, unknown>;
+  /**
+   * spec-validator 가 pointer 에 보고해야 하는 keyword.
+   * 없으면 스키마상 유효한 경계값 (minimum/maximum 자체, minLength 없는 빈 문자열)
+   */
+  keyword?: ValidationKeyword;
+}
+
+export interface RequestCaseOptions {
+  /** 유효한 기준 본문 (기본: requestBodySchema.example) */
+  base?: Record<string, unknown>;
+}
+
+/** additionalProperties: false 검증용 필드명 */
+const EXTRA_FIELD = "unexpectedField";
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Utils
+ * ────────────────────────────────────────────────────────────────────────── */
+const escapePointer = (s: string) => s.replace(/~/g, "~0").replace(/\//g, "~1");
+const show = (value: unknown) => JSON.stringify(value);
+
+/** 스키마 타입과 다른 값 */
+const wrongTypeOf = (schema: JsonSchema, current: unknown): unknown => {
+  switch (schema.type) {
+    case "string":
+      return 123;
+    case "integer":
+    case "number":
+      return String(current ?? 1);
+    case "boolean":
+      return String(current ?? true);
+    case "array":
+      return {};
+    case "object":
+      return "object";
+    default:
+      return undefined;
+  }
+};
+
+/** 경로의 값을 바꾼(또는 지운) 깊은 복사본 */
+const withValue = (
+  base: Record<string, unknown>,
+  path: string[],
+  value: unknown,
+  remove = false
+): Record<string, unknown> => {
+  const [head, ...rest] = path;
+  const copy = { ...base };
+  if (rest.length) {
+    copy[head] = withValue(
+      (base[head] ?? {}) as Record<string, unknown>,
+      rest,
+      value,
+      remove
+    );
+  } else if (remove) {
+    delete copy[head];
+  } else {
+    copy[head] = value;
+  }
+  return copy;
+};
+
+/** 빈 문자열이 스키마에 막히는 keyword (막히지 않으면 undefined) */
+const emptyStringKeyword = (
+  schema: JsonSchema
+): ValidationKeyword | undefined => {
+  if (schema.const !== undefined && schema.const !== "") return "const";
+  if (schema.enum && !schema.enum.includes("")) return "enum";
+  if (schema.pattern && !new RegExp(schema.pattern).test("")) return "pattern";
+  if (schema.minLength !== undefined && schema.minLength > 0) {
+    return "minLength";
+  }
+  if (schema.format === "date-time") return "format";
+  return undefined;
+};
+
+const collect = (
+  schema: JsonSchema,
+  root: Record<string, unknown>,
+  path: string[],
+  out: RequestCase[]
+) => {
+  const at = (name: string) => [...path, name];
+  const pointerOf = (segments: string[]) =>
+    segments.map((s) => `/${escapePointer(s)}`).join("");
+  const nameOf = (segments: string[]) => segments.join(".");
+  const push = (
+    kind: RequestCaseKind,
+    segments: string[],
+    label: string,
+    payload: Record<string, unknown>,
+    keyword?: ValidationKeyword
+  ) =>
+    out.push({
+      label,
+      kind,
+      pointer: pointerOf(segments),
+      payload,
+      ...(keyword && { keyword }),
+    });
+
+  const required = new Set(schema.required ?? []);
+  for (const [name, prop] of Object.entries(schema.properties ?? {})) {
+    const segments = at(name);
+    const field = nameOf(segments);
+    const current = segments.reduce<any>((v, key) => v?.[key], root);
+
+    if (required.has(name)) {
+      push(
+        "required",
+        segments,
+        `${field} 누락`,
+        withValue(root, segments, undefined, true),
+        "required"
+      );
+    }
+    push(
+      "null",
+      segments,
+      `${field} = null`,
+      withValue(root, segments, null),
+      "type"
+    );
+    const wrong = wrongTypeOf(prop, current);
+    if (wrong !== undefined) {
+      push(
+        "type",
+        segments,
+        `${field} = ${show(wrong)} (${prop.type} 아님)`,
+        withValue(root, segments, wrong),
+        "type"
+      );
+    }
+    if (prop.type === "integer") {
+      const fraction = (prop.minimum ?? 0) + 0.5;
+      push(
+        "integer",
+        segments,
+        `${field} = ${fraction} (정수 아님)`,
+        withValue(root, segments, fraction),
+        "type"
+      );
+    }
+    if (prop.minimum !== undefined) {
+      push(
+        "minimum",
+        segments,
+        `${field} = ${prop.minimum - 1} (minimum - 1)`,
+        withValue(root, segments, prop.minimum - 1),
+        "minimum"
+      );
+      push(
+        "minimum",
+        segments,
+        `${field} = ${prop.minimum} (minimum)`,
+        withValue(root, segments, prop.minimum)
+      );
+    }
+    if (prop.maximum !== undefined) {
+      push(
+        "maximum",
+        segments,
+        `${field} = ${prop.maximum + 1} (maximum + 1)`,
+        withValue(root, segments, prop.maximum + 1),
+        "maximum"
+      );
+      push(
+        "maximum",
+        segments,
+        `${field} = ${prop.maximum} (maximum)`,
+        withValue(root, segments, prop.maximum)
+      );
+    }
+    if (prop.type === "string") {
+      push(
+        "emptyString",
+        segments,
+        `${field} = ""`,
+        withValue(root, segments, ""),
+        emptyStringKeyword(prop)
+      );
+    }
+    if (prop.type === "object" && prop.properties) {
+      collect(prop, root, segments, out);
+    }
+  }
+
+  if (schema.additionalProperties === false) {
+    const segments = at(EXTRA_FIELD);
+    push(
+      "additionalProperties",
+      segments,
+      `허용되지 않는 필드(${nameOf(segments)}) 추가`,
+      withValue(root, segments, "x"),
+      "additionalProperties"
+    );
+  }
+};
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Public API
+ * ────────────────────────────────────────────────────────────────────────── */
+/**
+ * JSON Schema 에서 경계·음수 케이스 전체 매트릭스를 만든다.
+ * 필수값 누락, null, 타입 오류, 정수 아님, minimum-1/maximum+1(+ 경계값 자체),
+ * 빈 문자열, additionalProperties: false 의 추가 필드 (중첩 객체 포함)
+ */
+export const schemaCases = (
+  schema: JsonSchema,
+  base: Record<string, unknown>
+): RequestCase[] => {
+  const out: RequestCase[] = [];
+  collect(schema, base, [], out);
+  return out;
+};
+
+/** 스펙 requestBodySchema 기준 전체 케이스 */
+export const requestBodyCases = (
+  key: SpecKey,
+  options: RequestCaseOptions = {}
+) => {
+  const schema = getRequestBodySchema(key);
+  const base =
+    options.base ?? (schema.example as Record<string, unknown> | undefined);
+  if (!base) {
+    throw new Error(
+      `${key} requestBodySchema.example 또는 base 본문이 필요합니다.`
+    );
+  }
+  return schemaCases(schema, base);
+};
+
+/** 스키마가 막아야 하는 케이스 (PRE 차단 / 서버 400) */
+export const negativeCases = (key: SpecKey, options?: RequestCaseOptions) =>
+  requestBodyCases(key, options).filter((c) => c.keyword);
+
+/** 스키마상 유효한 경계값 (통과해야 함) */
+export const boundaryCases = (key: SpecKey, options?: RequestCaseOptions) =>
+  requestBodyCases(key, options).filter((c) => !c.keyword);
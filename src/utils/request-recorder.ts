@@ -0,0 +1,168 @@
+import type { AxiosInstance, AxiosResponse } from "axios";
+
+import { getSpec, specKeys, type SpecKey } from "./api-spec";
+import { recordSpecHit } from "./spec-coverage";
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Types
+ * ────────────────────────────────────────────────────────────────────────── */
+export interface RecordedRequest {
+  method: string;
+  url: string;
+  /** method + pathname 으로 찾은 스펙 ID (스펙에 없는 경로면 undefined) */
+  route?: SpecKey;
+  data?: unknown;
+  headers: Record<string, unknown>;
+  startedAt: number;
+  durationMs?: number;
+  status?: number;
+  /** 응답 본문의 errorCode (본문이 없으면 axios 에러 코드. 예: ECONNABORTED) */
+  errorCode?: string;
+}
+
+/** 스펙 ID, 경로(후방 일치) 또는 정규식 */
+export type RouteMatcher = SpecKey | string | RegExp;
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Utils
+ * ────────────────────────────────────────────────────────────────────────── */
+const pathOf = (url: string) =>
+  /^[a-z][a-z\d+.-]*:\/\//i.test(url)
+    ? new URL(url).pathname
+    : url.split(/[?#]/)[0];
+
+/** baseURL 에 경로 접두사(게이트웨이 등)가 붙어도 찾도록 restfulUrl 후방 일치 */
+export const resolveRoute = (method: string, url: string) => {
+  const path = pathOf(url);
+  return specKeys.find((key) => {
+    const spec = getSpec(key);
+    return (
+      spec.restfulMethod === method.toUpperCase() &&
+      path.endsWith(spec.restfulUrl)
+    );
+  });
+};
+
+export const matchesRoute = (
+  route: RouteMatcher,
+  method: string,
+  url: string
+) => {
+  if (route instanceof RegExp) return route.test(pathOf(url));
+  if ((specKeys as string[]).includes(route)) {
+    return resolveRoute(method, url) === route;
+  }
+  return pathOf(url).endsWith(route);
+};
+
+const formatData = (data: unknown) => {
+  if (typeof data !== "string") return data;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+};
+
+const errorCodeOf = (err: any): string | undefined =>
+  err?.response?.data?.errorCode ?? err?.code;
+
+const plainHeaders = (headers: any): Record<string, unknown> =>
+  typeof headers?.toJSON === "function"
+    ? headers.toJSON()
+    : { ...(headers ?? {}) };
+
+/* ─────────────────────────────────────────────────────────
+ * RequestRecorder
+ *  - 모킹/로컬 서버/실서버 여부와 무관하게 "보낸 요청"만 기록
+ *  - 호출 수는 recorder.count, 요청 형태는 toHaveSentRequest 로 검증
+ * ───────────────────────────────────────────────────────── */
+export class RequestRecorder {
+  readonly requests: RecordedRequest[] = [];
+
+  constructor(private readonly now: () => number = () => Date.now()) {}
+
+  get count() {
+    return this.requests.length;
+  }
+
+  start(
+    method: string,
+    url: string,
+    data: unknown,
+    headers: Record<string, unknown>
+  ) {
+    const req: RecordedRequest = {
+      method: method.toUpperCase(),
+      url,
+      route: resolveRoute(method, url),
+      ...(data !== undefined ? { data: formatData(data) } : {}),
+      headers,
+      startedAt: this.now(),
+    };
+    this.requests.push(req);
+    return req;
+  }
+
+  finish(req: RecordedRequest, result: { status?: number; code?: string }) {
+    req.durationMs = this.now() - req.startedAt;
+    if (result.status !== undefined) req.status = result.status;
+    if (result.code) req.errorCode = result.code;
+    if (req.route && result.status !== undefined) {
+      recordSpecHit({
+        route: req.route,
+        status: result.status,
+        ...(result.code ? { errorCode: result.code } : {}),
+      });
+    }
+  }
+
+  clear() {
+    this.requests.length = 0;
+  }
+}
+
+/* ─────────────────────────────────────────────────────────
+ * Public API
+ * ───────────────────────────────────────────────────────── */
+const RECORD_KEY = "__recorded";
+
+/**
+ * 인터셉터로 최종 헤더/본문/소요 시간을 기록한다 (MockAdapter/실제 http 공통).
+ * 요청 인터셉터는 등록 역순으로 실행되므로 setupAuthHeader 보다 먼저 설치해야
+ * 인증 헤더가 주입된 뒤의 헤더가 기록된다.
+ */
+export const setupRequestRecorder = (
+  axiosInstance: AxiosInstance,
+  recorder = new RequestRecorder()
+) => {
+  axiosInstance.interceptors.request.use((cfg) => {
+    const url = axiosInstance.getUri({ url: cfg.url, baseURL: cfg.baseURL });
+    const req = recorder.start(
+      cfg.method ?? "get",
+      url,
+      cfg.data,
+      plainHeaders(cfg.headers)
+    );
+    (cfg as any)[RECORD_KEY] = req;
+    return cfg;
+  });
+  axiosInstance.interceptors.response.use(
+    (res: AxiosResponse) => {
+      const req = (res.config as any)?.[RECORD_KEY];
+      if (req) recorder.finish(req, { status: res.status });
+      return res;
+    },
+    (err) => {
+      const req = (err?.config as any)?.[RECORD_KEY];
+      if (req) {
+        recorder.finish(req, {
+          status: err?.response?.status,
+          code: errorCodeOf(err),
+        });
+      }
+      return Promise.reject(err);
+    }
+  );
+  return recorder;
+};
@@ -0,0 +1,149 @@
+import type { AxiosInstance } from "axios";
+
+import type { SpecKey } from "./api-spec";
+import type { Clock } from "./clock";
+import { idempotencyKeyOf } from "./idempotency";
+import { HttpLogger } from "./logger";
+import { resolveRoute } from "./request-recorder";
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Types
+ * ────────────────────────────────────────────────────────────────────────── */
+export interface RetryPolicy {
+  /** 최초 요청 이후 재시도 횟수 (총 시도 = retries + 1) */
+  retries: number;
+  baseDelayMs: number;
+  /** 백오프 상한. Retry-After 가 이보다 길면 앞당겨 재시도하지 않고 실패 */
+  maxDelayMs: number;
+  statuses: number[];
+  /** 응답 없는 네트워크 오류 코드 */
+  codes: string[];
+}
+
+export interface RetryOptions {
+  /** 모든 스펙에 적용할 기본값 (DEFAULT_RETRY_POLICY 위에 덮어씀) */
+  policy?: Partial<RetryPolicy>;
+  /** 스펙 ID 별 덮어쓰기. false 면 해당 스펙은 재시도하지 않음 */
+  specs?: Partial<Record<SpecKey, Partial<RetryPolicy> | false>>;
+  logger?: HttpLogger;
+  sleep?: (ms: number) => Promise<void>;
+  /** 지터 난수 (0 이상 1 미만) */
+  random?: () => number;
+  /** Retry-After HTTP-date 기준 시각 */
+  now?: Clock;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 2,
+  baseDelayMs: 200,
+  maxDelayMs: 10_000,
+  statuses: [429, 503],
+  codes: ["ECONNABORTED", "ECONNRESET", "ETIMEDOUT", "ENETUNREACH"],
+};
+
+/** 요청 config 에 남기는 시도 횟수 (1부터) */
+const RETRY_STATE = "__retryState";
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Delay
+ * ────────────────────────────────────────────────────────────────────────── */
+/** Retry-After → ms. 초(정수) 또는 HTTP-date, 해석 불가면 undefined */
+export const parseRetryAfter = (
+  value: unknown,
+  now: Clock = () => new Date()
+) => {
+  if (value === undefined || value === null) return undefined;
+  const text = String(value).trim();
+  if (/^\d+$/.test(text)) return Number(text) * 1000;
+  const at = Date.parse(text);
+  if (Number.isNaN(at)) return undefined;
+  return Math.max(0, at - now().getTime());
+};
+
+/** 상한이 있는 지수 백오프 + equal jitter: [d/2, d) (d = base·2^(n-1)) */
+export const backoffDelay = (
+  attempt: number,
+  { baseDelayMs, maxDelayMs }: Pick<RetryPolicy, "baseDelayMs" | "maxDelayMs">,
+  random: () => number = Math.random
+) => {
+  const capped = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+  return Math.floor(capped / 2 + (random() * capped) / 2);
+};
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Utils
+ * ────────────────────────────────────────────────────────────────────────── */
+const sleepDefault = (ms: number) =>
+  new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+const headerOf = (headers: any, name: string) =>
+  typeof headers?.get === "function"
+    ? headers.get(name)
+    : Object.entries(headers ?? {}).find(
+        ([key]) => key.toLowerCase() === name
+      )?.[1];
+
+const policyOf = (cfg: any, options: RetryOptions) => {
+  const specKey = resolveRoute(cfg.method ?? "get", cfg.url ?? "");
+  const override = specKey ? options.specs?.[specKey] : undefined;
+  if (override === false) return undefined;
+  return { ...DEFAULT_RETRY_POLICY, ...options.policy, ...override };
+};
+
+/** POST/PATCH 는 멱등성 키가 있을 때만 다시 보냄 */
+const isReplayable = (cfg: any) =>
+  !["post", "patch"].includes(String(cfg.method ?? "get").toLowerCase()) ||
+  idempotencyKeyOf(cfg.headers) !== undefined;
+
+const reasonOf = (err: any, policy: RetryPolicy) => {
+  const status = err?.response?.status;
+  if (status !== undefined) {
+    return policy.statuses.includes(status) ? `HTTP ${status}` : undefined;
+  }
+  return policy.codes.includes(err?.code) ? err.code : undefined;
+};
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Public API
+ * ────────────────────────────────────────────────────────────────────────── */
+export const setupRetry = (
+  axiosInstance: AxiosInstance,
+  options: RetryOptions = {}
+) => {
+  const {
+    logger = new HttpLogger(),
+    sleep = sleepDefault,
+    random = Math.random,
+    now = () => new Date(),
+  } = options;
+
+  axiosInstance.interceptors.response.use(undefined, async (err) => {
+    const cfg = err?.config;
+    if (!cfg) throw err;
+    const policy = policyOf(cfg, options);
+    const reason = policy && reasonOf(err, policy);
+    if (!policy || !reason || !isReplayable(cfg)) throw err;
+
+    const attempt: number = cfg[RETRY_STATE] ?? 1;
+    if (attempt > policy.retries) throw err;
+
+    const retryAfter = parseRetryAfter(
+      headerOf(err.response?.headers, "retry-after"),
+      now
+    );
+    // 서버가 요구한 대기 시간을 줄여 다시 보내면 또 거절되므로 그대로 실패시킨다
+    if (retryAfter !== undefined && retryAfter > policy.maxDelayMs) throw err;
+    const delayMs = retryAfter ?? backoffDelay(attempt, policy, random);
+    cfg[RETRY_STATE] = attempt + 1;
+    logger.logRetry({
+      method: cfg.method,
+      url: cfg.url,
+      attempt: attempt + 1,
+      maxAttempts: policy.retries + 1,
+      delayMs,
+      reason,
+    });
+    await sleep(delayMs);
+    return axiosInstance.request(cfg);
+  });
+};
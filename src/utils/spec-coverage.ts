@@ -0,0 +1,137 @@
+import { getSpec, specKeys, type SpecKey } from "./api-spec";
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Types
+ * ────────────────────────────────────────────────────────────────────────── */
+export interface SpecHit {
+  route: SpecKey;
+  status: number;
+  errorCode?: string;
+}
+
+export interface CoveredTest {
+  file: string;
+  name: string;
+  hits: SpecHit[];
+}
+
+export interface CoverageRow extends SpecHit {
+  /** errorCodes(또는 200 성공)에 선언된 조합인지 */
+  declared: boolean;
+  tests: string[];
+}
+
+export interface SpecCoverageReport {
+  rows: CoverageRow[];
+  /** 테스트가 하나도 닿지 않은 선언 errorCode */
+  uncovered: SpecHit[];
+}
+
+declare module "@vitest/runner" {
+  interface TaskMeta {
+    specCoverage?: SpecHit[];
+  }
+}
+
+/* ─────────────────────────────────────────────────────────
+ * Collect (worker)
+ *  - RequestRecorder 가 응답을 받을 때마다 현재 테스트의 hit 로 적재
+ *  - afterEach 에서 task.meta 로 옮겨 리포터(메인 프로세스)로 전달
+ * ───────────────────────────────────────────────────────── */
+const currentHits: SpecHit[] = [];
+
+export const recordSpecHit = (hit: SpecHit) => {
+  currentHits.push(hit);
+};
+
+export const installSpecCoverage = () => {
+  const beforeEach = (globalThis as any)?.beforeEach;
+  const afterEach = (globalThis as any)?.afterEach;
+  if (!beforeEach || !afterEach) return;
+
+  beforeEach(() => {
+    currentHits.length = 0;
+  });
+
+  afterEach((ctx: any) => {
+    if (currentHits.length) ctx.task.meta.specCoverage = [...currentHits];
+  });
+};
+
+/* ─────────────────────────────────────────────────────────
+ * Report
+ * ───────────────────────────────────────────────────────── */
+const rowId = ({ route, status, errorCode }: SpecHit) =>
+  `${route} ${status} ${errorCode ?? ""}`;
+
+export const buildCoverageReport = (
+  tests: CoveredTest[]
+): SpecCoverageReport => {
+  const rows = new Map<string, CoverageRow>();
+
+  for (const route of specKeys) {
+    const declared: SpecHit[] = [
+      { route, status: 200 },
+      ...getSpec(route).errorCodes.map((e) => ({
+        route,
+        status: e.HttpStatus,
+        errorCode: e.ErrorCode,
+      })),
+    ];
+    for (const hit of declared) {
+      rows.set(rowId(hit), { ...hit, declared: true, tests: [] });
+    }
+  }
+
+  for (const test of tests) {
+    const label = `${test.file} > ${test.name}`;
+    for (const hit of test.hits) {
+      const id = rowId(hit);
+      const row = rows.get(id) ?? { ...hit, declared: false, tests: [] };
+      if (!row.tests.includes(label)) row.tests.push(label);
+      rows.set(id, row);
+    }
+  }
+
+  const all = [...rows.values()];
+  return {
+    rows: all,
+    uncovered: all
+      .filter((r) => r.declared && r.errorCode && !r.tests.length)
+      .map(({ route, status, errorCode }) => ({ route, status, errorCode })),
+  };
+};
+
+const cell = (s: string) => s.replace(/\|/g, "\\|");
+
+export const renderCoverageMarkdown = (report: SpecCoverageReport) => {
+  const lines = ["# Spec Coverage", ""];
+
+  for (const route of specKeys) {
+    lines.push(
+      `## ${route}`,
+      "",
+      "| HTTP | ErrorCode | 선언 | 테스트 수 | 테스트 |",
+      "| ---- | --------- | ---- | --------- | ------ |"
+    );
+    for (const row of report.rows.filter((r) => r.route === route)) {
+      const mark = row.declared ? (row.tests.length ? "✅" : "❌") : "⚠️";
+      lines.push(
+        `| ${row.status} | ${row.errorCode ?? "-"} | ${mark} | ${
+          row.tests.length
+        } | ${row.tests.map(cell).join("<br>")} |`
+      );
+    }
+    lines.push("");
+  }
+
+  if (report.uncovered.length) {
+    lines.push(
+      "## 미커버 ErrorCode",
+      "",
+      ...report.uncovered.map((u) => `- ${u.route} ${u.status} ${u.errorCode}`),
+      ""
+    );
+  }
+  return lines.join("\n");
+};
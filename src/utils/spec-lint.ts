@@ -0,0 +1,315 @@
+import { ERROR_RESPONSE_SCHEMA, type JsonSchema } from "./api-spec";
+import { compileJsonSchema } from "./spec-schema";
+import { validateSchema } from "./spec-validator";
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Types
+ * ────────────────────────────────────────────────────────────────────────── */
+export type SpecLintRule =
+  | "meta-schema"
+  | "key"
+  | "headers"
+  | "example"
+  | "envelope"
+  | "error-code-duplicate"
+  | "error-code-status";
+
+export interface SpecLintViolation {
+  /** api-spec.json 최상위 키 */
+  key: string;
+  /** 항목 안의 RFC 6901 JSON pointer */
+  pointer: string;
+  rule: SpecLintRule;
+  message: string;
+}
+
+type Entry = Record<string, any>;
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Rules
+ *  - meta-schema: 항목 구조(아래 메타 스키마) + 스키마 키워드가 spec-schema 부분집합인지
+ *  - key: 키 === `${restfulMethod}_${restfulUrl}`
+ *  - headers: requestHeaders.order 와 byName 이 같은 이름 집합인지
+ *  - example: requestBodySchema.example / responseBodySchema.examples.* 가 스키마를 통과하는지
+ *    (status ERROR 예시는 2xx 스키마 대신 표준 에러 봉투로), ERROR 예시의 errorCode 가 errorCodes 에 선언됐는지
+ *  - envelope: 응답 봉투 최상위 필드의 필수 여부가 엔드포인트마다 같은지
+ *  - error-code-duplicate: 한 엔드포인트에 같은 ErrorCode 가 두 번
+ *  - error-code-status: 같은 ErrorCode 가 엔드포인트마다 다른 상태, 또는 에러 모델과 다른 상태
+ * ────────────────────────────────────────────────────────────────────────── */
+const HTTP_METHODS = ["GET", "POST", "PUT", "PATCH", "DELETE"];
+
+const SCHEMA_OBJECT: JsonSchema = { type: "object" };
+
+/** api-spec.json 항목 메타 스키마 (spec-validator 로 검사하는 부분집합) */
+export const SPEC_ENTRY_SCHEMA: JsonSchema = {
+  type: "object",
+  additionalProperties: false,
+  required: [
+    "description",
+    "restfulMethod",
+    "restfulUrl",
+    "requestHeaders",
+    "responseBodySchema",
+    "errorCodes",
+  ],
+  properties: {
+    description: { type: "string" },
+    restfulMethod: { type: "string", enum: HTTP_METHODS },
+    restfulUrl: { type: "string", pattern: "^/" },
+    auth: { type: "string" },
+    requestHeaders: {
+      type: "object",
+      additionalProperties: false,
+      required: ["order", "byName"],
+      properties: {
+        order: { type: "array", items: { type: "string" } },
+        byName: SCHEMA_OBJECT,
+      },
+    },
+    requestBodySchema: SCHEMA_OBJECT,
+    responseBodySchema: SCHEMA_OBJECT,
+    errorCodes: {
+      type: "array",
+      items: {
+        type: "object",
+        additionalProperties: false,
+        required: ["ErrorCode", "HttpStatus", "Description"],
+        properties: {
+          ErrorCode: { type: "string", pattern: "^[A-Z][A-Z0-9_]*$" },
+          HttpStatus: { type: "integer", minimum: 400, maximum: 599 },
+          Description: { type: "string" },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * 문서화된 에러 모델 (docs/Test_Architecture_Overview.md 3장).
+ * 목록에 없는 코드는 이름 규칙으로 판단 (…_NOT_FOUND=404, …_CONFLICT·DUPLICATE_…=409, …_EXPIRED=422)
+ */
+export const ERROR_MODEL: Record<string, number> = {
+  INVALID_REQUEST: 400,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  MENU_NOT_FOUND: 404,
+  INVALID_RESERVATION: 404,
+  INSUFFICIENT_INGREDIENTS: 409,
+  IDEMP_CONFLICT: 409,
+  DUPLICATE_ORDER: 409,
+  RESERVATION_EXPIRED: 422,
+  RATE_LIMIT_EXCEEDED: 429,
+};
+
+const expectedStatus = (code: string) => {
+  if (ERROR_MODEL[code] !== undefined) return ERROR_MODEL[code];
+  if (code.endsWith("_NOT_FOUND")) return 404;
+  if (code.endsWith("_CONFLICT") || code.startsWith("DUPLICATE_")) return 409;
+  if (code.endsWith("_EXPIRED")) return 422;
+  return undefined;
+};
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Utils
+ * ────────────────────────────────────────────────────────────────────────── */
+const isObject = (v: unknown): v is Entry =>
+  !!v && typeof v === "object" && !Array.isArray(v);
+
+const escapePointer = (s: string) => s.replace(/~/g, "~0").replace(/\//g, "~1");
+
+/** 컴파일 가능한 스키마인지 (모르는 키워드·format 은 spec-schema 가 throw) */
+const compileError = (schema: unknown, at: string) => {
+  try {
+    compileJsonSchema(schema as JsonSchema, at);
+    return undefined;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+};
+
+const lintEntry = (key: string, entry: Entry, out: SpecLintViolation[]) => {
+  const report = (pointer: string, rule: SpecLintRule, message: string) =>
+    out.push({ key, pointer, rule, message });
+
+  for (const v of validateSchema(entry, SPEC_ENTRY_SCHEMA)) {
+    report(v.pointer, "meta-schema", v.message);
+  }
+  if (!isObject(entry)) return;
+
+  for (const name of ["requestBodySchema", "responseBodySchema"]) {
+    if (!isObject(entry[name])) continue;
+    const error = compileError(entry[name], `#/${name}`);
+    if (error) report(`/${name}`, "meta-schema", error);
+  }
+
+  const expectedKey = `${entry.restfulMethod}_${entry.restfulUrl}`;
+  if (key !== expectedKey) {
+    report(
+      "",
+      "key",
+      `키는 restfulMethod_restfulUrl(${expectedKey})이어야 합니다`
+    );
+  }
+
+  const { order, byName } = entry.requestHeaders ?? {};
+  if (Array.isArray(order) && isObject(byName)) {
+    for (const name of order.filter((n: string) => !(n in byName))) {
+      report(
+        "/requestHeaders/order",
+        "headers",
+        `order 의 ${name} 가 byName 에 없습니다`
+      );
+    }
+    for (const name of Object.keys(byName).filter((n) => !order.includes(n))) {
+      report(
+        `/requestHeaders/byName/${escapePointer(name)}`,
+        "headers",
+        `byName 의 ${name} 가 order 에 없습니다`
+      );
+    }
+  }
+
+  const request = entry.requestBodySchema;
+  if (isObject(request)) {
+    if (request.example === undefined) {
+      report(
+        "/requestBodySchema",
+        "example",
+        "requestBodySchema.example 이 없습니다"
+      );
+    } else {
+      for (const v of validateSchema(request.example, request)) {
+        report(`/requestBodySchema/example${v.pointer}`, "example", v.message);
+      }
+    }
+  }
+
+  const response = entry.responseBodySchema;
+  const declared = new Set(
+    (Array.isArray(entry.errorCodes) ? entry.errorCodes : []).map(
+      (e: Entry) => e?.ErrorCode
+    )
+  );
+  if (isObject(response)) {
+    const examples: Entry = isObject(response.examples)
+      ? response.examples
+      : {};
+    if (examples.success === undefined) {
+      report(
+        "/responseBodySchema/examples",
+        "example",
+        "responseBodySchema.examples.success 가 없습니다"
+      );
+    }
+    for (const [name, example] of Object.entries(examples)) {
+      const at = `/responseBodySchema/examples/${escapePointer(name)}`;
+      const isError = example?.status === "ERROR";
+      const schema = isError ? ERROR_RESPONSE_SCHEMA : response;
+      for (const v of validateSchema(example, schema)) {
+        report(`${at}${v.pointer}`, "example", v.message);
+      }
+      if (
+        isError &&
+        typeof example.errorCode === "string" &&
+        !declared.has(example.errorCode)
+      ) {
+        report(
+          `${at}/errorCode`,
+          "example",
+          `errorCode ${example.errorCode} 가 errorCodes 에 선언되지 않았습니다`
+        );
+      }
+    }
+  }
+
+  const seen = new Map<string, number>();
+  (Array.isArray(entry.errorCodes) ? entry.errorCodes : []).forEach(
+    (e: Entry, i: number) => {
+      if (!isObject(e) || typeof e.ErrorCode !== "string") return;
+      const at = `/errorCodes/${i}`;
+      if (seen.has(e.ErrorCode)) {
+        report(
+          at,
+          "error-code-duplicate",
+          `ErrorCode ${
+            e.ErrorCode
+          } 가 중복 선언되었습니다 (errorCodes/${seen.get(e.ErrorCode)})`
+        );
+      } else {
+        seen.set(e.ErrorCode, i);
+      }
+      const expected = expectedStatus(e.ErrorCode);
+      if (expected !== undefined && e.HttpStatus !== expected) {
+        report(
+          `${at}/HttpStatus`,
+          "error-code-status",
+          `${e.ErrorCode} 는 에러 모델상 ${expected} 이어야 합니다 (현재 ${e.HttpStatus})`
+        );
+      }
+    }
+  );
+};
+
+/** 엔드포인트 간 규칙: 봉투 필수 여부, 같은 ErrorCode 의 상태 */
+const lintAcross = (spec: Entry, out: SpecLintViolation[]) => {
+  const entries = Object.entries(spec).filter(([, entry]) => isObject(entry));
+
+  const requiredness = new Map<string, { key: string; required: boolean }>();
+  for (const [key, entry] of entries) {
+    const response = entry.responseBodySchema;
+    if (!isObject(response) || !isObject(response.properties)) continue;
+    const required = new Set(response.required ?? []);
+    for (const field of Object.keys(response.properties)) {
+      const first = requiredness.get(field);
+      if (!first) {
+        requiredness.set(field, { key, required: required.has(field) });
+      } else if (first.required !== required.has(field)) {
+        out.push({
+          key,
+          pointer: "/responseBodySchema/required",
+          rule: "envelope",
+          message: `응답 봉투의 ${field} 가 ${first.key} 에서는 ${
+            first.required ? "필수" : "선택"
+          }인데 여기서는 ${required.has(field) ? "필수" : "선택"}입니다`,
+        });
+      }
+    }
+  }
+
+  const statuses = new Map<string, { key: string; status: number }>();
+  for (const [key, entry] of entries) {
+    if (!Array.isArray(entry.errorCodes)) continue;
+    entry.errorCodes.forEach((e: Entry, i: number) => {
+      if (!isObject(e) || typeof e.ErrorCode !== "string") return;
+      const first = statuses.get(e.ErrorCode);
+      if (!first) {
+        statuses.set(e.ErrorCode, { key, status: e.HttpStatus });
+      } else if (first.key !== key && first.status !== e.HttpStatus) {
+        out.push({
+          key,
+          pointer: `/errorCodes/${i}/HttpStatus`,
+          rule: "error-code-status",
+          message: `${e.ErrorCode} 가 ${first.key} 에서는 ${first.status} 인데 여기서는 ${e.HttpStatus} 입니다`,
+        });
+      }
+    });
+  }
+};
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Public API
+ * ────────────────────────────────────────────────────────────────────────── */
+/** api-spec.json 전체의 내부 일관성 위반 목록 (빈 배열 = 통과) */
+export const lintSpec = (
+  spec: Record<string, unknown>
+): SpecLintViolation[] => {
+  const out: SpecLintViolation[] = [];
+  for (const [key, entry] of Object.entries(spec)) {
+    lintEntry(key, entry as Entry, out);
+  }
+  lintAcross(spec, out);
+  return out;
+};
+
+export const formatSpecViolation = (v: SpecLintViolation) =>
+  `${v.key}#${v.pointer} [${v.rule}] ${v.message}`;
@@ -0,0 +1,225 @@
+import { z } from "zod";
+
+import {
+  getRequestBodySchema,
+  getResponseBodySchema,
+  type JsonSchema,
+  type SpecDocument,
+  type SpecKey,
+} from "./api-spec";
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Keyword guard
+ *  - 스펙에 모르는 키워드가 생기면 조용히 무시하지 않고 컴파일 단계에서 실패
+ * ────────────────────────────────────────────────────────────────────────── */
+const ANNOTATION_KEYWORDS = ["description", "example", "examples"];
+const VALIDATION_KEYWORDS = [
+  "type",
+  "properties",
+  "required",
+  "additionalProperties",
+  "items",
+  "enum",
+  "const",
+  "pattern",
+  "minLength",
+  "format",
+  "minimum",
+  "maximum",
+];
+const SUPPORTED_FORMATS = ["date-time"];
+
+const assertSupported = (schema: JsonSchema, at: string) => {
+  for (const key of Object.keys(schema)) {
+    if (ANNOTATION_KEYWORDS.includes(key) || VALIDATION_KEYWORDS.includes(key))
+      continue;
+    throw new Error(`지원하지 않는 JSON Schema 키워드입니다: ${at}/${key}`);
+  }
+  if (schema.format && !SUPPORTED_FORMATS.includes(schema.format)) {
+    throw new Error(`지원하지 않는 format입니다: ${at} (${schema.format})`);
+  }
+};
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Compiler
+ * ────────────────────────────────────────────────────────────────────────── */
+const compileString = (schema: JsonSchema) => {
+  let s =
+    schema.format === "date-time"
+      ? z.iso.datetime({ offset: true })
+      : z.string();
+  if (schema.pattern) s = s.regex(new RegExp(schema.pattern));
+  if (schema.minLength !== undefined) s = s.min(schema.minLength);
+  return s;
+};
+
+const compileNumber = (schema: JsonSchema) => {
+  let n = schema.type === "integer" ? z.number().int() : z.number();
+  if (schema.minimum !== undefined) n = n.min(schema.minimum);
+  if (schema.maximum !== undefined) n = n.max(schema.maximum);
+  return n;
+};
+
+const compileObject = (schema: JsonSchema, at: string) => {
+  const required = new Set(schema.required ?? []);
+  const shape: Record<string, z.ZodType> = {};
+  for (const [name, prop] of Object.entries(schema.properties ?? {})) {
+    const compiled = compileJsonSchema(prop, `${at}/properties/${name}`);
+    shape[name] = required.has(name) ? compiled : compiled.optional();
+  }
+  for (const name of required) {
+    if (!(name in shape)) {
+      throw new Error(
+        `required에 선언된 ${name}의 properties 정의가 없습니다: ${at}`
+      );
+    }
+  }
+  return schema.additionalProperties === false
+    ? z.strictObject(shape)
+    : z.looseObject(shape);
+};
+
+const compileByType = (schema: JsonSchema, at: string): z.ZodType => {
+  switch (schema.type) {
+    case "object":
+      return compileObject(schema, at);
+    case "array":
+      return z.array(
+        schema.items
+          ? compileJsonSchema(schema.items, `${at}/items`)
+          : z.unknown()
+      );
+    case "string":
+      return compileString(schema);
+    case "integer":
+    case "number":
+      return compileNumber(schema);
+    case "boolean":
+      return z.boolean();
+    case undefined:
+      return z.unknown();
+    default:
+      throw new Error(`지원하지 않는 type입니다: ${at} (${schema.type})`);
+  }
+};
+
+/**
+ * api-spec.json 의 JSON Schema 부분집합을 zod 스키마로 변환한다.
+ * `at` 은 오류 메시지에 쓰이는 JSON pointer(기본 `#`).
+ */
+export const compileJsonSchema = (schema: JsonSchema, at = "#"): z.ZodType => {
+  assertSupported(schema, at);
+
+  const base = compileByType(schema, at);
+  if (schema.const !== undefined) {
+    return base.pipe(z.literal(schema.const as z.util.Literal));
+  }
+  if (schema.enum) {
+    return base.pipe(z.literal(schema.enum as z.util.Literal[]));
+  }
+  return base;
+};
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Public API
+ * ────────────────────────────────────────────────────────────────────────── */
+const cache = new Map<SpecKey, { request: z.ZodType; response: z.ZodType }>();
+
+/** 스펙 엔트리의 requestBodySchema/responseBodySchema 로 zod 검증기를 만든다. */
+export const buildSpecSchemas = (key: SpecKey) => {
+  const hit = cache.get(key);
+  if (hit) return hit;
+
+  const built = {
+    request: compileJsonSchema(
+      getRequestBodySchema(key),
+      `${key}#/requestBodySchema`
+    ),
+    response: compileJsonSchema(
+      getResponseBodySchema(key),
+      `${key}#/responseBodySchema`
+    ),
+  };
+  cache.set(key, built);
+  return built;
+};
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Type generation
+ *  - compileJsonSchema 와 같은 규칙으로 TypeScript 타입 선언을 만든다 (z.infer 와 동일한 모양)
+ *  - JSON import 타입은 "object" 같은 리터럴·required 를 잃어버려 스키마에서 직접 추론할 수 없다
+ * ────────────────────────────────────────────────────────────────────────── */
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+const propertyName = (name: string) =>
+  IDENTIFIER.test(name) ? name : JSON.stringify(name);
+
+const indent = (depth: number) => "  ".repeat(depth);
+
+const docComment = (schema: JsonSchema, depth: number) =>
+  schema.description
+    ? `${indent(depth)}/** ${schema.description.replace(/\*\//g, "*\\/")} */\n`
+    : "";
+
+const renderObjectType = (schema: JsonSchema, depth: number) => {
+  const required = new Set(schema.required ?? []);
+  const members = Object.entries(schema.properties ?? {}).map(
+    ([name, prop]) =>
+      `${docComment(prop, depth + 1)}${indent(depth + 1)}${propertyName(name)}${
+        required.has(name) ? "" : "?"
+      }: ${renderSchemaType(prop, depth + 1)};`
+  );
+  if (schema.additionalProperties !== false) {
+    members.push(`${indent(depth + 1)}[key: string]: unknown;`);
+  }
+  return members.length ? `{\n${members.join("\n")}\n${indent(depth)}}` : "{}";
+};
+
+const renderByType = (schema: JsonSchema, depth: number): string => {
+  switch (schema.type) {
+    case "object":
+      return renderObjectType(schema, depth);
+    case "array":
+      return `Array<${
+        schema.items ? renderSchemaType(schema.items, depth) : "unknown"
+      }>`;
+    case "integer":
+      return "number";
+    case "string":
+    case "number":
+    case "boolean":
+      return schema.type;
+    default:
+      return "unknown";
+  }
+};
+
+/** JSON Schema 부분집합 → TypeScript 타입 표현식 (const/enum 은 리터럴 유니온) */
+export const renderSchemaType = (schema: JsonSchema, depth = 0): string => {
+  if (schema.const !== undefined) return JSON.stringify(schema.const);
+  if (schema.enum) return schema.enum.map((v) => JSON.stringify(v)).join(" | ");
+  return renderByType(schema, depth);
+};
+
+/** 스펙 ID 별 request/response 본문 타입 선언 파일 (src/data/api-spec.types.d.ts) */
+export const renderSpecTypes = (spec: SpecDocument) => {
+  const entries = Object.entries(spec).map(([key, entry]) => {
+    const request = entry.requestBodySchema
+      ? renderSchemaType(entry.requestBodySchema, 2)
+      : "undefined";
+    return [
+      `  ${JSON.stringify(key)}: {`,
+      `    request: ${request};`,
+      `    response: ${renderSchemaType(entry.responseBodySchema, 2)};`,
+      "  };",
+    ].join("\n");
+  });
+  return [
+    "// 자동 생성 파일입니다. 직접 수정하지 말고 npm run spec:types 로 재생성하세요.",
+    "// src/data/api-spec.json 의 requestBodySchema / responseBodySchema → TypeScript",
+    "export interface SpecBodyTypes {",
+    ...entries,
+    "}",
+    "",
+  ].join("\n");
+};
@@ -0,0 +1,214 @@
+import {
+  getRequestBodySchema,
+  type JsonSchema,
+  type SpecKey,
+} from "./api-spec";
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Types
+ * ────────────────────────────────────────────────────────────────────────── */
+export type ValidationKeyword =
+  | "type"
+  | "required"
+  | "additionalProperties"
+  | "enum"
+  | "const"
+  | "pattern"
+  | "minLength"
+  | "format"
+  | "minimum"
+  | "maximum";
+export type ValidationLocale = "ko" | "en";
+
+export interface SpecViolation {
+  /** RFC 6901 JSON pointer (루트는 "") */
+  pointer: string;
+  keyword: ValidationKeyword;
+  message: string;
+}
+
+export class SpecValidationError extends Error {
+  constructor(readonly key: SpecKey, readonly violations: SpecViolation[]) {
+    super(violations.map((v) => v.message).join(", "));
+    this.name = "SpecValidationError";
+  }
+}
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Messages
+ * ────────────────────────────────────────────────────────────────────────── */
+const TYPE_LABELS: Record<ValidationLocale, Record<string, string>> = {
+  ko: {
+    object: "객체",
+    array: "배열",
+    string: "문자열",
+    integer: "정수",
+    number: "숫자",
+    boolean: "불리언",
+  },
+  en: {
+    object: "an object",
+    array: "an array",
+    string: "a string",
+    integer: "an integer",
+    number: "a number",
+    boolean: "a boolean",
+  },
+};
+
+type MessageFn = (field: string, schema: JsonSchema) => string;
+const MESSAGES: Record<
+  ValidationLocale,
+  Record<ValidationKeyword, MessageFn>
+> = {
+  ko: {
+    type: (f, s) => `${f}는 ${TYPE_LABELS.ko[s.type!]}이어야 합니다`,
+    required: (f) => `${f}는 필수값입니다`,
+    additionalProperties: (f) => `${f}는 허용되지 않는 필드입니다`,
+    enum: (f, s) => `${f}는 ${s.enum!.join(", ")} 중 하나여야 합니다`,
+    const: (f, s) => `${f}는 ${String(s.const)}이어야 합니다`,
+    pattern: (f, s) => `${f}는 ${s.pattern} 형식이어야 합니다`,
+    minLength: (f, s) => `${f}는 ${s.minLength}자 이상이어야 합니다`,
+    format: (f, s) => `${f}는 유효한 ${s.format} 형식이어야 합니다`,
+    minimum: (f, s) => `${f}는 ${s.minimum} 이상이어야 합니다`,
+    maximum: (f, s) => `${f}는 ${s.maximum} 이하여야 합니다`,
+  },
+  en: {
+    type: (f, s) => `${f} must be ${TYPE_LABELS.en[s.type!]}`,
+    required: (f) => `${f} is required`,
+    additionalProperties: (f) => `${f} is not an allowed property`,
+    enum: (f, s) => `${f} must be one of ${s.enum!.join(", ")}`,
+    const: (f, s) => `${f} must be ${String(s.const)}`,
+    pattern: (f, s) => `${f} must match ${s.pattern}`,
+    minLength: (f, s) => `${f} must be at least ${s.minLength} characters`,
+    format: (f, s) => `${f} must be a valid ${s.format}`,
+    minimum: (f, s) => `${f} must be >= ${s.minimum}`,
+    maximum: (f, s) => `${f} must be <= ${s.maximum}`,
+  },
+};
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Walker
+ * ────────────────────────────────────────────────────────────────────────── */
+const RFC3339 =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i;
+
+const escapePointer = (s: string) => s.replace(/~/g, "~0").replace(/\//g, "~1");
+const fieldOf = (pointer: string, locale: ValidationLocale) =>
+  pointer
+    ? pointer.split("/").pop()!.replace(/~1/g, "/").replace(/~0/g, "~")
+    : locale === "ko"
+    ? "요청 본문"
+    : "request body";
+
+const matchesType = (value: unknown, type: JsonSchema["type"]) => {
+  switch (type) {
+    case "object":
+      return !!value && typeof value === "object" && !Array.isArray(value);
+    case "array":
+      return Array.isArray(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "string":
+      return typeof value === "string";
+    case "boolean":
+      return typeof value === "boolean";
+    default:
+      return true;
+  }
+};
+
+const walk = (
+  value: unknown,
+  schema: JsonSchema,
+  pointer: string,
+  locale: ValidationLocale,
+  out: SpecViolation[]
+) => {
+  const push = (keyword: ValidationKeyword, at = pointer) =>
+    out.push({
+      pointer: at,
+      keyword,
+      message: MESSAGES[locale][keyword](fieldOf(at, locale), schema),
+    });
+
+  if (!matchesType(value, schema.type)) {
+    push("type");
+    return;
+  }
+  if (schema.const !== undefined && value !== schema.const) push("const");
+  if (schema.enum && !schema.enum.includes(value)) push("enum");
+
+  if (typeof value === "string") {
+    if (schema.pattern && !new RegExp(schema.pattern).test(value))
+      push("pattern");
+    if (schema.minLength !== undefined && value.length < schema.minLength)
+      push("minLength");
+    if (
+      schema.format === "date-time" &&
+      (!RFC3339.test(value) || isNaN(Date.parse(value)))
+    )
+      push("format");
+  }
+
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) push("minimum");
+    if (schema.maximum !== undefined && value > schema.maximum) push("maximum");
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) =>
+      walk(item, schema.items!, `${pointer}/${i}`, locale, out)
+    );
+  }
+
+  if (schema.type === "object") {
+    const obj = value as Record<string, unknown>;
+    const props = schema.properties ?? {};
+    for (const name of schema.required ?? []) {
+      if (obj[name] === undefined) {
+        push("required", `${pointer}/${escapePointer(name)}`);
+      }
+    }
+    for (const [name, v] of Object.entries(obj)) {
+      const at = `${pointer}/${escapePointer(name)}`;
+      if (props[name]) {
+        if (v !== undefined) walk(v, props[name], at, locale, out);
+      } else if (schema.additionalProperties === false) {
+        push("additionalProperties", at);
+      }
+    }
+  }
+};
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Public API
+ * ────────────────────────────────────────────────────────────────────────── */
+export const validateSchema = (
+  value: unknown,
+  schema: JsonSchema,
+  locale: ValidationLocale = "ko"
+) => {
+  const out: SpecViolation[] = [];
+  walk(value, schema, "", locale, out);
+  return out;
+};
+
+/** 스펙 requestBodySchema 기준으로 요청 본문 위반 목록을 반환한다. (빈 배열 = 통과) */
+export const validateSpecRequest = (
+  key: SpecKey,
+  payload: unknown,
+  options?: { locale?: ValidationLocale }
+) => validateSchema(payload, getRequestBodySchema(key), options?.locale);
+
+/** PRE 게이트: 위반이 하나라도 있으면 요청을 보내기 전에 SpecValidationError 로 차단한다. */
+export const assertSpecRequest = (
+  key: SpecKey,
+  payload: unknown,
+  options?: { locale?: ValidationLocale }
+) => {
+  const violations = validateSpecRequest(key, payload, options);
+  if (violations.length) throw new SpecValidationError(key, violations);
+};
@@ -0,0 +1,290 @@
+/* ──────────────────────────────────────────────────────────────────────────
+ * Types
+ *  - 테스트 이름 규칙: `PREFIX | TYPE | CATEGORY | SUMMARY`
+ *    (예: `MS | 409 | 실패 | 재료 부족`)
+ * ────────────────────────────────────────────────────────────────────────── */
+export type TestCaseCategory = "검증" | "성공" | "실패";
+
+export interface CollectedTest {
+  /** 최상위 describe 이름 (예: POST /api/v1/menu/select) */
+  suite: string;
+  name: string;
+  /** 저장소 루트 기준 경로 */
+  file: string;
+  line: number;
+}
+
+export interface ParsedTestName {
+  prefix: string;
+  /** PRE | ERR | HTTP 상태 코드 */
+  type: string;
+  category: TestCaseCategory;
+  summary: string;
+}
+
+export interface TestCaseRow {
+  id: string;
+  type: string;
+  http: string;
+  summary: string;
+  purpose: string;
+  file: string;
+  line: number;
+}
+
+export interface TestCaseSection {
+  title: string;
+  rows: TestCaseRow[];
+}
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Parse
+ * ────────────────────────────────────────────────────────────────────────── */
+const NAME_PATTERN =
+  /^([A-Z]{2,}) \| (PRE|ERR|\d{3}) \| (검증|성공|실패) \| (.+)$/;
+
+export const parseTestName = (name: string): ParsedTestName | undefined => {
+  const m = NAME_PATTERN.exec(name);
+  if (!m) return undefined;
+  const [, prefix, type, category, summary] = m;
+  return {
+    prefix,
+    type,
+    category: category as TestCaseCategory,
+    summary: summary.trim().replace(/\s+/g, " "),
+  };
+};
+
+const isBoundary = (ch: string | undefined) =>
+  ch === undefined || !/[\p{L}\p{N}._-]/u.test(ch);
+
+/** 여는/닫는 괄호 짝이 맞는지 (합친 가운데 조각이 괄호를 가르지 않도록) */
+const isBalanced = (s: string) => {
+  let depth = 0;
+  for (const ch of s) {
+    if (ch === "(") depth++;
+    if (ch === ")" && --depth < 0) return false;
+  }
+  return depth === 0;
+};
+
+/** it.each 가 문자열 인자($label 등)에 붙이는 '…' 따옴표 제거 */
+const unquoteEachArgs = (s: string) => s.replace(/'([^']*)'/g, "$1");
+
+/** 이보다 많으면 처음/마지막 값과 건수만 표기 (스키마 생성 케이스 등) */
+const MAX_MERGED = 5;
+
+/**
+ * it.each 로 펼쳐진 이름을 한 줄로 합친다.
+ * 예) 필수값(menuId) 누락 / 필수값(shopId) 누락 → 필수값(menuId/shopId) 누락
+ *  - 공통 앞/뒤는 괄호를 가르지 않는 위치까지만 남기고, 안 되면 이름 전체를 나열
+ */
+export const mergeSummaries = (summaries: string[]) => {
+  const unique = [...new Set(summaries.map(unquoteEachArgs))];
+  if (unique.length === 1) return unique[0];
+
+  const fromEnd = (s: string, n: number) => s[s.length - n];
+  const middleOf = (head: number, tail: number) =>
+    unique.map((s) => s.slice(head, s.length - tail));
+  const balanced = (head: number, tail: number) =>
+    middleOf(head, tail).every(isBalanced);
+
+  let head = 0;
+  while (unique.every((s) => s[head] === unique[0][head] && head < s.length))
+    head++;
+  while (head > 0 && !isBoundary(unique[0][head - 1])) head--;
+
+  let tail = 0;
+  while (
+    unique.every(
+      (s) =>
+        s.length - tail > head &&
+        fromEnd(s, tail + 1) === fromEnd(unique[0], tail + 1)
+    )
+  )
+    tail++;
+  while (
+    tail > 0 &&
+    (!isBoundary(fromEnd(unique[0], tail)) || !balanced(head, tail))
+  )
+    tail--;
+  while (
+    head > 0 &&
+    (!isBoundary(unique[0][head - 1]) || !balanced(head, tail))
+  )
+    head--;
+
+  const middle = middleOf(head, tail);
+  const merged =
+    middle.length > MAX_MERGED
+      ? `${middle[0]}/…/${middle[middle.length - 1]} (${middle.length}건)`
+      : middle.join("/");
+  return (
+    unique[0].slice(0, head) + merged + unique[0].slice(unique[0].length - tail)
+  );
+};
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Build
+ *  - 규칙을 따르는 이름만 대상, 같은 위치(it.each)는 한 행으로 묶음
+ *  - ID 는 프리픽스별 파일 내 순서대로 부여 (MS1, MS2, ...)
+ *  - "왜 필요한가(목적)" 열은 기존 문서에서 (프리픽스, 유형, 요약)으로 찾아 유지
+ * ────────────────────────────────────────────────────────────────────────── */
+interface RowGroup {
+  test: CollectedTest;
+  type: string;
+  summaries: string[];
+}
+
+export const purposeKey = (prefix: string, type: string, summary: string) =>
+  `${prefix} ${type} ${summary}`;
+
+export const buildTestCaseSections = (
+  tests: CollectedTest[],
+  purposes: Map<string, string> = new Map()
+): TestCaseSection[] => {
+  const sections = new Map<
+    string,
+    { prefix: string; groups: Map<string, RowGroup> }
+  >();
+
+  const ordered = [...tests].sort(
+    (a, b) => a.file.localeCompare(b.file) || a.line - b.line
+  );
+  for (const test of ordered) {
+    const parsed = parseTestName(test.name);
+    if (!parsed) continue;
+
+    const section = sections.get(test.suite) ?? {
+      prefix: parsed.prefix,
+      groups: new Map(),
+    };
+    sections.set(test.suite, section);
+
+    const at = `${test.file}:${test.line}`;
+    const group = section.groups.get(at) ?? {
+      test,
+      summaries: [],
+      type: parsed.type,
+    };
+    group.summaries.push(parsed.summary);
+    section.groups.set(at, group);
+  }
+
+  return [...sections].map(([title, { prefix, groups }]) => ({
+    title,
+    rows: [...groups.values()].map(({ test, summaries, type }, i) => {
+      const summary = mergeSummaries(summaries);
+      return {
+        id: `${prefix}${i + 1}`,
+        type,
+        http: /^\d{3}$/.test(type) ? type : "-",
+        summary,
+        purpose: purposes.get(purposeKey(prefix, type, summary)) ?? "",
+        file: test.file,
+        line: test.line,
+      };
+    }),
+  }));
+};
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Markdown
+ * ────────────────────────────────────────────────────────────────────────── */
+const HEADERS = [
+  "ID",
+  "유형",
+  "HTTP",
+  "시나리오 요약",
+  "왜 필요한가(목적)",
+  "구현 위치",
+];
+
+/** 한글/CJK 는 2칸으로 계산 (prettier 표 정렬과 동일) */
+const displayWidth = (s: string) =>
+  [...s].reduce(
+    (w, ch) =>
+      w +
+      (/[\u1100-\u115f\u2e80-\ua4cf\uac00-\ud7a3\uf900-\ufaff\ufe30-\ufe4f\uff00-\uff60\uffe0-\uffe6]/.test(
+        ch
+      )
+        ? 2
+        : 1),
+    0
+  );
+
+const escapeCell = (s: string) => s.replace(/\|/g, "\\|");
+
+const renderTable = (rows: string[][]) => {
+  const widths = HEADERS.map((_, c) =>
+    Math.max(3, ...rows.map((r) => displayWidth(r[c])))
+  );
+  const line = (cells: string[]) =>
+    `| ${cells
+      .map((cell, c) => cell + " ".repeat(widths[c] - displayWidth(cell)))
+      .join(" | ")} |`;
+  const [head, ...body] = rows;
+  return [
+    line(head),
+    `| ${widths.map((w) => "-".repeat(w)).join(" | ")} |`,
+    ...body.map(line),
+  ];
+};
+
+export const renderTestCaseSpec = (
+  sections: TestCaseSection[],
+  docDir = "docs"
+) => {
+  const relRoot = docDir
+    .split("/")
+    .filter(Boolean)
+    .map(() => "..")
+    .join("/");
+  const lines = [
+    "# 테스트 케이스 목록",
+    "",
+    "> 테스트 이름(`PREFIX | TYPE | CATEGORY | SUMMARY`)에서 생성됩니다 (`npm run docs:test-cases`).",
+    '> "왜 필요한가(목적)" 열만 직접 작성하며, 재생성 시 (프리픽스, 유형, 시나리오 요약)이 같은 행에 유지됩니다.',
+    "",
+  ];
+
+  sections.forEach((section, i) => {
+    const rows = section.rows.map((r) => {
+      const base = r.file.split("/").pop();
+      return [
+        r.id,
+        r.type,
+        r.http,
+        r.summary,
+        r.purpose,
+        `[${base}:${r.line}](${relRoot}/${r.file}#L${r.line})`,
+      ].map(escapeCell);
+    });
+    lines.push(
+      `## ${i + 1}. ${section.title}`,
+      "",
+      ...renderTable([HEADERS, ...rows]),
+      "",
+      "---",
+      ""
+    );
+  });
+
+  return lines.join("\n");
+};
+
+/** 기존 문서 표에서 (프리픽스, 유형, 요약) → 목적 을 읽는다 */
+export const readPurposes = (markdown: string) => {
+  const purposes = new Map<string, string>();
+  for (const raw of markdown.split("\n")) {
+    if (!/^\|\s*[A-Z]+\d+\s*\|/.test(raw)) continue;
+    const cells = raw
+      .slice(1, -1)
+      .split(/(?<!\\)\|/)
+      .map((c) => c.trim().replace(/\\\|/g, "|").replace(/\s+/g, " "));
+    const [id, type, , summary, purpose] = cells;
+    const prefix = id.replace(/\d+$/, "");
+    if (purpose) purposes.set(purposeKey(prefix, type, summary), purpose);
+  }
+  return purposes;
+};
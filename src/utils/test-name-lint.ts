@@ -0,0 +1,240 @@
+import ts from "typescript";
+
+import { parseTestName, type TestCaseCategory } from "./test-case-spec";
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Types
+ * ────────────────────────────────────────────────────────────────────────── */
+export type TestNameRule =
+  | "title-format"
+  | "prefix"
+  | "category"
+  | "section-order"
+  | "failure-order"
+  | "mock-status";
+
+export interface TestNameViolation {
+  file: string;
+  line: number;
+  rule: TestNameRule;
+  message: string;
+}
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Rules
+ *  - 엔드포인트 테스트 파일(최상위 describe 가 `METHOD /path`)만 대상
+ *  - 유틸리티 스위트(describe("mock-server") 등 모듈명)는 `상황 — 기대 결과` 형식으로
+ *    의도적으로 제외. HTTP 상태를 다뤄도 엔드포인트 계약이 아닌 모듈 동작 검증이다
+ *  - 섹션: 검증 → 성공 → 실패
+ *  - 섹션별 TYPE: 검증=PRE, 성공=2xx, 실패=4xx/5xx/ERR (오름차순, ERR 마지막)
+ *  - 프리픽스: 엔드포인트(최상위 describe)당 하나, 엔드포인트 간 중복 금지
+ *  - HTTP 열은 본문의 mockError(fn, status, ...) 상태와 일치
+ * ────────────────────────────────────────────────────────────────────────── */
+const ENDPOINT_SUITE = /^(GET|POST|PUT|PATCH|DELETE) \//;
+const SECTIONS: TestCaseCategory[] = ["검증", "성공", "실패"];
+
+const typeFits: Record<TestCaseCategory, (type: string) => boolean> = {
+  검증: (t) => t === "PRE",
+  성공: (t) => /^2\d\d$/.test(t),
+  실패: (t) => t === "ERR" || /^[45]\d\d$/.test(t),
+};
+
+/** 400 → … → 429 → 5xx → ERR */
+const failureRank = (type: string) =>
+  type === "ERR" ? Number.MAX_SAFE_INTEGER : Number(type);
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * AST helpers
+ * ────────────────────────────────────────────────────────────────────────── */
+interface TestCall {
+  title: string;
+  line: number;
+  body?: ts.Node;
+}
+
+/** it(...), it.skipIf(c)(...), it.each([...])(...) 등에서 기준 식별자 */
+const rootName = (expr: ts.Expression): string | undefined => {
+  if (ts.isIdentifier(expr)) return expr.text;
+  if (ts.isPropertyAccessExpression(expr)) return rootName(expr.expression);
+  if (ts.isCallExpression(expr)) return rootName(expr.expression);
+  return undefined;
+};
+
+const titleOf = (node: ts.CallExpression) => {
+  const [first] = node.arguments;
+  return first &&
+    (ts.isStringLiteral(first) || ts.isNoSubstitutionTemplateLiteral(first))
+    ? first
+    : undefined;
+};
+
+const lineOf = (sf: ts.SourceFile, node: ts.Node) =>
+  sf.getLineAndCharacterOfPosition(node.getStart(sf)).line + 1;
+
+const callsOf = (sf: ts.SourceFile, scope: ts.Node, names: string[]) => {
+  const calls: TestCall[] = [];
+  const visit = (node: ts.Node) => {
+    if (ts.isCallExpression(node)) {
+      const name = rootName(node.expression);
+      const title = titleOf(node);
+      if (name && names.includes(name) && title) {
+        calls.push({
+          title: title.text,
+          line: lineOf(sf, title),
+          body: node.arguments[1],
+        });
+        return;
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  ts.forEachChild(scope, visit);
+  return calls;
+};
+
+const mockErrorStatuses = (sf: ts.SourceFile, body: ts.Node) => {
+  const found: Array<{ status: number; line: number }> = [];
+  const visit = (node: ts.Node) => {
+    if (
+      ts.isCallExpression(node) &&
+      ts.isIdentifier(node.expression) &&
+      node.expression.text === "mockError"
+    ) {
+      const status = node.arguments[1];
+      if (status && ts.isNumericLiteral(status)) {
+        found.push({ status: Number(status.text), line: lineOf(sf, status) });
+      }
+    }
+    ts.forEachChild(node, visit);
+  };
+  visit(body);
+  return found;
+};
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Public API
+ * ────────────────────────────────────────────────────────────────────────── */
+export const lintTestNames = (
+  sources: Array<{ file: string; source: string }>
+): TestNameViolation[] => {
+  const violations: TestNameViolation[] = [];
+  const prefixOwners = new Map<string, string>();
+
+  for (const { file, source } of sources) {
+    const sf = ts.createSourceFile(file, source, ts.ScriptTarget.Latest, true);
+    const report = (line: number, rule: TestNameRule, message: string) =>
+      violations.push({ file, line, rule, message });
+
+    for (const suite of callsOf(sf, sf, ["describe"])) {
+      if (!ENDPOINT_SUITE.test(suite.title) || !suite.body) continue;
+
+      let sectionIndex = -1;
+      let prefix: string | undefined;
+
+      for (const section of callsOf(sf, suite.body, ["describe"])) {
+        const category = section.title as TestCaseCategory;
+        const index = SECTIONS.indexOf(category);
+        if (index < 0) {
+          report(
+            section.line,
+            "section-order",
+            `섹션은 ${SECTIONS.join("/")} 중 하나여야 합니다: "${
+              section.title
+            }"`
+          );
+          continue;
+        }
+        if (index <= sectionIndex) {
+          report(
+            section.line,
+            "section-order",
+            `섹션 순서는 ${SECTIONS.join(" → ")} 입니다: "${category}"`
+          );
+        }
+        sectionIndex = Math.max(sectionIndex, index);
+
+        let lastFailure: { type: string; line: number } | undefined;
+        const tests = section.body
+          ? callsOf(sf, section.body, ["it", "test"])
+          : [];
+        for (const test of tests) {
+          const parsed = parseTestName(test.title);
+          if (!parsed || /\s{2,}/.test(test.title)) {
+            report(
+              test.line,
+              "title-format",
+              `제목은 "PREFIX | TYPE | CATEGORY | SUMMARY" 형식(단일 공백)이어야 합니다: "${test.title}"`
+            );
+            if (!parsed) continue;
+          }
+
+          prefix ??= parsed.prefix;
+          if (parsed.prefix !== prefix) {
+            report(
+              test.line,
+              "prefix",
+              `"${suite.title}" 의 프리픽스는 ${prefix} 입니다: ${parsed.prefix}`
+            );
+          }
+
+          if (parsed.category !== category) {
+            report(
+              test.line,
+              "category",
+              `CATEGORY(${parsed.category})가 섹션(${category})과 다릅니다`
+            );
+          }
+          if (!typeFits[category](parsed.type)) {
+            report(
+              test.line,
+              "category",
+              `${category} 섹션에 TYPE ${parsed.type} 는 올 수 없습니다`
+            );
+          }
+
+          if (category === "실패" && typeFits.실패(parsed.type)) {
+            if (
+              lastFailure &&
+              failureRank(parsed.type) < failureRank(lastFailure.type)
+            ) {
+              report(
+                test.line,
+                "failure-order",
+                `실패 케이스는 400 → … → 429 → ERR 순서여야 합니다: ${parsed.type} 가 ${lastFailure.type}(${lastFailure.line}행) 뒤에 있습니다`
+              );
+            }
+            lastFailure = { type: parsed.type, line: test.line };
+          }
+
+          if (/^\d{3}$/.test(parsed.type) && test.body) {
+            for (const { status, line } of mockErrorStatuses(sf, test.body)) {
+              if (String(status) !== parsed.type) {
+                report(
+                  line,
+                  "mock-status",
+                  `HTTP 열(${parsed.type})과 mockError 상태(${status})가 다릅니다`
+                );
+              }
+            }
+          }
+        }
+      }
+
+      if (prefix) {
+        const owner = prefixOwners.get(prefix);
+        if (owner && owner !== suite.title) {
+          report(
+            suite.line,
+            "prefix",
+            `프리픽스 ${prefix} 는 이미 "${owner}" 에서 사용 중입니다`
+          );
+        }
+        prefixOwners.set(prefix, owner ?? suite.title);
+      }
+    }
+  }
+  return violations;
+};
+
+export const formatViolation = (v: TestNameViolation) =>
+  `${v.file}:${v.line} [${v.rule}] ${v.message}`;
@@ -0,0 +1,39 @@
+/* ──────────────────────────────────────────────────────────────────────────
+ * Types
+ * ────────────────────────────────────────────────────────────────────────── */
+export type TestTarget = "mock" | "live";
+
+/** x-mock-fixture 헤더로 로컬 목 서버에 지정하는 응답 고정값 */
+export type LiveFixture = {
+  status: number;
+  data: unknown;
+  headers?: Record<string, string>;
+};
+
+/** MockApiServer 만 해석하는 fixture 헤더. 배포 환경은 무시한다. */
+export const FIXTURE_HEADER = "x-mock-fixture";
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Target
+ *  - mock: MockAdapter(axios 어댑터) 모킹 (기본값)
+ *  - live: 실제 HTTP 로 API_URL 호출 (로컬 목 서버 또는 배포 환경)
+ * ────────────────────────────────────────────────────────────────────────── */
+export const getTestTarget = (): TestTarget =>
+  String(process.env.TEST_TARGET ?? "mock").toLowerCase() === "live"
+    ? "live"
+    : "mock";
+export const isLiveTarget = () => getTestTarget() === "live";
+
+/** MOCK_SERVER=true → globalSetup 이 API_URL 에 로컬 목 서버를 띄움 (/__mock/* 제어 가능) */
+export const isMockServerEnabled = () =>
+  String(process.env.MOCK_SERVER ?? "false").toLowerCase() === "true";
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Fixture header (MockApiServer 전용)
+ *  - live 모드의 목 헬퍼는 fixture 를 보내지 않는다 (요청이 서버 로직까지 도달)
+ *  - 서버 상태로 만들 수 없는 응답을 로컬 목 서버에서 재현할 때만 직접 싣는다
+ * ────────────────────────────────────────────────────────────────────────── */
+export const encodeFixture = (fixture: LiveFixture) =>
+  Buffer.from(JSON.stringify(fixture), "utf8").toString("base64");
+export const decodeFixture = (value: string): LiveFixture =>
+  JSON.parse(Buffer.from(value, "base64").toString("utf8"));
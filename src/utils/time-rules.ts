@@ -0,0 +1,95 @@
+import { toMs, type Clock, type Duration } from "./clock";
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Rules
+ *  - 타임스탬프 허용 오차 ±1.5s (서버 응답 필드 간 / 로컬 시계 대비)
+ *  - RFC 3339 date-time: 2025-08-07T12:30:00.123Z, 2025-08-07T21:30:00+09:00
+ * ────────────────────────────────────────────────────────────────────────── */
+export const TIMESTAMP_TOLERANCE_MS = 1_500;
+
+const RFC3339 =
+  /^\d{4}-\d{2}-\d{2}[Tt]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/;
+
+export interface ToleranceOptions {
+  toleranceMs?: number;
+}
+
+/** [라벨, 값] — 에러 메시지에 필드명을 남기기 위함 */
+type Labeled = readonly [label: string, value: unknown];
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Parse
+ * ────────────────────────────────────────────────────────────────────────── */
+export const parseRfc3339 = (value: unknown, label = "value") => {
+  if (typeof value !== "string" || !RFC3339.test(value)) {
+    throw new Error(
+      `${label} 은(는) RFC 3339 date-time 이어야 합니다: ${JSON.stringify(
+        value
+      )}`
+    );
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`${label} 은(는) 존재하지 않는 시각입니다: ${value}`);
+  }
+  return date;
+};
+
+const formatMs = (ms: number) => `${(ms / 1000).toFixed(3)}s`;
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Assertions
+ * ────────────────────────────────────────────────────────────────────────── */
+/** to - from 이 기대 기간 ± 허용 오차 (예: reservationExpiresAt - timestamp = 5분) */
+export const assertDuration = (
+  [fromLabel, fromValue]: Labeled,
+  [toLabel, toValue]: Labeled,
+  expected: Duration,
+  { toleranceMs = TIMESTAMP_TOLERANCE_MS }: ToleranceOptions = {}
+) => {
+  const actualMs =
+    parseRfc3339(toValue, toLabel).getTime() -
+    parseRfc3339(fromValue, fromLabel).getTime();
+  const expectedMs = toMs(expected);
+  if (Math.abs(actualMs - expectedMs) > toleranceMs) {
+    throw new Error(
+      `${toLabel} - ${fromLabel} = ${formatMs(actualMs)}, 기대 ${formatMs(
+        expectedMs
+      )} ±${formatMs(toleranceMs)}`
+    );
+  }
+  return actualMs;
+};
+
+/** 로컬 시계 대비 오차 (live 응답의 timestamp 등) */
+export const assertClockSkew = (
+  [label, value]: Labeled,
+  {
+    now = () => new Date(),
+    toleranceMs = TIMESTAMP_TOLERANCE_MS,
+  }: ToleranceOptions & { now?: Clock } = {}
+) => {
+  const skewMs = parseRfc3339(value, label).getTime() - now().getTime();
+  if (Math.abs(skewMs) > toleranceMs) {
+    throw new Error(
+      `${label} 이(가) 로컬 시계와 ${formatMs(
+        skewMs
+      )} 차이 납니다 (허용 ±${formatMs(toleranceMs)})`
+    );
+  }
+  return skewMs;
+};
+
+/** 나열 순서대로 같거나 늦어야 한다 (예: 예약 timestamp ≤ 주문 createdAt) */
+export const assertMonotonic = (...points: Labeled[]) => {
+  const dates = points.map(([label, value]) => parseRfc3339(value, label));
+  for (let i = 1; i < dates.length; i++) {
+    if (dates[i].getTime() < dates[i - 1].getTime()) {
+      throw new Error(
+        `${points[i][0]}(${points[i][1]}) 이(가) ${points[i - 1][0]}(${
+          points[i - 1][1]
+        }) 보다 이릅니다`
+      );
+    }
+  }
+};
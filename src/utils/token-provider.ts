@@ -0,0 +1,192 @@
+import { readFileSync } from "node:fs";
+import axios from "axios";
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Types
+ * ────────────────────────────────────────────────────────────────────────── */
+export interface TokenProvider {
+  /** 현재 토큰. 만료가 임박했으면 먼저 갱신한다 */
+  getToken(): Promise<string | undefined>;
+  /** 캐시를 버리고 새 토큰 발급 (401 재시도용). 없으면 갱신 불가 */
+  refresh?(): Promise<string | undefined>;
+}
+
+/** 이름 있는 주체(principal) → 토큰 공급자. 예) member / shopOwner / noScope */
+export type Principals = Record<string, TokenProvider>;
+
+export interface IssuedToken {
+  token?: string;
+  /** epoch ms. JWT 면 exp 가 우선 */
+  expiresAt?: number;
+}
+
+export interface CachedTokenOptions {
+  now?: () => number;
+  /** 만료 이 시간 전이면 미리 갱신 (기본 30초) */
+  refreshSkewMs?: number;
+}
+
+export interface ClientCredentialsOptions extends CachedTokenOptions {
+  tokenUrl: string;
+  clientId: string;
+  clientSecret: string;
+  scope?: string;
+  http?: { post: typeof axios.post };
+}
+
+/** 요청 헤더로 principal 을 고른다. 인증 래퍼가 해석 후 제거한다 */
+export const PRINCIPAL_HEADER = "x-auth-principal";
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * JWT
+ * ────────────────────────────────────────────────────────────────────────── */
+/** 서명 검증 없이 payload.exp 만 읽는다 (epoch ms). JWT 가 아니면 undefined */
+export const decodeJwtExp = (token: string) => {
+  const [, payload] = token.split(".");
+  if (!payload || token.split(".").length !== 3) return undefined;
+  try {
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+    return typeof claims?.exp === "number" ? claims.exp * 1000 : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * Providers
+ * ────────────────────────────────────────────────────────────────────────── */
+export const cachedToken = (
+  issue: () => IssuedToken | Promise<IssuedToken>,
+  { now = () => Date.now(), refreshSkewMs = 30_000 }: CachedTokenOptions = {}
+): Required<TokenProvider> => {
+  let current: IssuedToken | undefined;
+  let pending: Promise<string | undefined> | undefined;
+
+  const fetchToken = () => {
+    pending ??= Promise.resolve(issue())
+      .then(({ token, expiresAt }) => {
+        current = {
+          token,
+          expiresAt: (token ? decodeJwtExp(token) : undefined) ?? expiresAt,
+        };
+        return token;
+      })
+      .finally(() => {
+        pending = undefined;
+      });
+    return pending;
+  };
+
+  const fresh = () =>
+    !!current?.token &&
+    (current.expiresAt === undefined ||
+      current.expiresAt - refreshSkewMs > now());
+
+  return {
+    getToken: async () => (fresh() ? current!.token : fetchToken()),
+    refresh: fetchToken,
+  };
+};
+
+export const staticToken = (token: string | undefined): TokenProvider => ({
+  getToken: async () => token,
+});
+
+/** 매 갱신마다 환경변수를 다시 읽는다 (코드에서 덮어쓰지 않음) */
+export const envToken = (name = "ACCESS_TOKEN", options?: CachedTokenOptions) =>
+  cachedToken(() => ({ token: process.env[name] || undefined }), options);
+
+/** 원문 토큰 또는 {"access_token", "expires_at"(epoch ms)} JSON 파일 */
+export const fileToken = (path: string, options?: CachedTokenOptions) =>
+  cachedToken(() => {
+    const raw = readFileSync(path, "utf8").trim();
+    if (!raw.startsWith("{")) return { token: raw || undefined };
+    const json = JSON.parse(raw);
+    return { token: json.access_token, expiresAt: json.expires_at };
+  }, options);
+
+/** OAuth2 client_credentials (RFC 6749 §4.4) */
+export const clientCredentials = ({
+  tokenUrl,
+  clientId,
+  clientSecret,
+  scope,
+  http = axios,
+  ...options
+}: ClientCredentialsOptions) => {
+  const now = options.now ?? (() => Date.now());
+  return cachedToken(async () => {
+    const form = new URLSearchParams({ grant_type: "client_credentials" });
+    if (scope) form.set("scope", scope);
+    const basic = Buffer.from(`${clientId}:${clientSecret}`).toString("base64");
+    const res = await http.post(tokenUrl, form.toString(), {
+      headers: {
+        Authorization: `Basic ${basic}`,
+        "Content-Type": "application/x-www-form-urlencoded",
+        "x-skip-auth": "true",
+      },
+    });
+    const { access_token, expires_in } = res.data ?? {};
+    return {
+      token: access_token,
+      expiresAt:
+        typeof expires_in === "number" ? now() + expires_in * 1000 : undefined,
+    };
+  }, options);
+};
+
+/* ──────────────────────────────────────────────────────────────────────────
+ * From ENV
+ *  - AUTH_PROVIDER: env(기본) | file | oauth2
+ *  - file: ACCESS_TOKEN_FILE / oauth2: OAUTH_TOKEN_URL, OAUTH_CLIENT_ID, OAUTH_CLIENT_SECRET
+ *  - OAUTH_PRINCIPALS: "member:clientId:secret,noScope:clientId:secret"
+ * ────────────────────────────────────────────────────────────────────────── */
+export const requiredEnv = (name: string) => {
+  const value = process.env[name];
+  if (!value) throw new Error(`환경 변수 ${name}이 설정되어 있어야 합니다.`);
+  return value;
+};
+
+export const tokenProviderFromEnv = (): TokenProvider => {
+  const kind = String(process.env.AUTH_PROVIDER ?? "env").toLowerCase();
+  if (kind === "file") return fileToken(requiredEnv("ACCESS_TOKEN_FILE"));
+  if (kind === "oauth2") {
+    return clientCredentials({
+      tokenUrl: requiredEnv("OAUTH_TOKEN_URL"),
+      clientId: requiredEnv("OAUTH_CLIENT_ID"),
+      clientSecret: requiredEnv("OAUTH_CLIENT_SECRET"),
+      scope: process.env.OAUTH_SCOPE,
+    });
+  }
+  return envToken();
+};
+
+export const principalsFromEnv = (): Principals => {
+  const spec = process.env.OAUTH_PRINCIPALS;
+  if (!spec) return {};
+  const tokenUrl = requiredEnv("OAUTH_TOKEN_URL");
+  return Object.fromEntries(
+    spec
+      .split(",")
+      .map((entry) => entry.trim().split(":"))
+      .filter((parts) => parts.length === 3)
+      .map(([name, clientId, clientSecret]) => [
+        name,
+        clientCredentials({ tokenUrl, clientId, clientSecret }),
+      ])
+  );
+};
+
+/** principal 이름이 있으면 해당 공급자, 없으면 기본 공급자 */
+export const resolveProvider = (
+  fallback: TokenProvider,
+  principals: Principals,
+  principal?: string
+) => {
+  if (!principal) return fallback;
+  const provider = principals[principal];
+  if (!provider) {
+    throw new Error(`등록되지 않은 principal 입니다: ${principal}`);
+  }
+  return provider;
+};
@@ -6,12 +6,17 @@ export default defineConfig({
     include: ["src/**/*.test.ts"],
     reporters: "default",
     setupFiles: ["./src/tests/test.bootstrap.ts"],
+    globalSetup: ["./src/tests/mock-server.setup.ts"],
     retry: 0,
     coverage: {
       provider: "v8",
       reportsDirectory: "./coverage",
       reporter: ["text", "lcov", "html"],
-      exclude: ["src/tests/test.bootstrap.ts", "src/utils/mock-helpers.ts"],
+      exclude: [
+        "src/tests/test.bootstrap.ts",
+        "src/tests/mock-server.setup.ts",
+        "src/utils/mock-helpers.ts",
+      ],
     },
   },
 });